@@ -1,20 +1,60 @@
-import { QueryClient, QueryClientProvider } from "react-query"
-import { Toaster } from "react-hot-toast"
-import HomePage from "./components/HomePage"
+import { BrowserRouter, useInRouterContext } from "react-router-dom"
+import AppRoutes from "./components/AppRoutes"
+import CampaignsProvider from "./components/CampaignsProvider"
+import type { CampaignsProviderProps } from "./components/CampaignsProvider"
+import { useI18n } from "./context/I18nContext"
+import { SUPPORTED_LOCALES } from "./i18n"
+import type { Locale } from "./types"
+
+export interface AppProps extends Omit<CampaignsProviderProps, "basePath" | "children"> {
+  // Prefijo de URL bajo el que se monta la aplicación cuando usa su propio router
+  basename?: string
+}
+
+const LocaleSelector = () => {
+  const { t, locale, setLocale } = useI18n()
+  if (!setLocale) return null
 
-const queryClient = new QueryClient()
-function App() {
   return (
-    <QueryClientProvider client={queryClient}>
+    <label className="flex items-center justify-end gap-2 text-sm text-gray-600 mb-4">
+      {t("app.language")}
+      <select
+        value={locale}
+        onChange={(event) => setLocale(event.target.value as Locale)}
+        className="border rounded py-1 px-2 bg-white"
+      >
+        {SUPPORTED_LOCALES.map((option) => (
+          <option key={option} value={option}>
+            {t(`locale.${option}`)}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+const AppTitle = () => {
+  const { t } = useI18n()
+  return <h1 className="text-3xl font-bold mb-8 text-center">{t("app.title")}</h1>
+}
+
+function App({ basename, ...providerProps }: AppProps) {
+  // Si el host ya tiene un router, las rutas se anidan en él en lugar de crear uno nuevo
+  const isInHostRouter = useInRouterContext()
+
+  const content = (
+    <CampaignsProvider {...providerProps}>
       <div className="min-h-screen bg-gray-100">
         <div className="container mx-auto px-4 py-8">
-          <h1 className="text-3xl font-bold mb-8 text-center">Gestión de Campañas Telefónicas</h1>
-          <HomePage />
+          <LocaleSelector />
+          <AppTitle />
+          <AppRoutes />
         </div>
       </div>
-      <Toaster position="top-right" />
-    </QueryClientProvider>
+    </CampaignsProvider>
   )
+
+  return isInHostRouter ? content : <BrowserRouter basename={basename}>{content}</BrowserRouter>
 }
 
 export default App
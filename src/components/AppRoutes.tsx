@@ -0,0 +1,42 @@
+import { Navigate, Route, Routes, useResolvedPath } from "react-router-dom"
+import { AppBaseContext } from "../context/AppPathsContext"
+import { useCampaignCommands } from "../hooks/useCampaignCommands"
+import { useStatusTransitionNotifications } from "../hooks/useStatusTransitionNotifications"
+import CampaignDetailPage from "./CampaignDetailPage"
+import ContactsPage from "./ContactsPage"
+import DashboardPage from "./DashboardPage"
+import DoNotCallPage from "./DoNotCallPage"
+import HomePage from "./HomePage"
+import SchedulePage from "./SchedulePage"
+import TrashPage from "./TrashPage"
+
+// Va dentro de AppBaseContext para que las órdenes del host naveguen a las rutas de la app
+const CampaignCommandHandler = () => {
+  useCampaignCommands()
+  return null
+}
+
+const AppRoutes = () => {
+  const { pathname } = useResolvedPath(".")
+  const base = pathname.replace(/\/$/, "")
+  useStatusTransitionNotifications()
+
+  return (
+    <AppBaseContext.Provider value={base}>
+      <CampaignCommandHandler />
+      <Routes>
+        <Route index element={<HomePage />} />
+        <Route path="campaigns/new" element={<HomePage isCreating />} />
+        <Route path="campaigns/:id" element={<CampaignDetailPage />} />
+        <Route path="trash" element={<TrashPage />} />
+        <Route path="dashboard" element={<DashboardPage />} />
+        <Route path="calendar" element={<SchedulePage />} />
+        <Route path="contacts" element={<ContactsPage />} />
+        <Route path="do-not-call" element={<DoNotCallPage />} />
+        <Route path="*" element={<Navigate to={base || "/"} replace />} />
+      </Routes>
+    </AppBaseContext.Provider>
+  )
+}
+
+export default AppRoutes
@@ -0,0 +1,196 @@
+import type React from "react"
+import { useState } from "react"
+import { useI18n } from "../context/I18nContext"
+import type { CallingWindow, TimeRange, Weekday } from "../types"
+import { COMMON_TIME_ZONES, createDefaultCallingWindow, getLocalTimeZone, WEEKDAYS } from "../utils/callingWindows"
+
+interface CallingWindowEditorProps {
+  // null: sin restricción horaria
+  value: CallingWindow | null
+  onChange: (value: CallingWindow | null) => void
+  disabled?: boolean
+  error?: string | null
+}
+
+const inputClassName =
+  "border rounded py-1 px-2 text-gray-700 focus:outline-none focus:shadow-outline disabled:bg-gray-100"
+
+const CallingWindowEditor: React.FC<CallingWindowEditorProps> = ({ value, onChange, disabled = false, error }) => {
+  const [newBlackoutDate, setNewBlackoutDate] = useState("")
+  const { t, translateMessage } = useI18n()
+
+  const timeZones = Array.from(new Set([getLocalTimeZone(), ...COMMON_TIME_ZONES, ...(value ? [value.timeZone] : [])]))
+
+  const update = (changes: Partial<CallingWindow>) => {
+    if (value) {
+      onChange({ ...value, ...changes })
+    }
+  }
+
+  const toggleWeekday = (day: Weekday) => {
+    if (value) {
+      update({
+        weekdays: value.weekdays.includes(day)
+          ? value.weekdays.filter((weekday) => weekday !== day)
+          : [...value.weekdays, day].sort((a, b) => a - b),
+      })
+    }
+  }
+
+  const updateRange = (index: number, changes: Partial<TimeRange>) => {
+    if (value) {
+      update({ timeRanges: value.timeRanges.map((range, i) => (i === index ? { ...range, ...changes } : range)) })
+    }
+  }
+
+  const addBlackoutDate = () => {
+    if (value && newBlackoutDate && !value.blackoutDates.includes(newBlackoutDate)) {
+      update({ blackoutDates: [...value.blackoutDates, newBlackoutDate].sort() })
+    }
+    setNewBlackoutDate("")
+  }
+
+  return (
+    <div className="mb-4">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={!!value}
+          onChange={(e) => onChange(e.target.checked ? createDefaultCallingWindow() : null)}
+          className="form-checkbox h-5 w-5 text-blue-600"
+          disabled={disabled}
+        />
+        <span className="ml-2 text-gray-700">{t("callingWindow.restrict")}</span>
+      </label>
+      {value && (
+        <div className={`mt-3 space-y-3 border rounded p-3 ${error ? "border-red-500" : ""}`}>
+          <div>
+            <label className="block text-gray-700 text-sm font-bold mb-1" htmlFor="callingWindowTimeZone">
+              {t("callingWindow.timeZone")}
+            </label>
+            <select
+              id="callingWindowTimeZone"
+              value={value.timeZone}
+              onChange={(e) => update({ timeZone: e.target.value })}
+              className={`${inputClassName} w-full`}
+              disabled={disabled}
+            >
+              {timeZones.map((timeZone) => (
+                <option key={timeZone} value={timeZone}>
+                  {timeZone}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <p className="text-gray-700 text-sm font-bold mb-1">{t("callingWindow.days")}</p>
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map((day) => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleWeekday(day)}
+                  className={`px-2 py-1 rounded text-sm ${
+                    value.weekdays.includes(day) ? "bg-blue-500 text-white" : "bg-gray-200 text-gray-700"
+                  } disabled:opacity-50`}
+                  aria-pressed={value.weekdays.includes(day)}
+                  disabled={disabled}
+                >
+                  {t(`weekday.${day}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-gray-700 text-sm font-bold mb-1">{t("callingWindow.timeRanges")}</p>
+            <ul className="space-y-1">
+              {value.timeRanges.map((range, index) => (
+                <li key={index} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="time"
+                    value={range.start}
+                    onChange={(e) => updateRange(index, { start: e.target.value })}
+                    className={inputClassName}
+                    aria-label={t("filters.from")}
+                    disabled={disabled}
+                  />
+                  <span>{t("callingWindow.rangeSeparator")}</span>
+                  <input
+                    type="time"
+                    value={range.end}
+                    onChange={(e) => updateRange(index, { end: e.target.value })}
+                    className={inputClassName}
+                    aria-label={t("filters.to")}
+                    disabled={disabled}
+                  />
+                  {!disabled && (
+                    <button
+                      type="button"
+                      onClick={() => update({ timeRanges: value.timeRanges.filter((_, i) => i !== index) })}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      {t("common.remove")}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {!disabled && (
+              <button
+                type="button"
+                onClick={() => update({ timeRanges: [...value.timeRanges, { start: "09:00", end: "13:00" }] })}
+                className="mt-1 text-sm text-blue-600 hover:text-blue-800"
+              >
+                {t("callingWindow.addRange")}
+              </button>
+            )}
+          </div>
+          <div>
+            <p className="text-gray-700 text-sm font-bold mb-1">{t("callingWindow.blackoutDates")}</p>
+            {value.blackoutDates.length > 0 && (
+              <ul className="flex flex-wrap gap-1 mb-1">
+                {value.blackoutDates.map((date) => (
+                  <li key={date} className="bg-gray-100 rounded px-2 py-0.5 text-sm">
+                    {date}
+                    {!disabled && (
+                      <button
+                        type="button"
+                        onClick={() => update({ blackoutDates: value.blackoutDates.filter((d) => d !== date) })}
+                        className="ml-1 text-red-500 hover:text-red-700"
+                        aria-label={t("callingWindow.removeBlackoutDate", { date })}
+                      >
+                        ×
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {!disabled && (
+              <div className="flex items-center gap-2">
+                <input
+                  type="date"
+                  value={newBlackoutDate}
+                  onChange={(e) => setNewBlackoutDate(e.target.value)}
+                  className={inputClassName}
+                  aria-label={t("callingWindow.blackoutDate")}
+                />
+                <button
+                  type="button"
+                  onClick={addBlackoutDate}
+                  className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  disabled={!newBlackoutDate}
+                >
+                  {t("common.add")}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+      {error && <p className="text-red-500 text-xs italic mt-1">{translateMessage(error)}</p>}
+    </div>
+  )
+}
+
+export default CallingWindowEditor
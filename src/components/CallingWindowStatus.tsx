@@ -0,0 +1,37 @@
+import type React from "react"
+import { useI18n } from "../context/I18nContext"
+import type { Campaign } from "../types"
+import { formatInTimeZone, getNextCallingWindow, isCallingAllowed } from "../utils/callingWindows"
+
+interface CallingWindowStatusProps {
+  campaign: Campaign
+  className?: string
+}
+
+// Indica si ahora se puede llamar o cuándo abre la próxima ventana, en la zona horaria de la campaña
+const CallingWindowStatus: React.FC<CallingWindowStatusProps> = ({ campaign, className = "" }) => {
+  const { t, locale } = useI18n()
+  const { callingWindow } = campaign
+  if (!callingWindow || campaign.status === "finished" || campaign.status === "cancelled") {
+    return null
+  }
+
+  const now = new Date()
+  if (isCallingAllowed(campaign, now)) {
+    return <p className={`text-sm text-green-700 ${className}`}>{t("callingWindow.open")}</p>
+  }
+
+  const nextWindow = getNextCallingWindow(campaign, now)
+  return (
+    <p className={`text-sm ${nextWindow ? "text-gray-600" : "text-red-600"} ${className}`}>
+      {nextWindow
+        ? t("callingWindow.next", {
+            date: formatInTimeZone(nextWindow, callingWindow.timeZone, locale),
+            timeZone: callingWindow.timeZone,
+          })
+        : t("callingWindow.noneLeft")}
+    </p>
+  )
+}
+
+export default CallingWindowStatus
@@ -0,0 +1,122 @@
+import type React from "react"
+import { useState } from "react"
+import { format, isSameDay, isSameMonth } from "date-fns"
+import type { Campaign } from "../types"
+import { getStatusBadgeColor } from "../utils"
+import { WEEKDAYS } from "../utils/callingWindows"
+import { canReschedule, getCampaignsOnDay, getDayOffset } from "../utils/campaignSchedule"
+import { useI18n } from "../context/I18nContext"
+
+interface CampaignCalendarProps {
+  campaigns: Campaign[]
+  days: Date[]
+  // Mes que se está mostrando; los días de otros meses se ven atenuados
+  month: Date
+  view: "month" | "week"
+  now: Date
+  onOpen: (campaign: Campaign) => void
+  onReschedule: (campaign: Campaign, days: number) => void
+}
+
+// Campaña que se está arrastrando y el día desde el que se tomó, para calcular cuántos días se corre
+interface DragState {
+  campaign: Campaign
+  fromDay: Date
+}
+
+const CampaignCalendar: React.FC<CampaignCalendarProps> = ({
+  campaigns,
+  days,
+  month,
+  view,
+  now,
+  onOpen,
+  onReschedule,
+}) => {
+  const { t, formatDate } = useI18n()
+  const [drag, setDrag] = useState<DragState | null>(null)
+  const [dropTarget, setDropTarget] = useState<Date | null>(null)
+
+  const handleDrop = (day: Date) => {
+    if (drag) {
+      onReschedule(drag.campaign, getDayOffset(drag.fromDay, day))
+    }
+    setDrag(null)
+    setDropTarget(null)
+  }
+
+  return (
+    <div className="grid grid-cols-7 border-l border-t text-sm">
+      {WEEKDAYS.map((weekday) => (
+        <div key={weekday} className="border-r border-b bg-gray-50 p-2 text-center font-medium text-gray-600">
+          {t(`weekday.${weekday}`)}
+        </div>
+      ))}
+      {days.map((day) => {
+        const isToday = isSameDay(day, now)
+        const isDropTarget = drag !== null && dropTarget !== null && isSameDay(day, dropTarget)
+        return (
+          <div
+            key={day.toISOString()}
+            onDragOver={(event) => {
+              if (drag) {
+                event.preventDefault()
+                setDropTarget(day)
+              }
+            }}
+            onDrop={(event) => {
+              event.preventDefault()
+              handleDrop(day)
+            }}
+            className={`border-r border-b p-1 ${view === "week" ? "min-h-[300px]" : "min-h-[100px]"} ${
+              isSameMonth(day, month) || view === "week" ? "" : "bg-gray-50 text-gray-400"
+            } ${isDropTarget ? "bg-blue-50" : ""}`}
+          >
+            <div className="flex items-center justify-between mb-1">
+              <span
+                className={`text-xs ${
+                  isToday ? "bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center" : ""
+                }`}
+              >
+                {format(day, "d")}
+              </span>
+              {isToday && view === "week" && (
+                <span className="text-xs text-red-600">{t("schedule.now", { time: formatDate(now, "time") })}</span>
+              )}
+            </div>
+            <ul className="space-y-1">
+              {getCampaignsOnDay(campaigns, day).map((campaign) => {
+                const draggable = canReschedule(campaign)
+                return (
+                  <li key={campaign.id}>
+                    <button
+                      draggable={draggable}
+                      onDragStart={(event) => {
+                        event.dataTransfer.effectAllowed = "move"
+                        event.dataTransfer.setData("text/plain", campaign.id)
+                        setDrag({ campaign, fromDay: day })
+                      }}
+                      onDragEnd={() => {
+                        setDrag(null)
+                        setDropTarget(null)
+                      }}
+                      onClick={() => onOpen(campaign)}
+                      title={draggable ? t("schedule.dragTitle") : campaign.name}
+                      className={`w-full truncate text-left px-1 rounded text-xs ${getStatusBadgeColor(campaign.status)} ${
+                        draggable ? "cursor-move" : ""
+                      }`}
+                    >
+                      {campaign.name}
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default CampaignCalendar
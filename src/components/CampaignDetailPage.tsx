@@ -0,0 +1,174 @@
+import { useState } from "react"
+import { useQuery } from "react-query"
+import { Link, useParams } from "react-router-dom"
+import type { Campaign } from "../types"
+import { getStatusBadgeColor } from "../utils"
+import { describeCallingWindow } from "../utils/callingWindows"
+import { canModifyPeople, getActiveTimeMs } from "../utils/statusMachine"
+import { useCampaignRepository } from "../context/RepositoryContext"
+import { useAppPaths } from "../context/AppPathsContext"
+import { useI18n } from "../context/I18nContext"
+import CampaignForm from "./CampaignForm"
+import CampaignPeopleTable from "./CampaignPeopleTable"
+import DialerPanel from "./DialerPanel"
+import CallingWindowStatus from "./CallingWindowStatus"
+
+const CampaignDetailPage = () => {
+  const { id = "" } = useParams<{ id: string }>()
+  const repository = useCampaignRepository()
+  const paths = useAppPaths()
+  const i18n = useI18n()
+  const { t, formatDate, formatTimeSpan } = i18n
+  const [isEditing, setIsEditing] = useState(false)
+
+  const {
+    data: campaign,
+    isLoading,
+    isError,
+  } = useQuery<Campaign | undefined>(["campaigns", id], () => repository.getById(id))
+
+  const backLink = (
+    <Link to={paths.home} className="text-blue-600 hover:text-blue-800">
+      ← {t("common.backToList")}
+    </Link>
+  )
+
+  if (isLoading) {
+    return <div>{t("detail.loading")}</div>
+  }
+
+  if (isError || !campaign) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6 text-center space-y-4">
+        <p className="text-gray-600">
+          {t(isError ? "detail.loadError" : "detail.notFound")}
+        </p>
+        {backLink}
+      </div>
+    )
+  }
+
+  const statusHistory = [...(campaign.statusHistory ?? [])].reverse()
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+      {campaign.deletedAt && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg p-4">
+          {t("detail.inTrash", { date: formatDate(campaign.deletedAt) })}{" "}
+          <Link to={paths.trash} className="underline hover:text-yellow-900">
+            {t("detail.goToTrash")}
+          </Link>
+        </div>
+      )}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <h2 className="text-2xl font-semibold">{campaign.name}</h2>
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusBadgeColor(campaign.status)}`}>
+              {t(`status.${campaign.status}`)}
+            </span>
+          </div>
+          {!campaign.deletedAt && (
+            <button
+              onClick={() => setIsEditing(true)}
+              className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded"
+            >
+              {t(canModifyPeople(campaign) ? "common.edit" : "detail.viewForm")}
+            </button>
+          )}
+        </div>
+        <dl className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          <div>
+            <dt className="text-sm text-gray-500">{t("detail.createdAt")}</dt>
+            <dd className="font-medium">{formatDate(campaign.createdAt)}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-500">{t("campaign.startDate")}</dt>
+            <dd className="font-medium">{formatDate(campaign.startDate)}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-500">{t("campaign.endDate")}</dt>
+            <dd className="font-medium">{formatDate(campaign.endDate)}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-500">{t("detail.activeTime")}</dt>
+            <dd className="font-medium">{formatTimeSpan(getActiveTimeMs(campaign))}</dd>
+          </div>
+          {campaign.pausedAt && (
+            <div>
+              <dt className="text-sm text-gray-500">{t("campaign.pausedSince")}</dt>
+              <dd className="font-medium">{formatDate(campaign.pausedAt)}</dd>
+            </div>
+          )}
+          <div>
+            <dt className="text-sm text-gray-500">{t("detail.callingWindow")}</dt>
+            <dd className="font-medium">
+              {campaign.callingWindow ? describeCallingWindow(campaign.callingWindow, i18n) : t("detail.unrestricted")}
+              {campaign.callingWindow && campaign.callingWindow.blackoutDates.length > 0 && (
+                <span className="block text-sm text-gray-600">
+                  {t("detail.blackoutDates", { dates: campaign.callingWindow.blackoutDates.join(", ") })}
+                </span>
+              )}
+              <CallingWindowStatus campaign={campaign} />
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-500">{t("form.recordCalls")}</dt>
+            <dd className="font-medium">{t(campaign.recordingStatus ? "common.yes" : "common.no")}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-500">{t("people.associated")}</dt>
+            <dd className="font-medium">{campaign.people.length}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-500">{t("detail.id")}</dt>
+            <dd className="font-mono text-sm break-all">{campaign.id}</dd>
+          </div>
+        </dl>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-xl font-semibold mb-4">{t("people.associated")}</h3>
+        <CampaignPeopleTable campaign={campaign} />
+      </div>
+
+      {campaign.status === "active" && <DialerPanel campaign={campaign} />}
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-xl font-semibold mb-4">{t("detail.statusHistory")}</h3>
+        {statusHistory.length > 0 ? (
+          <ol className="space-y-2">
+            {statusHistory.map((change, index) => (
+              <li key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-500 w-36">{formatDate(change.changedAt)}</span>
+                {change.from ? (
+                  <>
+                    <span className={`px-2 py-1 rounded-full text-xs ${getStatusBadgeColor(change.from)}`}>
+                      {t(`status.${change.from}`)}
+                    </span>
+                    <span>→</span>
+                  </>
+                ) : (
+                  <span className="text-gray-600">{t("detail.createdAs")}</span>
+                )}
+                <span className={`px-2 py-1 rounded-full text-xs ${getStatusBadgeColor(change.to)}`}>
+                  {t(`status.${change.to}`)}
+                </span>
+                {change.cause && (
+                  <span className="text-xs text-gray-500">({t(`transition.cause.${change.cause}`)})</span>
+                )}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-gray-600 italic">{t("detail.noStatusHistory")}</p>
+        )}
+      </div>
+
+      {isEditing && <CampaignForm campaign={campaign} onClose={() => setIsEditing(false)} />}
+    </div>
+  )
+}
+
+export default CampaignDetailPage
@@ -5,223 +5,206 @@ import { v4 as uuidv4 } from "uuid"
 import toast from "react-hot-toast"
 import DatePicker from "react-datepicker"
 import "react-datepicker/dist/react-datepicker.css"
-import { parse} from "date-fns"
-import type { Campaign, Person, CampaignStatus } from "../types"
-import { saveCampaigns, getCampaigns, formatDate } from "../utils"
+import type { CallingWindow, Campaign, Person, CampaignStatus } from "../types"
+import { getEditableFields, parseTimestamp, toTimestamp } from "../utils"
+import { getStatusOptions, initializeStatus, startsOnSave, transitionTo } from "../utils/statusMachine"
+import { createDefaultCallingWindow } from "../utils/callingWindows"
+import { DEFAULT_PHONE_COUNTRY, formatPhoneForDisplay, isSamePhoneNumber, isValidPhoneNumber } from "../utils/phone"
+import type { CountryCode } from "../utils/phone"
+import { createCampaignFormSchema, createPersonInputSchema, validate, validatePersonField } from "../schemas"
+import { useCampaignRepository } from "../context/RepositoryContext"
+import { useI18n } from "../context/I18nContext"
+import { DATE_FNS_LOCALES } from "../i18n"
+import { useOptimisticCampaigns } from "../hooks/useOptimisticCampaigns"
+import { useDoNotCallList } from "../hooks/useDoNotCallList"
+import PeopleImportModal from "./PeopleImportModal"
+import PhoneInput from "./PhoneInput"
+import CallingWindowEditor from "./CallingWindowEditor"
+import DoNotCallBadge from "./DoNotCallBadge"
 
-interface CampaignFormProps {
+export interface CampaignFormProps {
   onClose: () => void
   campaign?: Campaign
+  // Se llama con la campaña guardada, antes de cerrar el formulario
+  onSaved?: (campaign: Campaign) => void
 }
 
-const isValidPhoneNumber = (phone: string) => {
-  const digitsOnly = phone.replace(/\D/g, "")
-  return digitsOnly.length >= 7 && digitsOnly.length <= 15
-}
-
-const formatPhoneNumber = (value: string) => {
-  if (!value) return value
-  const phoneNumber = value.replace(/[^\d]/g, "")
-  const phoneNumberLength = phoneNumber.length
-  if (phoneNumberLength < 4) return phoneNumber
-  if (phoneNumberLength < 7) {
-    return `(${phoneNumber.slice(0, 3)}) ${phoneNumber.slice(3)}`
-  }
-  return `(${phoneNumber.slice(0, 3)}) ${phoneNumber.slice(3, 6)}-${phoneNumber.slice(6, 10)}`
-}
-
-const validateDates = (
-  status: CampaignStatus,
-  startDate: Date | null,
-  endDate: Date | null,
-): { startDateError: string | null; endDateError: string | null; isValid: boolean } => {
-  const now = new Date()
-  let startDateError: string | null = null
-  let endDateError: string | null = null
-
-  if (status === "En espera" && startDate) {
-    if (startDate < now) {
-      startDateError = "La fecha y hora de inicio debe ser igual o posterior a la fecha y hora actual."
-    }
-  }
-
-  if (endDate) {
-    if (endDate <= (status === "En espera" ? startDate || now : now)) {
-      endDateError = "La fecha y hora de fin debe ser posterior a la fecha y hora actual o de inicio."
-    }
-  }
-
-  return { startDateError, endDateError, isValid: !startDateError && !endDateError }
-}
-
-const CampaignForm: React.FC<CampaignFormProps> = ({ onClose, campaign }) => {
+const CampaignForm: React.FC<CampaignFormProps> = ({ onClose, campaign, onSaved }) => {
   const [name, setName] = useState(campaign?.name || "")
   const [startDate, setStartDate] = useState<Date | null>(() => {
     if (campaign?.startDate) {
-      return parse(campaign.startDate, "dd/MM/yyyy HH:mm", new Date())
+      return parseTimestamp(campaign.startDate)
     }
     return null
   })
   const [endDate, setEndDate] = useState<Date | null>(() => {
     if (campaign?.endDate) {
-      return parse(campaign.endDate, "dd/MM/yyyy HH:mm", new Date())
+      return parseTimestamp(campaign.endDate)
     }
     return null
   })
   const [recordingStatus, setRecordingStatus] = useState(campaign?.recordingStatus || false)
-  const [status, setStatus] = useState<CampaignStatus>(campaign?.status || "En espera")
+  const [status, setStatus] = useState<CampaignStatus>(campaign?.status || "waiting")
   const [people, setPeople] = useState<Person[]>(campaign?.people || [])
+  // Las campañas nuevas arrancan con el horario por defecto; las existentes conservan el suyo (o ninguno)
+  const [callingWindow, setCallingWindow] = useState<CallingWindow | null>(() =>
+    campaign ? campaign.callingWindow ?? null : createDefaultCallingWindow(),
+  )
   const [personName, setPersonName] = useState("")
   const [personLastName, setPersonLastName] = useState("")
   const [personPhone, setPersonPhone] = useState("")
+  const [personPhoneCountry, setPersonPhoneCountry] = useState<CountryCode>(DEFAULT_PHONE_COUNTRY)
   const [startDateError, setStartDateError] = useState<string | null>(null)
   const [endDateError, setEndDateError] = useState<string | null>(null)
   const [personNameError, setPersonNameError] = useState("")
   const [personLastNameError, setPersonLastNameError] = useState("")
   const [personPhoneError, setPersonPhoneError] = useState("")
+  const [isImporting, setIsImporting] = useState(false)
 
   const queryClient = useQueryClient()
+  const repository = useCampaignRepository()
+  const { reportError } = useOptimisticCampaigns()
+  const { t, translateMessage, locale } = useI18n()
+  const { isBlocked } = useDoNotCallList()
+  const editable = getEditableFields(campaign?.status)
+  const isReadOnly = !Object.values(editable).some(Boolean)
+  const previousStatus = campaign?.status ?? null
 
-  const updateStartDate = useCallback((newStatus: CampaignStatus, currentStartDate: Date | null) => {
-    if (newStatus === "Activa") {
-      return new Date()
+  useEffect(() => {
+    // Vista previa del efecto de la transición: iniciar ahora fija el inicio en el momento de guardar
+    if (startsOnSave(status, previousStatus)) {
+      setStartDate(new Date())
     }
-    return currentStartDate
-  }, [])
+  }, [status, previousStatus])
 
-  useEffect(() => {
-    setStartDate((prevStartDate) => updateStartDate(status, prevStartDate))
-  }, [status, updateStartDate])
+  const validation = useMemo(
+    () => validate(createCampaignFormSchema(), { name, status, startDate, endDate, people, callingWindow }),
+    [name, status, startDate, endDate, people, callingWindow],
+  )
 
   useEffect(() => {
-    const { startDateError, endDateError } = validateDates(status, startDate, endDate)
-    setStartDateError(startDateError)
-    setEndDateError(endDateError)
-  }, [status, startDate, endDate])
-
-  const isFormValid = useCallback((): boolean => {
-    if (!name.trim() || people.length === 0) {
-      return false
+    if (isReadOnly) {
+      return
     }
-    return validateDates(status, startDate, endDate).isValid
-  }, [name, people.length, status, startDate, endDate])
+    // Las fechas aún no elegidas no se marcan como error; solo deshabilitan el envío
+    const errors = validation.success ? {} : validation.errors
+    setStartDateError(startDate ? errors.startDate ?? null : null)
+    setEndDateError(endDate ? errors.endDate ?? null : null)
+  }, [isReadOnly, validation, startDate, endDate])
+
+  const isFormValid = useCallback((): boolean => validation.success, [validation])
 
   const mutation = useMutation<Campaign, Error, Campaign>(
-    async (newCampaign: Campaign) => {
-      const campaigns = await getCampaigns()
-      const updatedCampaigns = campaign
-        ? campaigns.map((c) => (c.id === campaign.id ? newCampaign : c))
-        : [...campaigns, newCampaign]
-      await saveCampaigns(updatedCampaigns)
-      return newCampaign
-    },
+    (newCampaign: Campaign) => (campaign ? repository.update(newCampaign) : repository.create(newCampaign)),
     {
-      onSuccess: () => {
+      onSuccess: (saved) => {
         queryClient.invalidateQueries("campaigns")
-        toast.success(campaign ? "Campaña actualizada" : "Campaña creada")
+        toast.success(t(campaign ? "campaign.updated" : "campaign.created"))
+        onSaved?.(saved)
         onClose()
       },
+      // El formulario queda abierto para no perder lo escrito
+      onError: (error) => reportError(error, campaign ? "campaign.updateError" : "campaign.createError"),
     },
   )
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    if (!isFormValid()) {
+    if (isReadOnly || !isFormValid()) {
+      return
+    }
+
+    // No se activa una campaña con números de la lista de no llamar; primero hay que quitarlos
+    const blockedCount = people.filter((person) => isBlocked(person.phone)).length
+    if (startsOnSave(status, previousStatus) && blockedCount > 0) {
+      toast.error(t("doNotCall.activationBlocked", { count: blockedCount }))
       return
     }
 
     const now = new Date()
-    const actualStartDate = status === "Activa" ? now : startDate || now
 
     const newCampaign: Campaign = {
+      ...campaign,
       id: campaign?.id || uuidv4(),
       name,
-      createdAt: campaign?.createdAt || formatDate(now),
-      startDate: formatDate(actualStartDate),
-      endDate: formatDate(endDate!),
+      createdAt: campaign?.createdAt || toTimestamp(now),
+      startDate: toTimestamp(startDate || now),
+      endDate: toTimestamp(endDate!),
       recordingStatus,
-      status,
-      people: [...(campaign?.people || []), ...people],
+      status: campaign?.status ?? status,
+      people,
+      callingWindow: callingWindow ?? undefined,
     }
 
-    mutation.mutate(newCampaign)
+    mutation.mutate(
+      campaign ? transitionTo(newCampaign, status, "manual", now) : initializeStatus(newCampaign, status, now),
+    )
   }
 
   const addPerson = () => {
-    let isValid = true
-
-    if (!/^[a-zA-ZáéíóúñÁÉÍÓÚÑ\s]+$/.test(personName)) {
-      setPersonNameError("El nombre solo debe contener letras y espacios")
-      isValid = false
-    } else {
-      setPersonNameError("")
-    }
-
-    if (!/^[a-zA-ZáéíóúñÁÉÍÓÚÑ\s]+$/.test(personLastName)) {
-      setPersonLastNameError("El apellido solo debe contener letras y espacios")
-      isValid = false
-    } else {
-      setPersonLastNameError("")
-    }
+    const schema = createPersonInputSchema({
+      country: personPhoneCountry,
+      isDuplicate: (phone) => people.some((p) => isSamePhoneNumber(p.phone, phone)),
+      isBlocked,
+    })
+    const result = validate(schema, { name: personName, lastName: personLastName, phone: personPhone })
 
-    if (!isValidPhoneNumber(personPhone)) {
-      setPersonPhoneError("El número de teléfono debe tener entre 7 y 15 dígitos")
-      isValid = false
-    } else {
-      setPersonPhoneError("")
-    }
-
-    if (!isValid) {
-      return
-    }
+    setPersonNameError(result.success ? "" : result.errors.name ?? "")
+    setPersonLastNameError(result.success ? "" : result.errors.lastName ?? "")
+    setPersonPhoneError(result.success ? "" : result.errors.phone ?? "")
 
-    if (people.some((p) => p.phone === personPhone)) {
-      toast.error("Ya existe una persona con este número de teléfono en la campaña.")
+    if (!result.success) {
       return
     }
 
-    const newPerson: Person = {
-      id: uuidv4(),
-      name: personName,
-      lastName: personLastName,
-      phone: personPhone,
-    }
+    const newPerson: Person = { id: uuidv4(), ...result.data }
 
     setPeople([...people, newPerson])
     setPersonName("")
     setPersonLastName("")
     setPersonPhone("")
-    toast.success("Persona agregada a la campaña")
+    toast.success(t("people.added"))
   }
 
   const isSubmitDisabled = useMemo(() => {
-    return !name.trim() || !endDate || people.length === 0 || (status === "En espera" && !startDate) || !isFormValid()
+    return !name.trim() || !endDate || people.length === 0 || (status === "waiting" && !startDate) || !isFormValid()
   }, [name, endDate, people.length, status, startDate, isFormValid])
 
   const renderAssociatedPeople = useCallback(() => {
-    const allPeople = (campaign?.people || []).concat(people)
-    return allPeople.length > 0 ? (
+    return people.length > 0 ? (
       <ul className="space-y-2">
-        {allPeople.map((person) => (
+        {people.map((person) => (
           <li key={person.id} className="bg-gray-100 rounded-lg p-3 shadow-sm">
-            <div className="flex items-center">
-              <div className="bg-blue-500 rounded-full w-8 h-8 flex items-center justify-center text-white font-semibold mr-3">
-                {person.name[0].toUpperCase()}
-              </div>
-              <div>
-                <p className="font-medium">
-                  {person.name} {person.lastName}
-                </p>
-                <p className="text-sm text-gray-600">{formatPhoneNumber(person.phone)}</p>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center">
+                <div className="bg-blue-500 rounded-full w-8 h-8 flex items-center justify-center text-white font-semibold mr-3">
+                  {person.name[0].toUpperCase()}
+                </div>
+                <div>
+                  <p className="font-medium">
+                    {person.name} {person.lastName}
+                    {isBlocked(person.phone) && <DoNotCallBadge />}
+                  </p>
+                  <p className="text-sm text-gray-600">{formatPhoneForDisplay(person.phone)}</p>
+                </div>
               </div>
+              {editable.people && (
+                <button
+                  type="button"
+                  onClick={() => setPeople((current) => current.filter((p) => p.id !== person.id))}
+                  className="text-red-500 hover:text-red-700"
+                >
+                  {t("common.remove")}
+                </button>
+              )}
             </div>
           </li>
         ))}
       </ul>
     ) : (
-      <p className="text-gray-500 italic">No hay personas asociadas a esta campaña.</p>
+      <p className="text-gray-500 italic">{t("form.noPeople")}</p>
     )
-  }, [campaign?.people, people])
+  }, [people, editable.people, t, isBlocked])
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 overflow-y-auto h-full w-full flex items-center justify-center z-50">
@@ -232,39 +215,51 @@ const CampaignForm: React.FC<CampaignFormProps> = ({ onClose, campaign }) => {
           </svg>
         </button>
         <h3 className="text-lg font-medium leading-6 text-gray-900 mb-4">
-          {campaign ? "Editar Campaña" : "Crear Nueva Campaña"}
+          {t(isReadOnly ? "form.title.view" : campaign ? "form.title.edit" : "form.title.create")}
         </h3>
+        {campaign && !editable.status && (
+          <p className="text-sm text-gray-600 bg-gray-100 rounded p-2 mb-4">
+            {t(isReadOnly ? "form.readOnly" : "form.partiallyEditable", {
+              status: t(`status.${campaign.status}`).toLowerCase(),
+            })}
+          </p>
+        )}
         <form onSubmit={handleSubmit}>
           <div className="mb-4">
             <label className="block text-gray-700 text-sm font-bold mb-2" htmlFor="name">
-              Nombre
+              {t("form.name")}
             </label>
             <input
               type="text"
               id="name"
               value={name}
               onChange={(e) => {setName(e.target.value)}}
-              className={"shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"}
+              className={"shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline disabled:bg-gray-100"}
+              disabled={!editable.name}
               required
             />
           </div>
           <div className="mb-4">
             <label className="block text-gray-700 text-sm font-bold mb-2" htmlFor="status">
-              Estado inicial
+              {t("form.initialStatus")}
             </label>
             <select
               id="status"
               value={status}
               onChange={(e) => setStatus(e.target.value as CampaignStatus)}
-              className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+              className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline disabled:bg-gray-100"
+              disabled={!editable.status}
             >
-              <option value="En espera">En espera</option>
-              <option value="Activa">Activa</option>
+              {getStatusOptions(campaign?.status).map((option) => (
+                <option key={option} value={option}>
+                  {t(`status.${option}`)}
+                </option>
+              ))}
             </select>
           </div>
           <div className="mb-4">
             <label className="block text-gray-700 text-sm font-bold mb-2" htmlFor="startDate">
-              Fecha y hora de inicio
+              {t("form.startDate")}
             </label>
             <DatePicker
               selected={startDate}
@@ -275,23 +270,24 @@ const CampaignForm: React.FC<CampaignFormProps> = ({ onClose, campaign }) => {
                 }
               }}
               showTimeSelect
-              timeFormat="HH:mm"
+              locale={DATE_FNS_LOCALES[locale]}
+              timeFormat="p"
               timeIntervals={15}
-              timeCaption="Hora"
-              dateFormat="dd/MM/yyyy HH:mm"
-              placeholderText="Seleccione fecha y hora de inicio"
-              minDate={status === "En espera" ? new Date() : undefined}
+              timeCaption={t("form.time")}
+              dateFormat="Pp"
+              placeholderText={t("form.startDatePlaceholder")}
+              minDate={status === "waiting" ? new Date() : undefined}
               className={`w-full py-2 px-3 text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
                 startDateError ? "border-red-500" : ""
               }`}
-              disabled={status === "Activa"}
+              disabled={status === "active" || !editable.startDate}
               wrapperClassName="w-full"
             />
-            {startDateError && <p className="text-red-500 text-xs italic mt-1">{startDateError}</p>}
+            {startDateError && <p className="text-red-500 text-xs italic mt-1">{translateMessage(startDateError)}</p>}
           </div>
           <div className="mb-4">
             <label className="block text-gray-700 text-sm font-bold mb-2" htmlFor="endDate">
-              Fecha y hora de fin
+              {t("form.endDate")}
             </label>
             <DatePicker
               selected={endDate}
@@ -299,18 +295,20 @@ const CampaignForm: React.FC<CampaignFormProps> = ({ onClose, campaign }) => {
                 setEndDate(date)
               }}
               showTimeSelect
-              timeFormat="HH:mm"
+              locale={DATE_FNS_LOCALES[locale]}
+              timeFormat="p"
               timeIntervals={15}
-              timeCaption="Hora"
-              dateFormat="dd/MM/yyyy HH:mm"
-              placeholderText="Seleccione fecha y hora de fin"
+              timeCaption={t("form.time")}
+              dateFormat="Pp"
+              placeholderText={t("form.endDatePlaceholder")}
               minDate={startDate || new Date()}
               className={`w-full py-2 px-3 text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
                 endDateError ? "border-red-500" : ""
               }`}
+              disabled={!editable.endDate}
               wrapperClassName="w-full"
             />
-            {endDateError && <p className="text-red-500 text-xs italic mt-1">{endDateError}</p>}
+            {endDateError && <p className="text-red-500 text-xs italic mt-1">{translateMessage(endDateError)}</p>}
           </div>
           <div className="mb-4">
             <label className="flex items-center">
@@ -319,104 +317,127 @@ const CampaignForm: React.FC<CampaignFormProps> = ({ onClose, campaign }) => {
                 checked={recordingStatus}
                 onChange={(e) => setRecordingStatus(e.target.checked)}
                 className="form-checkbox h-5 w-5 text-blue-600"
+                disabled={!editable.recordingStatus}
               />
-              <span className="ml-2 text-gray-700">Grabar llamada</span>
+              <span className="ml-2 text-gray-700">{t("form.recordCalls")}</span>
             </label>
           </div>
-          <div className="mb-4">
-            <h4 className="text-md font-medium mb-2">Agregar Persona</h4>
-            <div className="space-y-4 mb-4">
-              <div>
-                <input
-                  type="text"
-                  value={personName}
-                  onChange={(e) => {
-                    setPersonName(e.target.value)
-                    if (/^[a-zA-ZáéíóúñÁÉÍÓÚÑ\s]+$/.test(e.target.value)) {
-                      setPersonNameError("")
-                    } else {
-                      setPersonNameError("El nombre solo debe contener letras y espacios")
-                    }
-                  }}
-                  placeholder="Nombre"
-                  className={`shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline ${
-                    personNameError ? "border-red-500" : ""
-                  }`}
-                />
-                {personNameError && <p className="text-red-500 text-xs mt-0.5">{personNameError}</p>}
-              </div>
-              <div>
-                <input
-                  type="text"
-                  value={personLastName}
-                  onChange={(e) => {
-                    setPersonLastName(e.target.value)
-                    if (/^[a-zA-ZáéíóúñÁÉÍÓÚÑ\s]+$/.test(e.target.value)) {
-                      setPersonLastNameError("")
-                    } else {
-                      setPersonLastNameError("El apellido solo debe contener letras y espacios")
-                    }
-                  }}
-                  placeholder="Apellido"
-                  className={`shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline ${
-                    personLastNameError ? "border-red-500" : ""
-                  }`}
-                />
-                {personLastNameError && <p className="text-red-500 text-xs mt-0.5">{personLastNameError}</p>}
+          <CallingWindowEditor
+            value={callingWindow}
+            onChange={setCallingWindow}
+            disabled={!editable.callingWindow}
+            error={!validation.success ? validation.errors.callingWindow : null}
+          />
+          {editable.people && (
+            <div className="mb-4">
+              <h4 className="text-md font-medium mb-2">{t("people.add")}</h4>
+              <div className="space-y-4 mb-4">
+                <div>
+                  <input
+                    type="text"
+                    value={personName}
+                    onChange={(e) => {
+                      setPersonName(e.target.value)
+                      setPersonNameError(validatePersonField("name", e.target.value) ?? "")
+                    }}
+                    placeholder={t("people.name")}
+                    className={`shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline ${
+                      personNameError ? "border-red-500" : ""
+                    }`}
+                  />
+                  {personNameError && (
+                    <p className="text-red-500 text-xs mt-0.5">{translateMessage(personNameError)}</p>
+                  )}
+                </div>
+                <div>
+                  <input
+                    type="text"
+                    value={personLastName}
+                    onChange={(e) => {
+                      setPersonLastName(e.target.value)
+                      setPersonLastNameError(validatePersonField("lastName", e.target.value) ?? "")
+                    }}
+                    placeholder={t("people.lastName")}
+                    className={`shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline ${
+                      personLastNameError ? "border-red-500" : ""
+                    }`}
+                  />
+                  {personLastNameError && (
+                    <p className="text-red-500 text-xs mt-0.5">{translateMessage(personLastNameError)}</p>
+                  )}
+                </div>
+                <div>
+                  <PhoneInput
+                    value={personPhone}
+                    country={personPhoneCountry}
+                    onCountryChange={setPersonPhoneCountry}
+                    onChange={(value, country) => {
+                      setPersonPhone(value)
+                      if (isValidPhoneNumber(value, country)) {
+                        setPersonPhoneError("")
+                      } else {
+                        setPersonPhoneError("validation.phone.invalid")
+                      }
+                    }}
+                    hasError={!!personPhoneError}
+                    inputClassName="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+                  />
+                  {personPhoneError && (
+                    <p className="text-red-500 text-xs mt-0.5">{translateMessage(personPhoneError)}</p>
+                  )}
+                </div>
               </div>
-              <div>
-                <input
-                  type="tel"
-                  value={personPhone}
-                  onChange={(e) => {
-                    const formattedNumber = formatPhoneNumber(e.target.value)
-                    setPersonPhone(formattedNumber)
-                    if (isValidPhoneNumber(formattedNumber)) {
-                      setPersonPhoneError("")
-                    } else {
-                      setPersonPhoneError("El número de teléfono debe tener entre 7 y 15 dígitos")
-                    }
-                  }}
-                  placeholder="Número de teléfono"
-                  className={`shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline ${
-                    personPhoneError ? "border-red-500" : ""
-                  }`}
-                />
-                {personPhoneError && <p className="text-red-500 text-xs mt-0.5">{personPhoneError}</p>}
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={addPerson}
+                  className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded"
+                >
+                  {t("people.add")}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsImporting(true)}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded"
+                >
+                  {t("import.fromFile")}
+                </button>
               </div>
             </div>
-            <button
-              type="button"
-              onClick={addPerson}
-              className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded"
-            >
-              Agregar Persona
-            </button>
-          </div>
+          )}
           <div className="mb-4">
-            <h4 className="text-lg font-semibold mb-3">Personas Asociadas</h4>
+            <h4 className="text-lg font-semibold mb-3">{t("form.people")}</h4>
             {renderAssociatedPeople()}
           </div>
           <div className="flex items-center justify-between">
-            <button
-              type="submit"
-              className={`bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded focus:outline-none focus:shadow-outline ${
-                isSubmitDisabled ? "opacity-50 cursor-not-allowed" : ""
-              }`}
-              disabled={isSubmitDisabled}
-            >
-              {campaign ? "Actualizar Campaña" : "Crear Campaña"}
-            </button>
+            {!isReadOnly && (
+              <button
+                type="submit"
+                className={`bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded focus:outline-none focus:shadow-outline ${
+                  isSubmitDisabled ? "opacity-50 cursor-not-allowed" : ""
+                }`}
+                disabled={isSubmitDisabled}
+              >
+                {t(campaign ? "form.submit.update" : "form.submit.create")}
+              </button>
+            )}
             <button
               type="button"
               onClick={onClose}
               className="bg-gray-500 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded focus:outline-none focus:shadow-outline"
             >
-              Cancelar
+              {t("common.cancel")}
             </button>
           </div>
         </form>
       </div>
+      {isImporting && (
+        <PeopleImportModal
+          existingPeople={people}
+          onImport={(importedPeople) => setPeople((current) => [...current, ...importedPeople])}
+          onClose={() => setIsImporting(false)}
+        />
+      )}
     </div>
   )
 }
@@ -1,184 +1,252 @@
 import { useState } from "react"
 import { useMutation, useQueryClient } from "react-query"
+import type { CampaignCacheSnapshot } from "../hooks/useOptimisticCampaigns"
+import { useOptimisticCampaigns } from "../hooks/useOptimisticCampaigns"
+import { useRecycleBin } from "../hooks/useRecycleBin"
+import { useContacts } from "../hooks/useContacts"
+import { useDoNotCallList } from "../hooks/useDoNotCallList"
 import toast from "react-hot-toast"
-import type { Campaign, Person } from "../types"
-import { saveCampaigns } from "../utils"
+import type { Campaign, CampaignStatusEvent, Person, TransitionOptions } from "../types"
+import { useCampaignRepository } from "../context/RepositoryContext"
+import { useI18n } from "../context/I18nContext"
+import type { MessageKey } from "../i18n"
 import ConfirmationModal from "./ConfirmationModal"
+import CampaignForm from "./CampaignForm"
+import PeopleImportModal from "./PeopleImportModal"
+import PhoneInput from "./PhoneInput"
+import ResumeCampaignModal from "./ResumeCampaignModal"
+import CallingWindowStatus from "./CallingWindowStatus"
+import DoNotCallBadge from "./DoNotCallBadge"
+import UndoToast, { UNDO_WINDOW_MS } from "./UndoToast"
+import { getStatusBadgeColor } from "../utils"
+import {
+  canDeleteCampaign,
+  canModifyPeople,
+  canTransition,
+  getAllowedTransitions,
+  transition,
+} from "../utils/statusMachine"
+import { DEFAULT_PHONE_COUNTRY, formatPhoneForDisplay, isSamePhoneNumber, isValidPhoneNumber } from "../utils/phone"
+import type { CountryCode } from "../utils/phone"
+import { createPersonInputSchema, validate } from "../schemas"
 import { v4 as uuidv4 } from "uuid"
+import { Link } from "react-router-dom"
+import { useAppPaths } from "../context/AppPathsContext"
+import { linkPersonToContact } from "../utils/contacts"
 
-const isValidPhoneNumber = (phone: string) => {
-  const digitsOnly = phone.replace(/\D/g, "")
-  return digitsOnly.length >= 7 && digitsOnly.length <= 15
+interface CampaignListProps {
+  campaigns: Campaign[]
 }
 
-const formatPhoneNumber = (value: string) => {
-  if (!value) return value
-  const phoneNumber = value.replace(/[^\d]/g, "")
-  const phoneNumberLength = phoneNumber.length
-  if (phoneNumberLength < 4) return phoneNumber
-  if (phoneNumberLength < 7) {
-    return `(${phoneNumber.slice(0, 3)}) ${phoneNumber.slice(3)}`
-  }
-  return `(${phoneNumber.slice(0, 3)}) ${phoneNumber.slice(3, 6)}-${phoneNumber.slice(6, 10)}`
+
+const transitionButtonColors: Record<CampaignStatusEvent, string> = {
+  start: "bg-blue-500 hover:bg-blue-600",
+  finish: "bg-green-500 hover:bg-green-600",
+  pause: "bg-orange-500 hover:bg-orange-600",
+  resume: "bg-blue-500 hover:bg-blue-600",
+  cancel: "bg-gray-600 hover:bg-gray-700",
 }
 
-interface CampaignListProps {
-  campaigns: Campaign[]
+const transitionSuccessMessages: Record<CampaignStatusEvent, MessageKey> = {
+  start: "campaign.started",
+  finish: "campaign.finished",
+  pause: "campaign.paused",
+  resume: "campaign.resumed",
+  cancel: "campaign.cancelled",
 }
 
 const CampaignList: React.FC<CampaignListProps> = ({ campaigns }) => {
   const [deletingCampaign, setDeletingCampaign] = useState<Campaign | null>(null)
+  const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null)
   const [addingPersonToCampaign, setAddingPersonToCampaign] = useState<Campaign | null>(null)
+  const [importingToCampaign, setImportingToCampaign] = useState<Campaign | null>(null)
+  const [resumingCampaign, setResumingCampaign] = useState<Campaign | null>(null)
+  const [cancellingCampaign, setCancellingCampaign] = useState<Campaign | null>(null)
   const [newPersonName, setNewPersonName] = useState("")
   const [newPersonLastName, setNewPersonLastName] = useState("")
   const [newPersonPhone, setNewPersonPhone] = useState("")
+  const [newPersonPhoneCountry, setNewPersonPhoneCountry] = useState<CountryCode>(DEFAULT_PHONE_COUNTRY)
   const [nameError, setNameError] = useState("")
   const [lastNameError, setLastNameError] = useState("")
   const [phoneError, setPhoneError] = useState("")
   const queryClient = useQueryClient()
+  const repository = useCampaignRepository()
+  const { contacts } = useContacts()
+  const { isBlocked } = useDoNotCallList()
+  const paths = useAppPaths()
+  const optimistic = useOptimisticCampaigns()
+  const recycleBin = useRecycleBin()
+  const { t, translateMessage, formatDate } = useI18n()
 
-  const finishCampaign = useMutation<void, Error, string>(
-    async (id: string) => {
-      const updatedCampaigns = campaigns.map((c) => (c.id === id ? { ...c, status: "Finalizada" as const } : c))
-      await saveCampaigns(updatedCampaigns)
-    },
+  // `next` ya tiene aplicada la transición, así que la caché y lo guardado muestran lo mismo
+  const changeStatus = useMutation<
+    Campaign,
+    Error,
+    { next: Campaign; event: CampaignStatusEvent },
+    CampaignCacheSnapshot
+  >(
+    ({ next }) => repository.update(next),
     {
-      onSuccess: () => {
-        queryClient.invalidateQueries("campaigns")
-        toast.success("Campaña finalizada")
+      onMutate: ({ next }) => optimistic.apply(next.id, () => next),
+      onSuccess: (_, { event }) => {
+        toast.success(t(transitionSuccessMessages[event]))
       },
+      onError: (error, _, snapshot) => optimistic.rollback(snapshot, error, "campaign.statusChangeError"),
+      onSettled: optimistic.settle,
     },
   )
 
-  const deleteCampaign = useMutation<void, Error, string>(
-    async (id: string) => {
-      const updatedCampaigns = campaigns.filter((c) => c.id !== id)
-      await saveCampaigns(updatedCampaigns)
-    },
+  const applyTransition = (campaign: Campaign, event: CampaignStatusEvent, options?: TransitionOptions) =>
+    changeStatus.mutate({ next: transition(campaign, event, "manual", new Date(), options), event })
+
+
+  const addPerson = useMutation<Campaign, Error, { campaignId: string; person: Person }, CampaignCacheSnapshot>(
+    ({ campaignId, person }) => repository.addPerson(campaignId, person),
     {
+      onMutate: ({ campaignId, person }) =>
+        optimistic.apply(campaignId, (campaign) => ({ ...campaign, people: [...campaign.people, person] })),
       onSuccess: () => {
-        queryClient.invalidateQueries("campaigns")
-        toast.success("Campaña eliminada")
-        setDeletingCampaign(null)
+        toast.success(t("campaign.updated"))
       },
+      onError: (error, _, snapshot) => optimistic.rollback(snapshot, error, "people.addError"),
+      onSettled: optimistic.settle,
     },
   )
 
-  const updateCampaign = useMutation<void, Error, Campaign>(
-    async (updatedCampaign: Campaign) => {
-      const updatedCampaigns = campaigns.map((c) => (c.id === updatedCampaign.id ? updatedCampaign : c))
-      await saveCampaigns(updatedCampaigns)
-    },
+  const importPeople = useMutation<Campaign, Error, { campaign: Campaign; people: Person[] }>(
+    ({ campaign, people }) => repository.update({ ...campaign, people: [...campaign.people, ...people] }),
     {
-      onSuccess: () => {
+      onSuccess: (_, { people }) => {
         queryClient.invalidateQueries("campaigns")
-        toast.success("Campaña actualizada")
+        toast.success(t("import.imported", { count: people.length }))
       },
+      onError: (error) => optimistic.reportError(error, "import.error"),
     },
   )
 
-  const handleFinish = (id: string) => {
-    const campaign = campaigns.find((c) => c.id === id)
-    if (campaign && campaign.status === "Activa") {
-      finishCampaign.mutate(id)
+
+  const countBlockedPeople = (campaign: Campaign) => campaign.people.filter((person) => isBlocked(person.phone)).length
+
+  const handleTransition = (campaign: Campaign, event: CampaignStatusEvent) => {
+    const { allowed, reason } = canTransition(campaign, event, "manual")
+    if (!allowed) {
+      toast.error(t(reason ?? "transition.error.notAllowed"))
+    } else if ((event === "start" || event === "resume") && countBlockedPeople(campaign) > 0) {
+      // No se activa una campaña con números de la lista de no llamar; primero hay que quitarlos
+      toast.error(t("doNotCall.activationBlocked", { count: countBlockedPeople(campaign) }))
+    } else if (event === "resume") {
+      // Reanudar requiere elegir qué hacer con la fecha de fin
+      setResumingCampaign(campaign)
+    } else if (event === "cancel") {
+      setCancellingCampaign(campaign)
     } else {
-      toast.error("Solo se pueden finalizar campañas activas")
+      applyTransition(campaign, event)
+    }
+  }
+
+  const confirmCancel = () => {
+    if (cancellingCampaign) {
+      applyTransition(cancellingCampaign, "cancel")
+      setCancellingCampaign(null)
     }
   }
 
   const handleDelete = (campaign: Campaign) => {
-    if (campaign.status === "En espera") {
+    if (canDeleteCampaign(campaign)) {
       setDeletingCampaign(campaign)
     } else {
-      toast.error("Solo se pueden eliminar campañas en espera")
+      toast.error(t("campaign.deleteNotAllowed"))
     }
   }
 
+  // Se manda a la papelera solo si nadie la cambió desde que se mostró; si no, se resuelve en el modal de conflictos
   const confirmDelete = () => {
     if (deletingCampaign) {
-      deleteCampaign.mutate(deletingCampaign.id)
+      recycleBin.moveCampaignToTrash.mutate(deletingCampaign, {
+        onSuccess: (_, campaign) => {
+          toast(
+            (shown) => (
+              <UndoToast
+                toast={shown}
+                message={t("trash.campaignMoved")}
+                onUndo={() => recycleBin.restoreCampaignFromTrash.mutate(campaign.id)}
+              />
+            ),
+            { duration: UNDO_WINDOW_MS },
+          )
+        },
+      })
+      setDeletingCampaign(null)
     }
   }
 
   const handleDeletePerson = (campaignId: string, personId: string) => {
     const campaign = campaigns.find((c) => c.id === campaignId)
     if (campaign) {
-      if (campaign.status === "Finalizada") {
-        toast.error("No se pueden eliminar personas de una campaña finalizada.")
+      if (!canModifyPeople(campaign)) {
+        toast.error(t("people.deleteNotAllowed"))
         return
       }
       if (campaign.people.length <= 1) {
-        toast.error("No se puede eliminar la última persona asociada a la campaña.")
+        toast.error(t("people.deleteLast"))
         return
       }
-      const updatedPeople = campaign.people.filter((p) => p.id !== personId)
-      const updatedCampaign = { ...campaign, people: updatedPeople }
-      updateCampaign.mutate(updatedCampaign)
+      const index = campaign.people.findIndex((p) => p.id === personId)
+      const person = campaign.people[index]
+      recycleBin.movePersonToTrash.mutate(
+        { campaignId, personId },
+        {
+          onSuccess: () => {
+            toast(
+              (shown) => (
+                <UndoToast
+                  toast={shown}
+                  message={t("trash.personMoved", { name: `${person.name} ${person.lastName}` })}
+                  onUndo={() => recycleBin.restorePersonFromTrash.mutate({ campaignId, personId, index })}
+                />
+              ),
+              { duration: UNDO_WINDOW_MS },
+            )
+          },
+        },
+      )
     }
   }
 
   const handleAddPerson = (campaignId: string) => {
-    let isValid = true
-
-    if (!/^[a-zA-ZáéíóúñÁÉÍÓÚÑ\s]+$/.test(newPersonName)) {
-      setNameError("El nombre solo debe contener letras y espacios")
-      isValid = false
-    } else {
-      setNameError("")
+    const campaign = campaigns.find((c) => c.id === campaignId)
+    if (!campaign) {
+      return
     }
 
-    if (!/^[a-zA-ZáéíóúñÁÉÍÓÚÑ\s]+$/.test(newPersonLastName)) {
-      setLastNameError("El apellido solo debe contener letras y espacios")
-      isValid = false
-    } else {
-      setLastNameError("")
-    }
+    const schema = createPersonInputSchema({
+      country: newPersonPhoneCountry,
+      isDuplicate: (phone) => campaign.people.some((person) => isSamePhoneNumber(person.phone, phone)),
+      isBlocked,
+    })
+    const result = validate(schema, { name: newPersonName, lastName: newPersonLastName, phone: newPersonPhone })
 
-    if (!isValidPhoneNumber(newPersonPhone)) {
-      setPhoneError("El número de teléfono debe tener entre 7 y 15 dígitos")
-      isValid = false
-    } else {
-      setPhoneError("")
-    }
+    setNameError(result.success ? "" : result.errors.name ?? "")
+    setLastNameError(result.success ? "" : result.errors.lastName ?? "")
+    setPhoneError(result.success ? "" : result.errors.phone ?? "")
 
-    if (!isValid) {
+    if (!result.success) {
       return
     }
 
-    const campaign = campaigns.find((c) => c.id === campaignId)
-    if (campaign) {
-      if (campaign.people.some((person) => person.phone === newPersonPhone)) {
-        toast.error("Ya existe una persona con este número de teléfono en la campaña.")
-        return
-      }
-
-      const newPerson: Person = {
-        id: uuidv4(),
-        name: newPersonName,
-        lastName: newPersonLastName,
-        phone: newPersonPhone,
-      }
-      const updatedPeople = [...campaign.people, newPerson]
-      const updatedCampaign = { ...campaign, people: updatedPeople }
-      updateCampaign.mutate(updatedCampaign)
-      setNewPersonName("")
-      setNewPersonLastName("")
-      setNewPersonPhone("")
-      setAddingPersonToCampaign(null)
-    }
-  }
-
-  const getStatusBadgeColor = (status: string) => {
-    switch (status) {
-      case "Activa":
-        return "bg-green-100 text-green-800"
-      case "Finalizada":
-        return "bg-red-100 text-red-800"
-      case "En espera":
-        return "bg-yellow-100 text-yellow-800"
-      default:
-        return "bg-gray-100 text-gray-800"
+    // Un teléfono que ya está en el directorio es ese mismo contacto, con los datos que tiene guardados
+    const existingContact = contacts.find((contact) => isSamePhoneNumber(contact.phone, result.data.phone))
+    const newPerson: Person = existingContact
+      ? linkPersonToContact({ id: uuidv4(), ...result.data }, existingContact)
+      : { id: uuidv4(), ...result.data }
+    if (existingContact) {
+      toast(t("contacts.linkedExisting", { name: `${existingContact.name} ${existingContact.lastName}` }))
     }
+    addPerson.mutate({ campaignId, person: newPerson })
+    setNewPersonName("")
+    setNewPersonLastName("")
+    setNewPersonPhone("")
+    setAddingPersonToCampaign(null)
   }
 
   return (
@@ -187,15 +255,39 @@ const CampaignList: React.FC<CampaignListProps> = ({ campaigns }) => {
         {campaigns.map((campaign) => (
           <div key={campaign.id} className="bg-white shadow rounded-lg p-4 sm:p-6 flex flex-col min-h-[500px] relative">
             <div className="flex justify-between items-center mb-2">
-              <h3 className="text-lg sm:text-xl font-semibold">{campaign.name}</h3>
+              <h3 className="text-lg sm:text-xl font-semibold">
+                <Link to={paths.campaign(campaign.id)} className="hover:text-blue-600 hover:underline">
+                  {campaign.name}
+                </Link>
+              </h3>
               <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusBadgeColor(campaign.status)}`}>
-                {campaign.status}
+                {t(`status.${campaign.status}`)}
               </span>
             </div>
-            <p className="text-gray-600 mb-2">Fecha de inicio: {campaign.startDate}</p>
-            <p className="text-gray-600 mb-2">Fecha de fin: {campaign.endDate}</p>
+            <p className="text-gray-600 mb-2">
+              {t("campaign.startDate")}: {formatDate(campaign.startDate)}
+            </p>
+            <p className="text-gray-600 mb-2">
+              {t("campaign.endDate")}: {formatDate(campaign.endDate)}
+            </p>
+            {campaign.pausedAt && (
+              <p className="text-orange-700 text-sm mb-2">
+                {t("campaign.pausedSince")}: {formatDate(campaign.pausedAt)}
+              </p>
+            )}
+            <CallingWindowStatus campaign={campaign} className="mb-2" />
+            {countBlockedPeople(campaign) > 0 && (
+              <p className="text-sm bg-gray-800 text-white rounded px-2 py-1 mb-2">
+                {t("doNotCall.campaignWarning", { count: countBlockedPeople(campaign) })}
+              </p>
+            )}
             <div className="mb-1 flex-grow overflow-hidden">
-              <h4 className="text-md sm:text-lg font-semibold mb-2">Personas asociadas:</h4>
+              <div className="flex justify-between items-baseline mb-2">
+                <h4 className="text-md sm:text-lg font-semibold">{t("people.associated")}:</h4>
+                <Link to={paths.campaign(campaign.id)} className="text-sm text-blue-600 hover:text-blue-800">
+                  {t("campaign.viewDetail")}
+                </Link>
+              </div>
               <div className="overflow-y-auto max-h-[160px] pr-2">
                 {campaign.people.length > 0 ? (
                   <ul className="space-y-2">
@@ -209,78 +301,89 @@ const CampaignList: React.FC<CampaignListProps> = ({ campaigns }) => {
                             <div>
                               <p className="font-medium">
                                 {person.name} {person.lastName}
+                                {isBlocked(person.phone) && <DoNotCallBadge />}
                               </p>
-                              <p className="text-sm text-gray-600">{formatPhoneNumber(person.phone)}</p>
+                              <p className="text-sm text-gray-600">{formatPhoneForDisplay(person.phone)}</p>
                             </div>
                           </div>
                           <button
                             onClick={() => handleDeletePerson(campaign.id, person.id)}
                             className={`text-red-500 hover:text-red-700 ${
-                              campaign.status === "Finalizada" ? "opacity-50 cursor-not-allowed" : ""
+                              !canModifyPeople(campaign) ? "opacity-50 cursor-not-allowed" : ""
                             }`}
-                            disabled={campaign.status === "Finalizada"}
+                            disabled={!canModifyPeople(campaign)}
                           >
-                            Eliminar
+                            {t("common.delete")}
                           </button>
                         </div>
                       </li>
                     ))}
                   </ul>
                 ) : (
-                  <p className="text-gray-600 italic text-sm sm:text-base">No hay personas asociadas</p>
+                  <p className="text-gray-600 italic text-sm sm:text-base">{t("people.none")}</p>
                 )}
               </div>
             </div>
-            {campaign.status !== "Finalizada" && (
-              <button
-                onClick={() => setAddingPersonToCampaign(campaign)}
-                className="mt-2 bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded text-sm w-full"
-              >
-                Agregar Persona
-              </button>
+            {canModifyPeople(campaign) && (
+              <div className="mt-2 flex gap-2">
+                <button
+                  onClick={() => setAddingPersonToCampaign(campaign)}
+                  className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded text-sm flex-grow"
+                >
+                  {t("people.add")}
+                </button>
+                <button
+                  onClick={() => setImportingToCampaign(campaign)}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded text-sm"
+                >
+                  {t("import.button")}
+                </button>
+              </div>
             )}
             {addingPersonToCampaign?.id === campaign.id && (
               <div className="absolute inset-0 bg-white bg-opacity-95 flex items-center justify-center z-10">
                 <div className="bg-white p-4 rounded-lg shadow-lg w-full max-w-sm">
-                  <h3 className="text-lg font-semibold mb-4">Agregar Persona</h3>
+                  <h3 className="text-lg font-semibold mb-4">{t("people.add")}</h3>
                   <div className="space-y-4 mb-4">
                     <div>
                       <input
                         type="text"
                         value={newPersonName}
                         onChange={(e) => setNewPersonName(e.target.value)}
-                        placeholder="Nombre"
+                        placeholder={t("people.name")}
                         className={`w-full p-2 border rounded ${nameError ? "border-red-500" : ""}`}
                       />
-                      {nameError && <p className="text-red-500 text-xs mt-0.5">{nameError}</p>}
+                      {nameError && <p className="text-red-500 text-xs mt-0.5">{translateMessage(nameError)}</p>}
                     </div>
                     <div>
                       <input
                         type="text"
                         value={newPersonLastName}
                         onChange={(e) => setNewPersonLastName(e.target.value)}
-                        placeholder="Apellido"
+                        placeholder={t("people.lastName")}
                         className={`w-full p-2 border rounded ${lastNameError ? "border-red-500" : ""}`}
                       />
-                      {lastNameError && <p className="text-red-500 text-xs mt-0.5">{lastNameError}</p>}
+                      {lastNameError && (
+                        <p className="text-red-500 text-xs mt-0.5">{translateMessage(lastNameError)}</p>
+                      )}
                     </div>
                     <div>
-                      <input
-                        type="tel"
+                      <PhoneInput
                         value={newPersonPhone}
-                        onChange={(e) => {
-                          const formattedNumber = formatPhoneNumber(e.target.value)
-                          setNewPersonPhone(formattedNumber)
-                          if (isValidPhoneNumber(formattedNumber)) {
+                        country={newPersonPhoneCountry}
+                        onCountryChange={setNewPersonPhoneCountry}
+                        onChange={(value, country) => {
+                          setNewPersonPhone(value)
+                          if (isValidPhoneNumber(value, country)) {
                             setPhoneError("")
                           } else {
-                            setPhoneError("El número de teléfono debe tener entre 7 y 15 dígitos")
+                            setPhoneError("validation.phone.invalid")
                           }
                         }}
-                        placeholder="Número de teléfono"
-                        className={`w-full p-2 border rounded ${phoneError ? "border-red-500" : ""}`}
+                        hasError={!!phoneError}
+                        inputClassName="w-full p-2 border rounded"
                       />
-                      {phoneError && <p className="text-red-500 text-xs mt-0.5">{phoneError}</p>}
+                      {phoneError && <p className="text-red-500 text-xs mt-0.5">{translateMessage(phoneError)}</p>}
                     </div>
                   </div>
                   <div className="flex space-x-2">
@@ -288,13 +391,13 @@ const CampaignList: React.FC<CampaignListProps> = ({ campaigns }) => {
                       onClick={() => handleAddPerson(campaign.id)}
                       className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded flex-grow"
                     >
-                      Agregar
+                      {t("common.add")}
                     </button>
                     <button
                       onClick={() => setAddingPersonToCampaign(null)}
                       className="bg-gray-300 hover:bg-gray-400 text-gray-800 font-bold py-2 px-4 rounded flex-grow"
                     >
-                      Cancelar
+                      {t("common.cancel")}
                     </button>
                   </div>
                 </div>
@@ -302,32 +405,66 @@ const CampaignList: React.FC<CampaignListProps> = ({ campaigns }) => {
             )}
             <div className="flex flex-wrap gap-2 mt-4">
               <button
-                onClick={() => handleFinish(campaign.id)}
-                className={`bg-green-500 hover:bg-green-600 text-white font-bold py-1 px-2 sm:py-2 sm:px-4 rounded text-sm sm:text-base flex-grow ${
-                  campaign.status !== "Activa" ? "opacity-50 cursor-not-allowed" : ""
-                }`}
-                disabled={campaign.status !== "Activa"}
-              >
-                Finalizar
-              </button>
-              <button
-                onClick={() => handleDelete(campaign)}
-                className={`bg-red-500 hover:bg-red-600 text-white font-bold py-1 px-2 sm:py-2 sm:px-4 rounded text-sm sm:text-base flex-grow ${
-                  campaign.status !== "En espera" ? "opacity-50 cursor-not-allowed" : ""
-                }`}
-                disabled={campaign.status !== "En espera"}
+                onClick={() => setEditingCampaign(campaign)}
+                className="bg-gray-500 hover:bg-gray-600 text-white font-bold py-1 px-2 sm:py-2 sm:px-4 rounded text-sm sm:text-base flex-grow"
               >
-                Eliminar
+                {t(canModifyPeople(campaign) ? "common.edit" : "common.view")}
               </button>
+              {getAllowedTransitions(campaign, "manual").map(({ event }) => (
+                <button
+                  key={event}
+                  onClick={() => handleTransition(campaign, event)}
+                  className={`${transitionButtonColors[event]} text-white font-bold py-1 px-2 sm:py-2 sm:px-4 rounded text-sm sm:text-base flex-grow`}
+                  disabled={changeStatus.isLoading}
+                >
+                  {t(`transition.${event}`)}
+                </button>
+              ))}
+              {canDeleteCampaign(campaign) && (
+                <button
+                  onClick={() => handleDelete(campaign)}
+                  className="bg-red-500 hover:bg-red-600 text-white font-bold py-1 px-2 sm:py-2 sm:px-4 rounded text-sm sm:text-base flex-grow"
+                >
+                  {t("common.delete")}
+                </button>
+              )}
             </div>
           </div>
         ))}
       </div>
+      {importingToCampaign && (
+        <PeopleImportModal
+          existingPeople={importingToCampaign.people}
+          onImport={(people) => {
+            if (people.length > 0) {
+              importPeople.mutate({ campaign: importingToCampaign, people })
+            }
+          }}
+          onClose={() => setImportingToCampaign(null)}
+        />
+      )}
+      {resumingCampaign && (
+        <ResumeCampaignModal
+          campaign={resumingCampaign}
+          onClose={() => setResumingCampaign(null)}
+          onConfirm={(resumePolicy) => {
+            applyTransition(resumingCampaign, "resume", { resumePolicy })
+            setResumingCampaign(null)
+          }}
+        />
+      )}
+      <ConfirmationModal
+        isOpen={!!cancellingCampaign}
+        onClose={() => setCancellingCampaign(null)}
+        onConfirm={confirmCancel}
+        message={t("campaign.confirmCancel", { name: cancellingCampaign?.name ?? "" })}
+      />
+      {editingCampaign && <CampaignForm campaign={editingCampaign} onClose={() => setEditingCampaign(null)} />}
       <ConfirmationModal
         isOpen={!!deletingCampaign}
         onClose={() => setDeletingCampaign(null)}
         onConfirm={confirmDelete}
-        message={`¿Está seguro de que desea eliminar la campaña "${deletingCampaign?.name}"?`}
+        message={t("campaign.confirmDelete", { name: deletingCampaign?.name ?? "" })}
       />
     </>
   )
@@ -0,0 +1,147 @@
+import type React from "react"
+import { Fragment, useState } from "react"
+import { useMutation, useQueryClient } from "react-query"
+import toast from "react-hot-toast"
+import type { Campaign, ContactAttempt, Person } from "../types"
+import { formatPhoneForDisplay } from "../utils/phone"
+import { formatDuration, getCallOutcomeColor, getLastAttempt, withContactAttempt } from "../utils/contactAttempts"
+import { useCampaignRepository } from "../context/RepositoryContext"
+import { useI18n } from "../context/I18nContext"
+import { useDoNotCallList } from "../hooks/useDoNotCallList"
+import ContactAttemptModal from "./ContactAttemptModal"
+import DoNotCallBadge from "./DoNotCallBadge"
+
+interface CampaignPeopleTableProps {
+  campaign: Campaign
+}
+
+const CampaignPeopleTable: React.FC<CampaignPeopleTableProps> = ({ campaign }) => {
+  const [loggingPerson, setLoggingPerson] = useState<Person | null>(null)
+  const [expandedPersonId, setExpandedPersonId] = useState<string | null>(null)
+  const queryClient = useQueryClient()
+  const repository = useCampaignRepository()
+  const { t, formatDate } = useI18n()
+  const { isBlocked } = useDoNotCallList()
+  const canLogCalls = campaign.status === "active"
+
+  const logAttempt = useMutation<Campaign, Error, { personId: string; attempt: ContactAttempt }>(
+    ({ personId, attempt }) => repository.update(withContactAttempt(campaign, personId, attempt)),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries("campaigns")
+        toast.success(t("attempt.logged"))
+        setLoggingPerson(null)
+      },
+    },
+  )
+
+  if (campaign.people.length === 0) {
+    return <p className="text-gray-600 italic">{t("people.none")}</p>
+  }
+
+  return (
+    <>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-left">
+          <thead className="border-b text-sm text-gray-500">
+            <tr>
+              <th className="py-2 pr-4">#</th>
+              <th className="py-2 pr-4">{t("people.name")}</th>
+              <th className="py-2 pr-4">{t("people.lastName")}</th>
+              <th className="py-2 pr-4">{t("people.phone")}</th>
+              <th className="py-2 pr-4">{t("attempt.attempts")}</th>
+              <th className="py-2 pr-4">{t("attempt.lastOutcome")}</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {campaign.people.map((person, index) => {
+              const attempts = person.attempts ?? []
+              const lastAttempt = getLastAttempt(attempts)
+              const isExpanded = expandedPersonId === person.id
+
+              return (
+                <Fragment key={person.id}>
+                  <tr className="border-b last:border-0">
+                    <td className="py-2 pr-4 text-gray-500">{index + 1}</td>
+                    <td className="py-2 pr-4">{person.name}</td>
+                    <td className="py-2 pr-4">{person.lastName}</td>
+                    <td className="py-2 pr-4">
+                      {formatPhoneForDisplay(person.phone)}
+                      {isBlocked(person.phone) && <DoNotCallBadge />}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {attempts.length > 0 ? (
+                        <button
+                          onClick={() => setExpandedPersonId(isExpanded ? null : person.id)}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          {attempts.length} {isExpanded ? "▲" : "▼"}
+                        </button>
+                      ) : (
+                        <span className="text-gray-500">0</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {lastAttempt ? (
+                        <span className={`px-2 py-1 rounded-full text-xs ${getCallOutcomeColor(lastAttempt.outcome)}`}>
+                          {t(`callOutcome.${lastAttempt.outcome}`)}
+                        </span>
+                      ) : (
+                        <span className="text-gray-500 text-sm">{t("attempt.pending")}</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => setLoggingPerson(person)}
+                        className={`text-sm bg-blue-500 hover:bg-blue-600 text-white font-bold py-1 px-2 rounded ${
+                          !canLogCalls ? "opacity-50 cursor-not-allowed" : ""
+                        }`}
+                        disabled={!canLogCalls}
+                        title={canLogCalls ? undefined : t("attempt.onlyActive")}
+                      >
+                        {t("attempt.log")}
+                      </button>
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="border-b bg-gray-50">
+                      <td colSpan={7} className="py-2 px-4">
+                        <ol className="space-y-1 text-sm">
+                          {[...attempts].reverse().map((attempt) => (
+                            <li key={attempt.id} className="flex flex-wrap gap-3">
+                              <span className="text-gray-500 w-36">{formatDate(attempt.attemptedAt)}</span>
+                              <span className={`px-2 rounded-full text-xs ${getCallOutcomeColor(attempt.outcome)}`}>
+                                {t(`callOutcome.${attempt.outcome}`)}
+                              </span>
+                              <span>{formatDuration(attempt.durationSeconds)}</span>
+                              {attempt.dialerProvider && (
+                                <span className="text-gray-700">
+                                  {t("attempt.automatic", { provider: attempt.dialerProvider })}
+                                </span>
+                              )}
+                              {attempt.notes && <span className="text-gray-700">{attempt.notes}</span>}
+                            </li>
+                          ))}
+                        </ol>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+      {loggingPerson && (
+        <ContactAttemptModal
+          person={loggingPerson}
+          onSubmit={(attempt) => logAttempt.mutate({ personId: loggingPerson.id, attempt })}
+          onClose={() => setLoggingPerson(null)}
+        />
+      )}
+    </>
+  )
+}
+
+export default CampaignPeopleTable
@@ -0,0 +1,52 @@
+import type React from "react"
+import { useMemo } from "react"
+import type { Campaign, CampaignStatus } from "../types"
+import { useI18n } from "../context/I18nContext"
+import ContactProgressTable from "./ContactProgressTable"
+
+export interface CampaignSummaryProps {
+  campaigns: Campaign[]
+}
+
+const statusCardColors: Record<CampaignStatus, string> = {
+  active: "bg-green-100",
+  finished: "bg-red-100",
+  waiting: "bg-yellow-100",
+  paused: "bg-orange-100",
+  cancelled: "bg-gray-100",
+}
+
+// Totales de personas y de campañas por estado, más el avance de contacto de cada campaña
+const CampaignSummary: React.FC<CampaignSummaryProps> = ({ campaigns }) => {
+  const { t } = useI18n()
+
+  const totalPeople = useMemo(() => campaigns.reduce((sum, campaign) => sum + campaign.people.length, 0), [campaigns])
+  const countByStatus = useMemo(
+    () =>
+      campaigns.reduce<Partial<Record<CampaignStatus, number>>>(
+        (counts, campaign) => ({ ...counts, [campaign.status]: (counts[campaign.status] ?? 0) + 1 }),
+        {},
+      ),
+    [campaigns],
+  )
+
+  return (
+    <>
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        <div className="bg-blue-100 p-4 rounded-lg">
+          <p className="text-lg font-semibold">{totalPeople}</p>
+          <p className="text-sm text-gray-600">{t("home.stats.people")}</p>
+        </div>
+        {(Object.keys(statusCardColors) as CampaignStatus[]).map((status) => (
+          <div key={status} className={`${statusCardColors[status]} p-4 rounded-lg`}>
+            <p className="text-lg font-semibold">{countByStatus[status] ?? 0}</p>
+            <p className="text-sm text-gray-600">{t(`home.stats.${status}`)}</p>
+          </div>
+        ))}
+      </div>
+      <ContactProgressTable campaigns={campaigns} />
+    </>
+  )
+}
+
+export default CampaignSummary
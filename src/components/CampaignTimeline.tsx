@@ -0,0 +1,143 @@
+import type React from "react"
+import { useRef, useState } from "react"
+import { endOfDay, format, isSameDay, startOfDay } from "date-fns"
+import type { Campaign } from "../types"
+import { getStatusBadgeColor, parseTimestamp } from "../utils"
+import { canReschedule } from "../utils/campaignSchedule"
+import { useI18n } from "../context/I18nContext"
+
+interface CampaignTimelineProps {
+  campaigns: Campaign[]
+  days: Date[]
+  now: Date
+  onOpen: (campaign: Campaign) => void
+  onReschedule: (campaign: Campaign, days: number) => void
+}
+
+// Distancia mínima en píxeles para que soltar cuente como arrastre y no como clic
+const DRAG_THRESHOLD_PX = 4
+
+interface DragState {
+  campaignId: string
+  startX: number
+  dayWidth: number
+  offsetDays: number
+  moved: boolean
+}
+
+// Diagrama de Gantt: una fila por campaña y una columna por día del período visible
+const CampaignTimeline: React.FC<CampaignTimelineProps> = ({ campaigns, days, now, onOpen, onReschedule }) => {
+  // Encabezado de días: su ancho da los píxeles por día al arrastrar
+  const trackRef = useRef<HTMLDivElement>(null)
+  const { t, formatDate } = useI18n()
+  const [drag, setDrag] = useState<DragState | null>(null)
+
+  if (days.length === 0) {
+    return null
+  }
+
+  const rangeStart = startOfDay(days[0]).getTime()
+  const rangeEnd = endOfDay(days[days.length - 1]).getTime()
+  // Posición dentro del período visible; lo que cae fuera queda pegado al borde
+  const toPercent = (time: number) =>
+    ((Math.min(Math.max(time, rangeStart), rangeEnd) - rangeStart) / (rangeEnd - rangeStart)) * 100
+  const dayPercent = 100 / days.length
+  const nowPercent = now.getTime() >= rangeStart && now.getTime() <= rangeEnd ? toPercent(now.getTime()) : null
+
+  const rows = campaigns
+    .filter(
+      (campaign) =>
+        parseTimestamp(campaign.startDate).getTime() <= rangeEnd &&
+        parseTimestamp(campaign.endDate).getTime() >= rangeStart,
+    )
+    .sort((a, b) => parseTimestamp(a.startDate).getTime() - parseTimestamp(b.startDate).getTime())
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLButtonElement>, campaign: Campaign) => {
+    if (!canReschedule(campaign) || !trackRef.current) {
+      return
+    }
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setDrag({
+      campaignId: campaign.id,
+      startX: event.clientX,
+      dayWidth: trackRef.current.getBoundingClientRect().width / days.length,
+      offsetDays: 0,
+      moved: false,
+    })
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLButtonElement>) => {
+    if (!drag) {
+      return
+    }
+    const dx = event.clientX - drag.startX
+    setDrag({
+      ...drag,
+      offsetDays: Math.round(dx / drag.dayWidth),
+      moved: drag.moved || Math.abs(dx) > DRAG_THRESHOLD_PX,
+    })
+  }
+
+  // Las campañas que no se pueden mover no inician arrastre, así que para ellas esto es siempre un clic
+  const handleClick = (campaign: Campaign) => {
+    if (drag?.campaignId === campaign.id && drag.moved) {
+      onReschedule(campaign, drag.offsetDays)
+    } else {
+      onOpen(campaign)
+    }
+    setDrag(null)
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="min-w-[720px]">
+        <div className="flex text-xs text-gray-500 border-b">
+          <div className="w-48 shrink-0 p-2 font-medium">{t("contactProgress.campaign")}</div>
+          <div ref={trackRef} className="flex-grow flex">
+            {days.map((day) => (
+              <div
+                key={day.toISOString()}
+                className={`flex-1 text-center py-2 border-l ${isSameDay(day, now) ? "text-red-600 font-semibold" : ""}`}
+              >
+                {format(day, "d")}
+              </div>
+            ))}
+          </div>
+        </div>
+        {rows.length === 0 && <p className="text-gray-600 italic p-4">{t("schedule.emptyPeriod")}</p>}
+        {rows.map((campaign) => {
+          const left = toPercent(parseTimestamp(campaign.startDate).getTime())
+          const width = Math.max(toPercent(parseTimestamp(campaign.endDate).getTime()) - left, 0.5)
+          const offset = drag?.campaignId === campaign.id ? drag.offsetDays * dayPercent : 0
+          return (
+            <div key={campaign.id} className="flex items-center border-b">
+              <div className="w-48 shrink-0 p-2 truncate text-sm" title={campaign.name}>
+                {campaign.name}
+              </div>
+              <div className="flex-grow relative h-10">
+                {nowPercent !== null && (
+                  <div className="absolute top-0 bottom-0 w-px bg-red-500 z-10" style={{ left: `${nowPercent}%` }} />
+                )}
+                <button
+                  onPointerDown={(event) => handlePointerDown(event, campaign)}
+                  onPointerMove={handlePointerMove}
+                  onPointerCancel={() => setDrag(null)}
+                  onClick={() => handleClick(campaign)}
+                  title={`${campaign.name}: ${formatDate(campaign.startDate)} – ${formatDate(campaign.endDate)}`}
+                  className={`absolute top-2 h-6 rounded text-xs truncate px-1 text-left ${getStatusBadgeColor(
+                    campaign.status,
+                  )} ${canReschedule(campaign) ? "cursor-move touch-none" : ""}`}
+                  style={{ left: `${left + offset}%`, width: `${width}%` }}
+                >
+                  {campaign.name}
+                </button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default CampaignTimeline
@@ -0,0 +1,112 @@
+import type React from "react"
+import { useI18n } from "../context/I18nContext"
+import type { CampaignFilters, CampaignSortField } from "../types"
+import { CAMPAIGN_STATUSES, defaultCampaignFilters, hasActiveFilters } from "../utils/campaignFilters"
+
+interface CampaignToolbarProps {
+  filters: CampaignFilters
+  onChange: (changes: Partial<CampaignFilters>) => void
+  resultCount: number
+  totalCount: number
+}
+
+const sortFields: CampaignSortField[] = ["name", "startDate", "endDate", "people"]
+
+const CampaignToolbar: React.FC<CampaignToolbarProps> = ({ filters, onChange, resultCount, totalCount }) => {
+  const { t } = useI18n()
+  const toggleStatus = (status: CampaignFilters["statuses"][number]) => {
+    onChange({
+      statuses: filters.statuses.includes(status)
+        ? filters.statuses.filter((s) => s !== status)
+        : [...filters.statuses, status],
+    })
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4 mb-6 space-y-4">
+      <div className="flex flex-col md:flex-row gap-4">
+        <input
+          type="search"
+          value={filters.search}
+          onChange={(e) => onChange({ search: e.target.value })}
+          placeholder={t("filters.searchPlaceholder")}
+          className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+        />
+        <div className="flex gap-2">
+          <select
+            value={filters.sortBy}
+            onChange={(e) => onChange({ sortBy: e.target.value as CampaignSortField })}
+            className="shadow border rounded py-2 px-3 text-gray-700 focus:outline-none focus:shadow-outline"
+            aria-label={t("filters.sortBy")}
+          >
+            {sortFields.map((field) => (
+              <option key={field} value={field}>
+                {t(`filters.sort.${field}`)}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => onChange({ sortDirection: filters.sortDirection === "asc" ? "desc" : "asc" })}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-3 rounded"
+            title={t(filters.sortDirection === "asc" ? "filters.ascending" : "filters.descending")}
+          >
+            {filters.sortDirection === "asc" ? "↑" : "↓"}
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <div className="flex flex-wrap gap-2">
+          {CAMPAIGN_STATUSES.map((status) => (
+            <button
+              key={status}
+              onClick={() => toggleStatus(status)}
+              className={`px-3 py-1 rounded-full text-sm font-medium border ${
+                filters.statuses.includes(status)
+                  ? "bg-blue-500 border-blue-500 text-white"
+                  : "bg-white border-gray-300 text-gray-700 hover:bg-gray-100"
+              }`}
+              aria-pressed={filters.statuses.includes(status)}
+            >
+              {t(`status.${status}`)}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <label htmlFor="filter-from">{t("filters.from")}</label>
+          <input
+            id="filter-from"
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => onChange({ from: e.target.value })}
+            className="border rounded py-1 px-2"
+          />
+          <label htmlFor="filter-to">{t("filters.to")}</label>
+          <input
+            id="filter-to"
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => onChange({ to: e.target.value })}
+            className="border rounded py-1 px-2"
+          />
+        </div>
+        <div className="flex items-center gap-3 md:ml-auto text-sm text-gray-600">
+          <span>{t("filters.resultCount", { count: resultCount, total: totalCount })}</span>
+          {hasActiveFilters(filters) && (
+            <button
+              onClick={() =>
+                onChange({ ...defaultCampaignFilters, sortBy: filters.sortBy, sortDirection: filters.sortDirection })
+              }
+              className="text-blue-600 hover:text-blue-800 underline"
+            >
+              {t("filters.clear")}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CampaignToolbar
@@ -0,0 +1,264 @@
+import type React from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
+import { QueryClient, QueryClientProvider } from "react-query"
+import toast, { Toaster } from "react-hot-toast"
+import { MemoryRouter, useInRouterContext } from "react-router-dom"
+import ConflictResolutionModal from "./ConflictResolutionModal"
+import { AppBaseContext } from "../context/AppPathsContext"
+import { RepositoryContext } from "../context/RepositoryContext"
+import { TelephonyContext } from "../context/TelephonyContext"
+import { SchedulerContext } from "../context/SchedulerContext"
+import { TrashRetentionContext } from "../context/TrashRetentionContext"
+import { I18nContext } from "../context/I18nContext"
+import { EventBusContext } from "../context/EventBusContext"
+import { ContactRepositoryContext } from "../context/ContactRepositoryContext"
+import { DoNotCallContext } from "../context/DoNotCallContext"
+import { createTranslator, isSupportedLocale, resolveLocale } from "../i18n"
+import { createSimulatedProvider } from "../dialer"
+import { ConflictError, createDefaultRepository, withValidation } from "../repositories"
+import { createStatusScheduler, purgeExpiredTrash, withScheduling } from "../scheduler"
+import { createConflictStore, createCrossTabSync, withChangeBroadcast } from "../sync"
+import { connectWindowEvents, createCampaignEventBus, withEventPublishing } from "../events"
+import type { CampaignEventBus } from "../events"
+import { createDefaultContactRepository, seedContactDirectory, withContactLinking } from "../contacts"
+import { createDefaultDoNotCallRepository, findBlockedPeople, withDoNotCallCheck } from "../doNotCall"
+import type {
+  CampaignChangeNotice,
+  CampaignEvent,
+  CampaignRepository,
+  ContactRepository,
+  DoNotCallRepository,
+  Locale,
+  TelephonyProvider,
+} from "../types"
+import { DEFAULT_TRASH_RETENTION_DAYS } from "../utils/recycleBin"
+
+export interface CampaignsProviderProps {
+  // Permite a la aplicación host elegir dónde se guardan las campañas
+  repository?: CampaignRepository
+  // Dónde se guarda el directorio de contactos compartido por todas las campañas
+  contactRepository?: ContactRepository
+  // Dónde se guarda la lista de no llamar
+  doNotCallRepository?: DoNotCallRepository
+  // Cliente de react-query del host, para compartir la caché con sus propias consultas
+  queryClient?: QueryClient
+  // Central telefónica que usa el marcador; por defecto, el simulador local
+  telephonyProvider?: TelephonyProvider
+  // Días que un elemento pasa en la papelera antes de eliminarse definitivamente
+  trashRetentionDays?: number
+  // Idioma de la interfaz; si el host lo indica, la app no muestra su propio selector
+  locale?: Locale
+  // Ruta del host donde está montada la app completa, a la que apuntan los enlaces de los componentes sueltos
+  basePath?: string
+  // Se llama después de cada escritura de esta pestaña, incluidas las del planificador
+  onCampaignChange?: (notice: CampaignChangeNotice) => void
+  // Bus del host para recibir eventos de dominio y enviar órdenes; sin él se crea uno propio
+  eventBus?: CampaignEventBus
+  // Atajo para escuchar los eventos de dominio sin crear un bus
+  onEvent?: (event: CampaignEvent) => void
+  // Publica los eventos y recibe las órdenes también como CustomEvent de window (por defecto, sí)
+  windowEvents?: boolean
+  children: React.ReactNode
+}
+
+// Cada cuánto se revisa la papelera mientras la aplicación está abierta
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000
+
+const sync = createCrossTabSync()
+const defaultQueryClient = new QueryClient()
+const defaultRepository = createDefaultRepository()
+const defaultContactRepository = createDefaultContactRepository()
+const defaultDoNotCallRepository = createDefaultDoNotCallRepository()
+const defaultTelephonyProvider = createSimulatedProvider()
+
+const LOCALE_STORAGE_KEY = "campaigns-locale"
+
+// El idioma elegido antes en este navegador o, si no hay, el del navegador
+const getInitialLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_STORAGE_KEY)
+  return isSupportedLocale(stored) ? stored : resolveLocale(navigator.language)
+}
+
+// Todo lo que necesitan las pantallas y los componentes expuestos: datos, planificador, idioma y avisos
+const CampaignsProvider: React.FC<CampaignsProviderProps> = ({
+  repository = defaultRepository,
+  contactRepository = defaultContactRepository,
+  doNotCallRepository = defaultDoNotCallRepository,
+  queryClient = defaultQueryClient,
+  telephonyProvider = defaultTelephonyProvider,
+  trashRetentionDays = DEFAULT_TRASH_RETENTION_DAYS,
+  locale: hostLocale,
+  basePath = "",
+  onCampaignChange,
+  eventBus: hostEventBus,
+  onEvent,
+  windowEvents = true,
+  children,
+}) => {
+  const [storedLocale, setStoredLocale] = useState(getInitialLocale)
+  const [conflictStore] = useState(createConflictStore)
+  const [ownEventBus] = useState(createCampaignEventBus)
+  const eventBus = hostEventBus ?? ownEventBus
+  const locale = hostLocale ?? storedLocale
+  const i18n = useMemo(
+    () => ({
+      ...createTranslator(locale),
+      setLocale: hostLocale
+        ? null
+        : (next: Locale) => {
+            localStorage.setItem(LOCALE_STORAGE_KEY, next)
+            setStoredLocale(next)
+          },
+    }),
+    [locale, hostLocale],
+  )
+  // El planificador y la purga viven más que un idioma o un callback; leen los vigentes al avisar
+  const i18nRef = useRef(i18n)
+  i18nRef.current = i18n
+  const onCampaignChangeRef = useRef(onCampaignChange)
+  onCampaignChangeRef.current = onCampaignChange
+  const onEventRef = useRef(onEvent)
+  onEventRef.current = onEvent
+  const reportError = (
+    key: "app.schedulerError" | "app.trashPurgeError" | "app.contactSeedError",
+    error: unknown,
+  ) => {
+    const { t, translateError } = i18nRef.current
+    toast.error(`${t(key)}: ${translateError(error)}`)
+  }
+
+  // Las escrituras de esta pestaña, incluidas las del planificador, se avisan a las demás y al host
+  const sharedRepository = useMemo(
+    () =>
+      withEventPublishing(
+        withChangeBroadcast(
+          withValidation(
+            withDoNotCallCheck(
+              withContactLinking(repository, contactRepository, () => queryClient.invalidateQueries("contacts")),
+              doNotCallRepository,
+            ),
+          ),
+          {
+            ...sync,
+            notify: (notice) => {
+              sync.notify(notice)
+              onCampaignChangeRef.current?.(notice)
+            },
+          },
+        ),
+        eventBus.publish,
+      ),
+    [repository, contactRepository, doNotCallRepository, queryClient, eventBus],
+  )
+  // El planificador escribe por debajo de withScheduling; el resto de la app escribe a través de él
+  const scheduler = useMemo(
+    () =>
+      createStatusScheduler({
+        repository: sharedRepository,
+        onError: (error) => reportError("app.schedulerError", error),
+        // El inicio por calendario tampoco puede activar una campaña con números de la lista de no llamar
+        canStart: async (campaign) => (await findBlockedPeople(doNotCallRepository, campaign.people)).length === 0,
+        onStartSkipped: (campaign) =>
+          toast.error(i18nRef.current.t("doNotCall.scheduledStartSkipped", { name: campaign.name })),
+      }),
+    [sharedRepository, doNotCallRepository],
+  )
+  const scheduledRepository = useMemo(() => withScheduling(sharedRepository, scheduler), [sharedRepository, scheduler])
+
+  useEffect(() => {
+    scheduler.start()
+    return scheduler.stop
+  }, [scheduler])
+
+  useEffect(() => {
+    const purge = () =>
+      purgeExpiredTrash(scheduledRepository, trashRetentionDays)
+        .then((purged) => {
+          if (purged > 0) {
+            queryClient.invalidateQueries("campaigns")
+          }
+        })
+        .catch((error) => reportError("app.trashPurgeError", error))
+    void purge()
+    const interval = setInterval(purge, TRASH_PURGE_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [scheduledRepository, trashRetentionDays, queryClient])
+
+  // Las personas guardadas antes del directorio se pasan a él una sola vez por directorio; después ya llegan
+  // enlazadas. La marca evita que el doble efecto de StrictMode cree los mismos contactos dos veces
+  const seededDirectory = useRef<ContactRepository | null>(null)
+  useEffect(() => {
+    if (seededDirectory.current === contactRepository) {
+      return
+    }
+    seededDirectory.current = contactRepository
+    seedContactDirectory(scheduledRepository, contactRepository)
+      .then((changed) => {
+        if (changed > 0) {
+          queryClient.invalidateQueries("contacts")
+          queryClient.invalidateQueries("campaigns")
+        }
+      })
+      .catch((error) => reportError("app.contactSeedError", error))
+  }, [scheduledRepository, contactRepository, queryClient])
+
+  // Lo que escribe otra pestaña se vuelve a leer y puede mover la próxima transición programada
+  useEffect(
+    () =>
+      sync.subscribe(() => {
+        queryClient.invalidateQueries("campaigns")
+        void scheduler.refresh()
+      }),
+    [scheduler, queryClient],
+  )
+
+  useEffect(() => eventBus.subscribe((event) => onEventRef.current?.(event)), [eventBus])
+
+  useEffect(() => (windowEvents ? connectWindowEvents(eventBus) : undefined), [eventBus, windowEvents])
+
+  // Cualquier mutación que choque con una escritura de otra pestaña termina en el modal de resolución.
+  // Se escucha la caché en lugar de configurarla porque el cliente puede ser del host.
+  useEffect(() => {
+    const reported = new WeakSet<ConflictError>()
+    return queryClient.getMutationCache().subscribe((mutation) => {
+      const error = mutation?.state.error
+      if (error instanceof ConflictError && !reported.has(error)) {
+        reported.add(error)
+        conflictStore.report(error)
+      }
+    })
+  }, [queryClient, conflictStore])
+
+  // Fuera de un router del host los enlaces no llevan a ningún lado, pero los componentes siguen funcionando
+  const isInRouter = useInRouterContext()
+
+  const content = (
+    <I18nContext.Provider value={i18n}>
+      <QueryClientProvider client={queryClient}>
+        <AppBaseContext.Provider value={basePath}>
+          <EventBusContext.Provider value={eventBus}>
+            <RepositoryContext.Provider value={scheduledRepository}>
+              <ContactRepositoryContext.Provider value={contactRepository}>
+                <DoNotCallContext.Provider value={doNotCallRepository}>
+                  <SchedulerContext.Provider value={scheduler}>
+                    <TelephonyContext.Provider value={telephonyProvider}>
+                      <TrashRetentionContext.Provider value={trashRetentionDays}>
+                        {children}
+                      </TrashRetentionContext.Provider>
+                    </TelephonyContext.Provider>
+                  </SchedulerContext.Provider>
+                </DoNotCallContext.Provider>
+              </ContactRepositoryContext.Provider>
+              <ConflictResolutionModal conflicts={conflictStore} />
+            </RepositoryContext.Provider>
+          </EventBusContext.Provider>
+        </AppBaseContext.Provider>
+        <Toaster position="top-right" />
+      </QueryClientProvider>
+    </I18nContext.Provider>
+  )
+
+  return isInRouter ? content : <MemoryRouter>{content}</MemoryRouter>
+}
+
+export default CampaignsProvider
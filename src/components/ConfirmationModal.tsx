@@ -1,6 +1,7 @@
 import type React from "react"
+import { useI18n } from "../context/I18nContext"
 
-interface ConfirmationModalProps {
+export interface ConfirmationModalProps {
   isOpen: boolean
   onClose: () => void
   onConfirm: () => void
@@ -8,25 +9,26 @@ interface ConfirmationModalProps {
 }
 
 const ConfirmationModal: React.FC<ConfirmationModalProps> = ({ isOpen, onClose, onConfirm, message }) => {
+  const { t } = useI18n()
   if (!isOpen) return null
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg p-6 max-w-sm w-full">
-        <h2 className="text-xl font-bold mb-4">Confirmar acción</h2>
+        <h2 className="text-xl font-bold mb-4">{t("confirmation.title")}</h2>
         <p className="mb-6">{message}</p>
         <div className="flex justify-end space-x-2">
           <button
             onClick={onClose}
             className="px-4 py-2 bg-gray-300 text-gray-800 rounded hover:bg-gray-400 transition-colors"
           >
-            Cancelar
+            {t("common.cancel")}
           </button>
           <button
             onClick={onConfirm}
             className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
           >
-            Confirmar
+            {t("common.confirm")}
           </button>
         </div>
       </div>
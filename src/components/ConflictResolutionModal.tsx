@@ -0,0 +1,122 @@
+import type React from "react"
+import { useSyncExternalStore } from "react"
+import { useMutation, useQueryClient } from "react-query"
+import toast from "react-hot-toast"
+import { ConflictError } from "../repositories"
+import { useCampaignRepository } from "../context/RepositoryContext"
+import { useI18n } from "../context/I18nContext"
+import type { ConflictStore } from "../sync"
+import type { Campaign } from "../types"
+
+interface ConflictResolutionModalProps {
+  conflicts: ConflictStore
+}
+
+const CampaignVersionSummary: React.FC<{ title: string; campaign: Campaign }> = ({ title, campaign }) => {
+  const { t, formatDate } = useI18n()
+
+  return (
+    <div className="border rounded p-3 text-sm">
+      <p className="font-medium mb-1">{title}</p>
+      <p>{t("conflict.field.name", { value: campaign.name })}</p>
+      <p>{t("conflict.field.status", { value: t(`status.${campaign.status}`) })}</p>
+      <p>{t("conflict.field.start", { value: formatDate(campaign.startDate) })}</p>
+      <p>{t("conflict.field.end", { value: formatDate(campaign.endDate) })}</p>
+      <p>{t("conflict.field.people", { value: campaign.people.length })}</p>
+    </div>
+  )
+}
+
+// Aparece cuando una escritura partió de una versión vieja porque otra pestaña o usuario la cambió antes
+const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = ({ conflicts }) => {
+  const conflict = useSyncExternalStore(conflicts.subscribe, conflicts.getCurrent)
+  const queryClient = useQueryClient()
+  const repository = useCampaignRepository()
+  const { t, translateError } = useI18n()
+
+  // Reintenta sobre la revisión guardada ahora; si vuelve a cambiar, aparece un conflicto nuevo
+  const overwrite = useMutation<unknown, Error, void>(
+    () => {
+      const { campaignId, current, attempted } = conflict!
+      if (!attempted) {
+        return repository.delete(campaignId, current?.revision)
+      }
+      return current
+        ? repository.update({ ...attempted, revision: current.revision })
+        : repository.create({ ...attempted, revision: undefined })
+    },
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries("campaigns")
+        toast.success(t("conflict.saved"))
+        conflicts.dismiss()
+      },
+      // Otro conflicto reemplaza al actual en el modal con la versión más reciente; hay que avisar que cambió
+      onError: (error) => {
+        toast.error(
+          error instanceof ConflictError
+            ? t("conflict.changedAgain")
+            : `${t("conflict.saveError")}: ${translateError(error)}`,
+        )
+      },
+    },
+  )
+
+  if (!conflict) return null
+
+  const { current, attempted } = conflict
+
+  const discard = () => {
+    queryClient.invalidateQueries("campaigns")
+    conflicts.dismiss()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg p-6 max-w-lg w-full">
+        <h2 className="text-xl font-bold mb-2">{t("conflict.title")}</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {current ? t("conflict.changed", { name: current.name }) : t("conflict.deleted")}{" "}
+          {t("conflict.hint")}
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6">
+          {current ? (
+            <CampaignVersionSummary title={t("conflict.stored")} campaign={current} />
+          ) : (
+            <div className="border rounded p-3 text-sm">
+              <p className="font-medium mb-1">{t("conflict.stored")}</p>
+              <p>{t("conflict.storedDeleted")}</p>
+            </div>
+          )}
+          {attempted ? (
+            <CampaignVersionSummary title={t("conflict.attempted")} campaign={attempted} />
+          ) : (
+            <div className="border rounded p-3 text-sm">
+              <p className="font-medium mb-1">{t("conflict.attempted")}</p>
+              <p>{t("conflict.attemptedDelete")}</p>
+            </div>
+          )}
+        </div>
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={discard}
+            className="px-4 py-2 bg-gray-300 text-gray-800 rounded hover:bg-gray-400 transition-colors"
+          >
+            {current || attempted ? t("conflict.discard") : t("common.close")}
+          </button>
+          {(current || attempted) && (
+            <button
+              onClick={() => overwrite.mutate()}
+              disabled={overwrite.isLoading}
+              className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors disabled:opacity-50"
+            >
+              {t(attempted ? (current ? "conflict.overwrite" : "conflict.recreate") : "conflict.deleteAnyway")}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ConflictResolutionModal
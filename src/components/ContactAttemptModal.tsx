@@ -0,0 +1,125 @@
+import type React from "react"
+import { useState } from "react"
+import { v4 as uuidv4 } from "uuid"
+import type { CallOutcome, ContactAttempt, Person } from "../types"
+import { toTimestamp } from "../utils"
+import { CALL_OUTCOMES } from "../utils/contactAttempts"
+import { contactAttemptSchema, validate } from "../schemas"
+import type { FieldErrors } from "../schemas"
+import { useI18n } from "../context/I18nContext"
+
+interface ContactAttemptModalProps {
+  person: Person
+  onSubmit: (attempt: ContactAttempt) => void
+  onClose: () => void
+}
+
+const ContactAttemptModal: React.FC<ContactAttemptModalProps> = ({ person, onSubmit, onClose }) => {
+  const [outcome, setOutcome] = useState<CallOutcome>("answered")
+  const [minutes, setMinutes] = useState("0")
+  const [seconds, setSeconds] = useState("0")
+  const [notes, setNotes] = useState("")
+  const [errors, setErrors] = useState<FieldErrors<ContactAttempt>>({})
+  const { t, translateMessage } = useI18n()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const attempt: ContactAttempt = {
+      id: uuidv4(),
+      attemptedAt: toTimestamp(new Date()),
+      outcome,
+      durationSeconds: Number(minutes || 0) * 60 + Number(seconds || 0),
+      notes: notes.trim(),
+    }
+    const result = validate(contactAttemptSchema, attempt)
+    if (!result.success) {
+      setErrors(result.errors)
+      return
+    }
+    onSubmit(attempt)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg p-6 max-w-sm w-full space-y-4">
+        <div>
+          <h2 className="text-xl font-bold">{t("attempt.log")}</h2>
+          <p className="text-sm text-gray-600">
+            {person.name} {person.lastName}
+          </p>
+        </div>
+        <div>
+          <label className="block text-gray-700 text-sm font-bold mb-2" htmlFor="attempt-outcome">
+            {t("attempt.outcome")}
+          </label>
+          <select
+            id="attempt-outcome"
+            value={outcome}
+            onChange={(e) => setOutcome(e.target.value as CallOutcome)}
+            className="shadow border rounded w-full py-2 px-3 text-gray-700 focus:outline-none focus:shadow-outline"
+          >
+            {CALL_OUTCOMES.map((value) => (
+              <option key={value} value={value}>
+                {t(`callOutcome.${value}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <span className="block text-gray-700 text-sm font-bold mb-2">{t("attempt.duration")}</span>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              value={minutes}
+              onChange={(e) => setMinutes(e.target.value)}
+              className="shadow border rounded w-20 py-2 px-3 text-gray-700"
+              aria-label={t("attempt.minutes")}
+            />
+            <span>min</span>
+            <input
+              type="number"
+              min={0}
+              max={59}
+              value={seconds}
+              onChange={(e) => setSeconds(e.target.value)}
+              className="shadow border rounded w-20 py-2 px-3 text-gray-700"
+              aria-label={t("attempt.seconds")}
+            />
+            <span>s</span>
+          </div>
+          {errors.durationSeconds && (
+            <p className="text-red-500 text-xs mt-0.5">{translateMessage(errors.durationSeconds)}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-gray-700 text-sm font-bold mb-2" htmlFor="attempt-notes">
+            {t("attempt.notes")}
+          </label>
+          <textarea
+            id="attempt-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            className={`shadow border rounded w-full py-2 px-3 text-gray-700 ${errors.notes ? "border-red-500" : ""}`}
+          />
+          {errors.notes && <p className="text-red-500 text-xs mt-0.5">{translateMessage(errors.notes)}</p>}
+        </div>
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-300 text-gray-800 rounded hover:bg-gray-400 transition-colors"
+          >
+            {t("common.cancel")}
+          </button>
+          <button type="submit" className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors">
+            {t("common.save")}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default ContactAttemptModal
@@ -0,0 +1,96 @@
+import type React from "react"
+import { useState } from "react"
+import type { Contact } from "../types"
+import { createPersonInputSchema, validate } from "../schemas"
+import type { FieldErrors, PersonInput } from "../schemas"
+import { DEFAULT_PHONE_COUNTRY, formatPhoneForDisplay, getPhoneCountry, isSamePhoneNumber } from "../utils/phone"
+import type { CountryCode } from "../utils/phone"
+import { useI18n } from "../context/I18nContext"
+import PhoneInput from "./PhoneInput"
+
+export interface ContactEditFormProps {
+  contact: Contact
+  // Resto del directorio, para no repetir un teléfono que ya tiene otro contacto
+  contacts: Contact[]
+  onSave: (contact: Contact) => void
+  onCancel: () => void
+}
+
+const ContactEditForm: React.FC<ContactEditFormProps> = ({ contact, contacts, onSave, onCancel }) => {
+  const { t, translateMessage } = useI18n()
+  const [name, setName] = useState(contact.name)
+  const [lastName, setLastName] = useState(contact.lastName)
+  const [country, setCountry] = useState<CountryCode>(getPhoneCountry(contact.phone) ?? DEFAULT_PHONE_COUNTRY)
+  const [phone, setPhone] = useState(formatPhoneForDisplay(contact.phone, country))
+  const [errors, setErrors] = useState<FieldErrors<PersonInput>>({})
+
+  const handleSave = () => {
+    const schema = createPersonInputSchema({
+      country,
+      isDuplicate: (value) => contacts.some((c) => c.id !== contact.id && isSamePhoneNumber(c.phone, value)),
+    })
+    const result = validate(schema, { name, lastName, phone })
+    if (!result.success) {
+      setErrors(result.errors)
+      return
+    }
+    onSave({ ...contact, ...result.data })
+  }
+
+  const fieldError = (field: keyof PersonInput) =>
+    errors[field] && <p className="text-red-500 text-xs mt-0.5">{translateMessage(errors[field]!)}</p>
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-start">
+      <div>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t("people.name")}
+          aria-label={t("people.name")}
+          className={`w-full p-2 border rounded ${errors.name ? "border-red-500" : ""}`}
+        />
+        {fieldError("name")}
+      </div>
+      <div>
+        <input
+          type="text"
+          value={lastName}
+          onChange={(e) => setLastName(e.target.value)}
+          placeholder={t("people.lastName")}
+          aria-label={t("people.lastName")}
+          className={`w-full p-2 border rounded ${errors.lastName ? "border-red-500" : ""}`}
+        />
+        {fieldError("lastName")}
+      </div>
+      <div>
+        <PhoneInput
+          value={phone}
+          country={country}
+          onChange={(value) => setPhone(value)}
+          onCountryChange={setCountry}
+          hasError={!!errors.phone}
+          inputClassName="w-full p-2 border rounded"
+        />
+        {fieldError("phone")}
+      </div>
+      <div className="sm:col-span-3 flex gap-2">
+        <button
+          onClick={handleSave}
+          className="bg-green-500 hover:bg-green-600 text-white font-bold py-1 px-3 rounded text-sm"
+        >
+          {t("common.save")}
+        </button>
+        <button
+          onClick={onCancel}
+          className="bg-gray-300 hover:bg-gray-400 text-gray-800 font-bold py-1 px-3 rounded text-sm"
+        >
+          {t("common.cancel")}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ContactEditForm
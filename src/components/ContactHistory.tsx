@@ -0,0 +1,59 @@
+import type React from "react"
+import { Link } from "react-router-dom"
+import type { ContactParticipation } from "../types"
+import { getStatusBadgeColor } from "../utils"
+import { getLastAttempt } from "../utils/contactAttempts"
+import { useAppPaths } from "../context/AppPathsContext"
+import { useI18n } from "../context/I18nContext"
+
+export interface ContactHistoryProps {
+  participations: ContactParticipation[]
+}
+
+const ContactHistory: React.FC<ContactHistoryProps> = ({ participations }) => {
+  const paths = useAppPaths()
+  const { t, formatDate } = useI18n()
+
+  if (participations.length === 0) {
+    return <p className="text-sm text-gray-600 italic">{t("contacts.history.empty")}</p>
+  }
+
+  return (
+    <ul className="divide-y text-sm">
+      {participations.map(({ campaign, person, removed }) => {
+        const lastAttempt = getLastAttempt(person.attempts)
+        return (
+          <li key={campaign.id} className="py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-1">
+            <div className="flex items-center gap-2">
+              <Link to={paths.campaign(campaign.id)} className="font-medium hover:text-blue-600 hover:underline">
+                {campaign.name}
+              </Link>
+              <span className={`px-2 py-0.5 rounded-full text-xs ${getStatusBadgeColor(campaign.status)}`}>
+                {t(`status.${campaign.status}`)}
+              </span>
+              {campaign.deletedAt && (
+                <span className="text-xs text-gray-500">{t("contacts.history.campaignDeleted")}</span>
+              )}
+              {removed && <span className="text-xs text-gray-500">{t("contacts.history.removed")}</span>}
+            </div>
+            <div className="text-gray-600">
+              {t("contacts.history.period", {
+                start: formatDate(campaign.startDate, "date"),
+                end: formatDate(campaign.endDate, "date"),
+              })}
+              {" · "}
+              {t("contacts.history.attempts", { count: person.attempts?.length ?? 0 })}
+              {lastAttempt &&
+                ` · ${t("contacts.history.lastAttempt", {
+                  date: formatDate(lastAttempt.attemptedAt),
+                  outcome: t(`callOutcome.${lastAttempt.outcome}`),
+                })}`}
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export default ContactHistory
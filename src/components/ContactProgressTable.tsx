@@ -0,0 +1,62 @@
+import type React from "react"
+import { useMemo } from "react"
+import { Link } from "react-router-dom"
+import type { Campaign } from "../types"
+import { formatPercentage, getCampaignContactMetrics } from "../utils/contactAttempts"
+import { useAppPaths } from "../context/AppPathsContext"
+import { useI18n } from "../context/I18nContext"
+
+interface ContactProgressTableProps {
+  campaigns: Campaign[]
+}
+
+const ContactProgressTable: React.FC<ContactProgressTableProps> = ({ campaigns }) => {
+  const paths = useAppPaths()
+  const { t } = useI18n()
+  const rows = useMemo(
+    () => campaigns.map((campaign) => ({ campaign, metrics: getCampaignContactMetrics(campaign) })),
+    [campaigns],
+  )
+
+  return (
+    <div className="overflow-x-auto mt-6">
+      <table className="min-w-full text-left text-sm">
+        <thead className="border-b text-gray-500">
+          <tr>
+            <th className="py-2 pr-4">{t("contactProgress.campaign")}</th>
+            <th className="py-2 pr-4">{t("contactProgress.contactRate")}</th>
+            <th className="py-2 pr-4">{t("contactProgress.answeredRate")}</th>
+            <th className="py-2">{t("contactProgress.pending")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ campaign, metrics }) => (
+            <tr key={campaign.id} className="border-b last:border-0">
+              <td className="py-2 pr-4">
+                <Link to={paths.campaign(campaign.id)} className="hover:text-blue-600 hover:underline">
+                  {campaign.name}
+                </Link>
+              </td>
+              <td className="py-2 pr-4">
+                <div className="flex items-center gap-2">
+                  <div className="w-24 h-2 bg-gray-200 rounded">
+                    <div className="h-2 bg-blue-500 rounded" style={{ width: formatPercentage(metrics.contactRate) }} />
+                  </div>
+                  <span>
+                    {formatPercentage(metrics.contactRate)} ({metrics.contacted}/{metrics.total})
+                  </span>
+                </div>
+              </td>
+              <td className="py-2 pr-4">
+                {formatPercentage(metrics.answeredRate)} ({metrics.answered}/{metrics.contacted})
+              </td>
+              <td className="py-2">{metrics.pending}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default ContactProgressTable
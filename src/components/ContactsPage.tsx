@@ -0,0 +1,218 @@
+import { useMemo, useState } from "react"
+import { useQuery } from "react-query"
+import { Link } from "react-router-dom"
+import type { Campaign, Contact } from "../types"
+import { formatPhoneForDisplay } from "../utils/phone"
+import { getContactHistory, getPossibleDuplicateIds, matchesContactSearch } from "../utils/contacts"
+import { useCampaignRepository } from "../context/RepositoryContext"
+import { useAppPaths } from "../context/AppPathsContext"
+import { useI18n } from "../context/I18nContext"
+import { useContactDirectory, useContacts } from "../hooks/useContacts"
+import ConfirmationModal from "./ConfirmationModal"
+import ContactEditForm from "./ContactEditForm"
+import ContactHistory from "./ContactHistory"
+
+const fullName = (contact: Contact) => `${contact.name} ${contact.lastName}`
+
+const ContactsPage = () => {
+  const repository = useCampaignRepository()
+  const paths = useAppPaths()
+  const { t, locale } = useI18n()
+  const { contacts, isLoading, isError } = useContacts()
+  const { updateContact, mergeDuplicates } = useContactDirectory()
+  const [search, setSearch] = useState("")
+  const [onlyDuplicates, setOnlyDuplicates] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [historyId, setHistoryId] = useState<string | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [keptId, setKeptId] = useState<string | null>(null)
+  const [isConfirmingMerge, setIsConfirmingMerge] = useState(false)
+
+  // El historial incluye las campañas en la papelera
+  const { data: campaigns = [] } = useQuery<Campaign[], Error>("campaigns", () => repository.getAll())
+
+  const possibleDuplicates = useMemo(() => getPossibleDuplicateIds(contacts), [contacts])
+  const campaignCounts = useMemo(
+    () => new Map(contacts.map((contact) => [contact.id, getContactHistory(campaigns, contact.id).length])),
+    [contacts, campaigns],
+  )
+  const visibleContacts = useMemo(
+    () =>
+      contacts
+        .filter((contact) => matchesContactSearch(contact, search))
+        .filter((contact) => !onlyDuplicates || possibleDuplicates.has(contact.id))
+        .sort((a, b) => fullName(a).localeCompare(fullName(b), locale)),
+    [contacts, search, onlyDuplicates, possibleDuplicates, locale],
+  )
+
+  const selectedContacts = contacts.filter((contact) => selectedIds.includes(contact.id))
+  const keptContact = selectedContacts.find((contact) => contact.id === keptId) ?? selectedContacts[0]
+
+  const toggleSelected = (contactId: string) =>
+    setSelectedIds((current) =>
+      current.includes(contactId) ? current.filter((id) => id !== contactId) : [...current, contactId],
+    )
+
+  const confirmMerge = () => {
+    if (keptContact) {
+      mergeDuplicates.mutate({ keptId: keptContact.id, duplicateIds: selectedIds })
+    }
+    setSelectedIds([])
+    setKeptId(null)
+    setIsConfirmingMerge(false)
+  }
+
+  const backLink = (
+    <Link to={paths.home} className="text-blue-600 hover:text-blue-800">
+      ← {t("common.backToList")}
+    </Link>
+  )
+
+  if (isLoading) {
+    return <div>{t("contacts.loading")}</div>
+  }
+
+  if (isError) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6 text-center space-y-4">
+        <p className="text-gray-600">{t("contacts.loadError")}</p>
+        {backLink}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-2xl font-semibold mb-1">{t("contacts.title")}</h2>
+        <p className="text-sm text-gray-600 mb-4">{t("contacts.count", { count: contacts.length })}</p>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t("contacts.search")}
+            aria-label={t("contacts.search")}
+            className="w-full sm:max-w-md p-2 border rounded"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={onlyDuplicates} onChange={(e) => setOnlyDuplicates(e.target.checked)} />
+            {t("contacts.onlyDuplicates")}
+          </label>
+        </div>
+
+        {selectedContacts.length >= 2 && (
+          <div className="border rounded p-4 mb-4 bg-gray-50 space-y-2">
+            <h3 className="font-semibold">{t("contacts.merge.title", { count: selectedContacts.length })}</h3>
+            <p className="text-sm text-gray-600">{t("contacts.merge.keep")}</p>
+            {selectedContacts.map((contact) => (
+              <label key={contact.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="kept-contact"
+                  checked={contact.id === keptContact?.id}
+                  onChange={() => setKeptId(contact.id)}
+                />
+                {fullName(contact)} · {formatPhoneForDisplay(contact.phone)}
+              </label>
+            ))}
+            <div className="flex gap-2 pt-2">
+              <button
+                onClick={() => setIsConfirmingMerge(true)}
+                className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-1 px-3 rounded text-sm"
+              >
+                {t("contacts.merge.button")}
+              </button>
+              <button
+                onClick={() => setSelectedIds([])}
+                className="bg-gray-300 hover:bg-gray-400 text-gray-800 font-bold py-1 px-3 rounded text-sm"
+              >
+                {t("contacts.merge.clear")}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {contacts.length === 0 ? (
+          <p className="text-gray-600 italic">{t("contacts.empty")}</p>
+        ) : visibleContacts.length === 0 ? (
+          <p className="text-gray-600 italic">{t("contacts.noMatches")}</p>
+        ) : (
+          <ul className="divide-y">
+            {visibleContacts.map((contact) => (
+              <li key={contact.id} className="py-3 space-y-2">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <label className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(contact.id)}
+                      onChange={() => toggleSelected(contact.id)}
+                      aria-label={t("contacts.select", { name: fullName(contact) })}
+                    />
+                    <span>
+                      <span className="font-medium">{fullName(contact)}</span>{" "}
+                      <span className="text-sm text-gray-600">{formatPhoneForDisplay(contact.phone)}</span>
+                      {possibleDuplicates.has(contact.id) && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-yellow-100 text-yellow-800">
+                          {t("contacts.possibleDuplicate")}
+                        </span>
+                      )}
+                    </span>
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-gray-600">
+                      {t("contacts.campaigns", { count: campaignCounts.get(contact.id) ?? 0 })}
+                    </span>
+                    <button
+                      onClick={() => setHistoryId(historyId === contact.id ? null : contact.id)}
+                      className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-1 px-3 rounded text-sm"
+                    >
+                      {historyId === contact.id ? t("contacts.hideHistory") : t("contacts.showHistory")}
+                    </button>
+                    <button
+                      onClick={() => setEditingId(contact.id)}
+                      className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-1 px-3 rounded text-sm"
+                    >
+                      {t("common.edit")}
+                    </button>
+                  </div>
+                </div>
+                {editingId === contact.id && (
+                  <ContactEditForm
+                    contact={contact}
+                    contacts={contacts}
+                    onSave={(edited) => {
+                      updateContact.mutate(edited)
+                      setEditingId(null)
+                    }}
+                    onCancel={() => setEditingId(null)}
+                  />
+                )}
+                {historyId === contact.id && (
+                  <div className="pl-7">
+                    <h4 className="text-sm font-semibold mb-1">{t("contacts.history.title")}</h4>
+                    <ContactHistory participations={getContactHistory(campaigns, contact.id)} />
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <ConfirmationModal
+        isOpen={isConfirmingMerge}
+        onClose={() => setIsConfirmingMerge(false)}
+        onConfirm={confirmMerge}
+        message={t("contacts.confirmMerge", {
+          count: selectedContacts.length,
+          name: keptContact ? fullName(keptContact) : "",
+        })}
+      />
+    </div>
+  )
+}
+
+export default ContactsPage
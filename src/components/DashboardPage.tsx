@@ -0,0 +1,235 @@
+import { useMemo, useState } from "react"
+import { Link } from "react-router-dom"
+import DatePicker from "react-datepicker"
+import "react-datepicker/dist/react-datepicker.css"
+import { endOfDay, parse, startOfDay } from "date-fns"
+import type { CampaignStatus, DateRange } from "../types"
+import { getStatusBadgeColor } from "../utils"
+import {
+  countContactsPerDay,
+  countStatusesOverTime,
+  createLastDaysRange,
+  getDurationSummary,
+  getTopCampaignsByContacts,
+  getUpcomingMilestones,
+} from "../utils/analytics"
+import { CAMPAIGN_STATUSES } from "../utils/campaignFilters"
+import { formatPercentage } from "../utils/contactAttempts"
+import { useAppPaths } from "../context/AppPathsContext"
+import { useI18n } from "../context/I18nContext"
+import { DATE_FNS_LOCALES } from "../i18n"
+import { useCampaigns } from "../hooks/useCampaigns"
+import StackedBarChart from "./StackedBarChart"
+import LineChart from "./LineChart"
+
+const RANGE_PRESETS = [7, 30, 90]
+const UPCOMING_DAYS = 7
+
+// Mismos tonos que las insignias de estado
+const STATUS_CHART_COLORS: Record<CampaignStatus, string> = {
+  active: "#22c55e",
+  finished: "#ef4444",
+  waiting: "#eab308",
+  paused: "#f97316",
+  cancelled: "#9ca3af",
+}
+
+const DashboardPage = () => {
+  const paths = useAppPaths()
+  const { t, formatDate, formatTimeSpan, locale } = useI18n()
+  const [range, setRange] = useState<DateRange>(() => createLastDaysRange(30))
+  // Mientras se elige el rango en el calendario, el fin queda vacío hasta el segundo clic
+  const [pickerRange, setPickerRange] = useState<[Date | null, Date | null]>([range.from, range.to])
+  const [now] = useState(() => new Date())
+
+  const { campaigns, isLoading, isError } = useCampaigns()
+
+  const statusPoints = useMemo(() => countStatusesOverTime(campaigns, range), [campaigns, range])
+  const contactPoints = useMemo(() => countContactsPerDay(campaigns, range), [campaigns, range])
+  const duration = useMemo(() => getDurationSummary(campaigns, range, now), [campaigns, range, now])
+  const upcoming = useMemo(() => getUpcomingMilestones(campaigns, now, UPCOMING_DAYS), [campaigns, now])
+  const topCampaigns = useMemo(() => getTopCampaignsByContacts(campaigns, range), [campaigns, range])
+
+  const toAxisLabel = (day: string) => formatDate(parse(day, "yyyy-MM-dd", new Date()), "dayMonth")
+
+  const selectRange = (next: DateRange) => {
+    setRange(next)
+    setPickerRange([next.from, next.to])
+  }
+
+  const backLink = (
+    <Link to={paths.home} className="text-blue-600 hover:text-blue-800">
+      ← {t("common.backToList")}
+    </Link>
+  )
+
+  if (isLoading) {
+    return <div>{t("dashboard.loading")}</div>
+  }
+
+  if (isError) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6 text-center space-y-4">
+        <p className="text-gray-600">{t("home.loadError")}</p>
+        {backLink}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <h2 className="text-2xl font-semibold">{t("dashboard.title")}</h2>
+          <div className="flex flex-wrap items-center gap-2">
+            {RANGE_PRESETS.map((days) => (
+              <button
+                key={days}
+                onClick={() => selectRange(createLastDaysRange(days, now))}
+                className="border rounded py-1 px-3 text-sm hover:bg-gray-100"
+              >
+                {t("dashboard.lastDays", { count: days })}
+              </button>
+            ))}
+            <DatePicker
+              selectsRange
+              startDate={pickerRange[0]}
+              endDate={pickerRange[1]}
+              onChange={([from, to]: [Date | null, Date | null]) => {
+                setPickerRange([from, to])
+                if (from && to) {
+                  setRange({ from: startOfDay(from), to: endOfDay(to) })
+                }
+              }}
+              locale={DATE_FNS_LOCALES[locale]}
+              dateFormat="P"
+              className="border rounded py-1 px-2 text-sm w-52"
+              aria-label={t("dashboard.dateRange")}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white shadow rounded-lg p-6">
+          <h3 className="text-lg font-semibold mb-4">{t("dashboard.byStatus")}</h3>
+          <StackedBarChart
+            labels={statusPoints.map((point) => toAxisLabel(point.day))}
+            series={CAMPAIGN_STATUSES.map((status) => ({
+              key: status,
+              label: t(`status.${status}`),
+              color: STATUS_CHART_COLORS[status],
+              values: statusPoints.map((point) => point.counts[status]),
+            }))}
+          />
+        </div>
+        <div className="bg-white shadow rounded-lg p-6">
+          <h3 className="text-lg font-semibold mb-4">{t("dashboard.contactsPerDay")}</h3>
+          <LineChart
+            labels={contactPoints.map((point) => toAxisLabel(point.day))}
+            series={[
+              {
+                key: "contacted",
+                label: t("dashboard.series.contacted"),
+                color: "#3b82f6",
+                values: contactPoints.map((point) => point.contacted),
+              },
+              {
+                key: "attempts",
+                label: t("dashboard.series.attempts"),
+                color: "#9ca3af",
+                values: contactPoints.map((point) => point.attempts),
+              },
+              {
+                key: "answered",
+                label: t("dashboard.series.answered"),
+                color: "#22c55e",
+                values: contactPoints.map((point) => point.answered),
+              },
+            ]}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white shadow rounded-lg p-6">
+          <h3 className="text-lg font-semibold mb-4">{t("dashboard.averageDuration")}</h3>
+          {duration.campaignCount > 0 ? (
+            <dl className="space-y-3">
+              <div>
+                <dt className="text-sm text-gray-500">
+                  {t("dashboard.plannedDuration", { count: duration.campaignCount })}
+                </dt>
+                <dd className="text-lg font-semibold">{formatTimeSpan(duration.averagePlannedMs)}</dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500">{t("dashboard.activeDuration")}</dt>
+                <dd className="text-lg font-semibold">
+                  {duration.averageActiveMs === null ? "—" : formatTimeSpan(duration.averageActiveMs)}
+                </dd>
+              </div>
+            </dl>
+          ) : (
+            <p className="text-gray-600 italic">{t("dashboard.emptyRange")}</p>
+          )}
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-6">
+          <h3 className="text-lg font-semibold mb-4">{t("dashboard.upcoming", { count: UPCOMING_DAYS })}</h3>
+          {upcoming.length > 0 ? (
+            <ul className="space-y-2 text-sm">
+              {upcoming.map(({ campaign, kind, at }) => (
+                <li key={`${campaign.id}-${kind}`} className="flex justify-between gap-2">
+                  <Link to={paths.campaign(campaign.id)} className="hover:text-blue-600 hover:underline">
+                    {campaign.name}
+                  </Link>
+                  <span className="text-gray-600 whitespace-nowrap">
+                    {t(kind === "start" ? "dashboard.startsAt" : "dashboard.endsAt", { date: formatDate(at) })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-600 italic">{t("dashboard.noUpcoming")}</p>
+          )}
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-6">
+          <h3 className="text-lg font-semibold mb-4">{t("dashboard.topCampaigns")}</h3>
+          {topCampaigns.length > 0 ? (
+            <table className="min-w-full text-left text-sm">
+              <thead className="border-b text-gray-500">
+                <tr>
+                  <th className="py-2 pr-2">{t("contactProgress.campaign")}</th>
+                  <th className="py-2 pr-2">{t("dashboard.people")}</th>
+                  <th className="py-2">{t("dashboard.series.contacted")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {topCampaigns.map(({ campaign, people, contacted }) => (
+                  <tr key={campaign.id} className="border-b last:border-0">
+                    <td className="py-2 pr-2">
+                      <Link to={paths.campaign(campaign.id)} className="hover:text-blue-600 hover:underline">
+                        {campaign.name}
+                      </Link>
+                      <span className={`ml-2 px-2 py-0.5 rounded-full text-xs ${getStatusBadgeColor(campaign.status)}`}>
+                        {t(`status.${campaign.status}`)}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-2">{people}</td>
+                    <td className="py-2">{people > 0 ? formatPercentage(contacted / people) : "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-gray-600 italic">{t("dashboard.emptyRange")}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default DashboardPage
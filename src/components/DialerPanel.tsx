@@ -0,0 +1,190 @@
+import type React from "react"
+import { useState } from "react"
+import toast from "react-hot-toast"
+import type { Campaign, DialerItemState, DialerStatus } from "../types"
+import { defaultDialerConfig } from "../dialer"
+import { formatPhoneForDisplay } from "../utils/phone"
+import { formatInTimeZone } from "../utils/callingWindows"
+import { useDialer } from "../hooks/useDialer"
+import { useDoNotCallList } from "../hooks/useDoNotCallList"
+import { useI18n } from "../context/I18nContext"
+import type { MessageKey } from "../i18n"
+
+interface DialerPanelProps {
+  campaign: Campaign
+}
+
+// idle y stopped se muestran igual
+const statusLabels: Record<DialerStatus, MessageKey> = {
+  idle: "dialer.status.stopped",
+  running: "dialer.status.running",
+  paused: "dialer.status.paused",
+  stopped: "dialer.status.stopped",
+  finished: "dialer.status.finished",
+}
+
+const itemStateColors: Record<DialerItemState, string> = {
+  pending: "bg-gray-100 text-gray-800",
+  dialing: "bg-blue-100 text-blue-800",
+  retry_scheduled: "bg-yellow-100 text-yellow-800",
+  completed: "bg-green-100 text-green-800",
+  exhausted: "bg-red-100 text-red-800",
+  error: "bg-red-100 text-red-800",
+  blocked: "bg-gray-800 text-white",
+}
+
+// Valor de un campo numérico de la configuración. Vacío o a medio escribir no es un número: se conserva el anterior
+const parseSetting = (value: string, previous: number, min: number) => {
+  const parsed = Number.parseFloat(value)
+  return Number.isFinite(parsed) ? Math.max(min, parsed) : previous
+}
+
+const DialerPanel: React.FC<DialerPanelProps> = ({ campaign }) => {
+  const { state, provider, start, pause, resume, stop } = useDialer(campaign)
+  const { t, translateError, locale } = useI18n()
+  // Sin la lista de no llamar leída no se sabe a quién no llamar: no se puede iniciar
+  const doNotCallList = useDoNotCallList()
+  const [concurrency, setConcurrency] = useState(defaultDialerConfig.concurrency)
+  const [maxAttempts, setMaxAttempts] = useState(defaultDialerConfig.maxAttempts)
+  const [retryDelaySeconds, setRetryDelaySeconds] = useState(defaultDialerConfig.retryDelayMs / 1000)
+
+  const isRunning = state?.status === "running" || state?.status === "paused"
+  const items = state?.items ?? []
+  const doneCount = items.filter((item) => ["completed", "exhausted", "error", "blocked"].includes(item.state)).length
+
+  const handleStart = () => {
+    if (!doNotCallList.isSuccess) {
+      return
+    }
+    try {
+      start({ concurrency, maxAttempts, retryDelayMs: retryDelaySeconds * 1000 })
+    } catch (error) {
+      toast.error(translateError(error))
+    }
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+        <h3 className="text-xl font-semibold">{t("dialer.title")}</h3>
+        <span className="text-sm text-gray-600">
+          {t("dialer.provider", { name: provider.name })} · {t(statusLabels[state?.status ?? "idle"])}
+          {campaign.recordingStatus && ` · ${t("dialer.recording")}`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+        <label className="text-sm text-gray-700">
+          {t("dialer.concurrency")}
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={concurrency}
+            onChange={(e) => setConcurrency(parseSetting(e.target.value, concurrency, 1))}
+            className="mt-1 shadow border rounded w-full py-2 px-3"
+            disabled={isRunning}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          {t("dialer.maxAttempts")}
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={maxAttempts}
+            onChange={(e) => setMaxAttempts(parseSetting(e.target.value, maxAttempts, 1))}
+            className="mt-1 shadow border rounded w-full py-2 px-3"
+            disabled={isRunning}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          {t("dialer.retryDelay")}
+          <input
+            type="number"
+            min={0}
+            value={retryDelaySeconds}
+            onChange={(e) => setRetryDelaySeconds(parseSetting(e.target.value, retryDelaySeconds, 0))}
+            className="mt-1 shadow border rounded w-full py-2 px-3"
+            disabled={isRunning}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">{t("dialer.retryHint")}</p>
+      {state?.waitingForWindow !== undefined && campaign.callingWindow && (
+        <p className="text-sm bg-yellow-50 border border-yellow-200 text-yellow-800 rounded p-2 mb-4">
+          {state.waitingForWindow === null
+            ? t("dialer.noWindowsLeft")
+            : t("dialer.waitingForWindow", {
+                date: formatInTimeZone(new Date(state.waitingForWindow), campaign.callingWindow.timeZone, locale),
+                timeZone: campaign.callingWindow.timeZone,
+              })}
+        </p>
+      )}
+
+      {doNotCallList.isError && (
+        <p className="text-sm bg-red-50 border border-red-200 text-red-800 rounded p-2 mb-4">
+          {t("dialer.doNotCallUnavailable")}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {!isRunning && (
+          <button
+            onClick={handleStart}
+            disabled={!doNotCallList.isSuccess}
+            className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded disabled:opacity-50"
+          >
+            {doNotCallList.isLoading ? t("dialer.loadingDoNotCall") : t("dialer.start")}
+          </button>
+        )}
+        {state?.status === "running" && (
+          <button onClick={pause} className="bg-yellow-500 hover:bg-yellow-600 text-white font-bold py-2 px-4 rounded">
+            {t("dialer.pause")}
+          </button>
+        )}
+        {state?.status === "paused" && (
+          <button onClick={resume} className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded">
+            {t("dialer.resume")}
+          </button>
+        )}
+        {isRunning && (
+          <button onClick={stop} className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-4 rounded">
+            {t("dialer.stop")}
+          </button>
+        )}
+      </div>
+
+      {state ? (
+        items.length > 0 ? (
+          <>
+            <p className="text-sm text-gray-700 mb-2">
+              {t("dialer.progress", { count: doneCount, total: items.length })}
+            </p>
+            <ul className="space-y-1 max-h-80 overflow-y-auto">
+              {items.map((item) => (
+                <li key={item.personId} className="flex flex-wrap items-center gap-3 text-sm bg-gray-50 rounded p-2">
+                  <span className="font-medium flex-grow">{item.label}</span>
+                  <span className="text-gray-600">{formatPhoneForDisplay(item.phone)}</span>
+                  <span className="text-gray-600">{t("dialer.attempts", { count: item.attempts })}</span>
+                  {item.lastOutcome && (
+                    <span className="text-gray-600">{t(`callOutcome.${item.lastOutcome}`)}</span>
+                  )}
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${itemStateColors[item.state]}`}>
+                    {t(`dialer.item.${item.state}`)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <p className="text-gray-600 italic">{t("dialer.empty")}</p>
+        )
+      ) : (
+        <p className="text-gray-600 italic">{t("dialer.idleHint")}</p>
+      )}
+    </div>
+  )
+}
+
+export default DialerPanel
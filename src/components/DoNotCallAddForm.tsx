@@ -0,0 +1,98 @@
+import type React from "react"
+import { useState } from "react"
+import DatePicker from "react-datepicker"
+import { v4 as uuidv4 } from "uuid"
+import type { DoNotCallEntry } from "../types"
+import { createDoNotCallInputSchema, validate } from "../schemas"
+import type { DoNotCallInput, FieldErrors } from "../schemas"
+import { toTimestamp } from "../utils"
+import { toDoNotCallExpiry } from "../utils/doNotCall"
+import { DEFAULT_PHONE_COUNTRY } from "../utils/phone"
+import type { CountryCode } from "../utils/phone"
+import { DATE_FNS_LOCALES } from "../i18n"
+import { useI18n } from "../context/I18nContext"
+import PhoneInput from "./PhoneInput"
+
+export interface DoNotCallAddFormProps {
+  onAdd: (entry: DoNotCallEntry) => void
+}
+
+// Alta manual de un número; sin vencimiento queda bloqueado hasta que se lo quite
+const DoNotCallAddForm: React.FC<DoNotCallAddFormProps> = ({ onAdd }) => {
+  const { t, translateMessage, locale } = useI18n()
+  const [country, setCountry] = useState<CountryCode>(DEFAULT_PHONE_COUNTRY)
+  const [phone, setPhone] = useState("")
+  const [reason, setReason] = useState("")
+  const [expiresAt, setExpiresAt] = useState<Date | null>(null)
+  const [errors, setErrors] = useState<FieldErrors<DoNotCallInput>>({})
+
+  const handleAdd = () => {
+    const result = validate(createDoNotCallInputSchema(country), { phone, reason, expiresAt })
+    if (!result.success) {
+      setErrors(result.errors)
+      return
+    }
+    onAdd({
+      id: uuidv4(),
+      phone: result.data.phone,
+      reason: result.data.reason,
+      addedAt: toTimestamp(new Date()),
+      ...(result.data.expiresAt && { expiresAt: toDoNotCallExpiry(result.data.expiresAt) }),
+    })
+    setPhone("")
+    setReason("")
+    setExpiresAt(null)
+    setErrors({})
+  }
+
+  const fieldError = (field: keyof DoNotCallInput) =>
+    errors[field] && <p className="text-red-500 text-xs mt-0.5">{translateMessage(errors[field]!)}</p>
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-start">
+      <div>
+        <PhoneInput
+          value={phone}
+          country={country}
+          onChange={(value) => setPhone(value)}
+          onCountryChange={setCountry}
+          hasError={!!errors.phone}
+          inputClassName="w-full p-2 border rounded"
+        />
+        {fieldError("phone")}
+      </div>
+      <div className="sm:col-span-2">
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder={t("doNotCall.reason")}
+          aria-label={t("doNotCall.reason")}
+          className={`w-full p-2 border rounded ${errors.reason ? "border-red-500" : ""}`}
+        />
+        {fieldError("reason")}
+      </div>
+      <div>
+        <DatePicker
+          selected={expiresAt}
+          onChange={(date: Date | null) => setExpiresAt(date)}
+          locale={DATE_FNS_LOCALES[locale]}
+          dateFormat="P"
+          minDate={new Date()}
+          isClearable
+          placeholderText={t("doNotCall.noExpiry")}
+          className={`w-full p-2 border rounded ${errors.expiresAt ? "border-red-500" : ""}`}
+          wrapperClassName="w-full"
+        />
+        {fieldError("expiresAt")}
+      </div>
+      <div className="sm:col-span-4">
+        <button onClick={handleAdd} className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded">
+          {t("doNotCall.add")}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default DoNotCallAddForm
@@ -0,0 +1,15 @@
+import type React from "react"
+import { useI18n } from "../context/I18nContext"
+
+// Marca a una persona cuyo número está en la lista de no llamar
+const DoNotCallBadge: React.FC = () => {
+  const { t } = useI18n()
+
+  return (
+    <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-gray-800 text-white" title={t("doNotCall.badgeHint")}>
+      {t("doNotCall.badge")}
+    </span>
+  )
+}
+
+export default DoNotCallBadge
@@ -0,0 +1,118 @@
+import type React from "react"
+import { useState } from "react"
+import DatePicker from "react-datepicker"
+import type { DoNotCallEntry } from "../types"
+import { IMPORT_ACCEPTED_FILES, parsePeopleFile } from "../utils/peopleImport"
+import { parseDoNotCallRows } from "../utils/doNotCall"
+import type { DoNotCallImportResult } from "../utils/doNotCall"
+import { DATE_FNS_LOCALES } from "../i18n"
+import { useI18n } from "../context/I18nContext"
+
+export interface DoNotCallImportFormProps {
+  onImport: (entries: DoNotCallEntry[]) => void
+}
+
+// Carga una lista de exclusión desde un archivo. El motivo y el vencimiento se aplican a las filas que no los traen
+const DoNotCallImportForm: React.FC<DoNotCallImportFormProps> = ({ onImport }) => {
+  const { t, locale } = useI18n()
+  const [rows, setRows] = useState<string[][]>([])
+  const [fileName, setFileName] = useState("")
+  const [fileError, setFileError] = useState("")
+  const [isParsing, setIsParsing] = useState(false)
+  const [reason, setReason] = useState("")
+  const [expiresAt, setExpiresAt] = useState<Date | null>(null)
+  const [result, setResult] = useState<DoNotCallImportResult | null>(null)
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) {
+      return
+    }
+    setIsParsing(true)
+    setFileError("")
+    setResult(null)
+    try {
+      const parsedRows = await parsePeopleFile(file)
+      if (parsedRows.length === 0) {
+        setFileError(t("import.emptyFile"))
+        return
+      }
+      setFileName(file.name)
+      setRows(parsedRows)
+    } catch {
+      setFileError(t("import.readError"))
+    } finally {
+      setIsParsing(false)
+    }
+  }
+
+  const handleImport = () => {
+    const parsed = parseDoNotCallRows(rows, {
+      reason: reason.trim() || t("doNotCall.import.defaultReason"),
+      expiresAt,
+    })
+    if (parsed.entries.length > 0) {
+      onImport(parsed.entries)
+    }
+    setResult(parsed)
+    setRows([])
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">{t("doNotCall.import.hint")}</p>
+      <input
+        type="file"
+        accept={IMPORT_ACCEPTED_FILES}
+        onChange={handleFileChange}
+        className="block w-full text-sm text-gray-700"
+        disabled={isParsing}
+      />
+      {isParsing && <p className="text-sm text-gray-500">{t("import.reading")}</p>}
+      {fileError && <p className="text-red-500 text-xs">{fileError}</p>}
+      {rows.length > 0 && (
+        <>
+          <p className="text-sm text-gray-600">
+            {fileName}: {t("import.rows", { count: rows.length })}
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={t("doNotCall.import.reason")}
+              aria-label={t("doNotCall.import.reason")}
+              className="w-full p-2 border rounded sm:col-span-2"
+            />
+            <DatePicker
+              selected={expiresAt}
+              onChange={(date: Date | null) => setExpiresAt(date)}
+              locale={DATE_FNS_LOCALES[locale]}
+              dateFormat="P"
+              minDate={new Date()}
+              isClearable
+              placeholderText={t("doNotCall.noExpiry")}
+              className="w-full p-2 border rounded"
+              wrapperClassName="w-full"
+            />
+          </div>
+          <button
+            onClick={handleImport}
+            className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded"
+          >
+            {t("doNotCall.import.button")}
+          </button>
+        </>
+      )}
+      {result && (
+        <p className="text-sm text-gray-700">
+          {t("doNotCall.import.result", { count: result.entries.length, invalid: result.invalidRows.length })}
+          {result.invalidRows.length > 0 &&
+            ` ${t("doNotCall.import.invalidRows", { rows: result.invalidRows.slice(0, 20).join(", ") })}`}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default DoNotCallImportForm
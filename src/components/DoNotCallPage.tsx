@@ -0,0 +1,159 @@
+import { useMemo, useState } from "react"
+import { useQuery } from "react-query"
+import { Link } from "react-router-dom"
+import type { Campaign, DoNotCallEntry } from "../types"
+import { formatPhoneForDisplay } from "../utils/phone"
+import { getCampaignsWithPhone, isDoNotCallEntryActive } from "../utils/doNotCall"
+import { useCampaignRepository } from "../context/RepositoryContext"
+import { useAppPaths } from "../context/AppPathsContext"
+import { useI18n } from "../context/I18nContext"
+import { useDoNotCallList, useDoNotCallRegistry } from "../hooks/useDoNotCallList"
+import ConfirmationModal from "./ConfirmationModal"
+import DoNotCallAddForm from "./DoNotCallAddForm"
+import DoNotCallImportForm from "./DoNotCallImportForm"
+
+const matchesSearch = (entry: DoNotCallEntry, query: string) => {
+  const term = query.trim().toLowerCase()
+  const digits = term.replace(/\D/g, "")
+  return !term || entry.reason.toLowerCase().includes(term) || (!!digits && entry.phone.includes(digits))
+}
+
+const DoNotCallPage = () => {
+  const repository = useCampaignRepository()
+  const paths = useAppPaths()
+  const { t, formatDate } = useI18n()
+  const { entries, isLoading, isError } = useDoNotCallList()
+  const { addEntries, removeEntry } = useDoNotCallRegistry()
+  const [search, setSearch] = useState("")
+  const [removingEntry, setRemovingEntry] = useState<DoNotCallEntry | null>(null)
+
+  const { data: campaigns = [] } = useQuery<Campaign[], Error>("campaigns", () => repository.getAll())
+
+  const visibleEntries = useMemo(
+    () =>
+      entries.filter((entry) => matchesSearch(entry, search)).sort((a, b) => b.addedAt.localeCompare(a.addedAt)),
+    [entries, search],
+  )
+
+  const confirmRemove = () => {
+    if (removingEntry) {
+      removeEntry.mutate(removingEntry.id)
+    }
+    setRemovingEntry(null)
+  }
+
+  const backLink = (
+    <Link to={paths.home} className="text-blue-600 hover:text-blue-800">
+      ← {t("common.backToList")}
+    </Link>
+  )
+
+  if (isLoading) {
+    return <div>{t("doNotCall.loading")}</div>
+  }
+
+  if (isError) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6 text-center space-y-4">
+        <p className="text-gray-600">{t("doNotCall.loadError")}</p>
+        {backLink}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div>
+          <h2 className="text-2xl font-semibold mb-1">{t("doNotCall.title")}</h2>
+          <p className="text-sm text-gray-600">{t("doNotCall.description")}</p>
+        </div>
+        <div>
+          <h3 className="font-semibold mb-2">{t("doNotCall.addTitle")}</h3>
+          <DoNotCallAddForm onAdd={(entry) => addEntries.mutate([entry])} />
+        </div>
+        <div>
+          <h3 className="font-semibold mb-2">{t("doNotCall.import.title")}</h3>
+          <DoNotCallImportForm onImport={(imported) => addEntries.mutate(imported)} />
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <p className="text-sm text-gray-600 mb-4">{t("doNotCall.count", { count: entries.length })}</p>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={t("doNotCall.search")}
+          aria-label={t("doNotCall.search")}
+          className="w-full sm:max-w-md p-2 border rounded mb-4"
+        />
+
+        {entries.length === 0 ? (
+          <p className="text-gray-600 italic">{t("doNotCall.empty")}</p>
+        ) : visibleEntries.length === 0 ? (
+          <p className="text-gray-600 italic">{t("doNotCall.noMatches")}</p>
+        ) : (
+          <ul className="divide-y">
+            {visibleEntries.map((entry) => {
+              const isActive = isDoNotCallEntryActive(entry)
+              const campaignCount = getCampaignsWithPhone(campaigns, entry.phone).length
+              return (
+                <li
+                  key={entry.id}
+                  className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2"
+                >
+                  <div>
+                    <p>
+                      <span className="font-medium">{formatPhoneForDisplay(entry.phone)}</span>
+                      <span
+                        className={`ml-2 px-2 py-0.5 rounded-full text-xs ${
+                          isActive ? "bg-gray-800 text-white" : "bg-gray-200 text-gray-600"
+                        }`}
+                      >
+                        {isActive ? t("doNotCall.active") : t("doNotCall.expired")}
+                      </span>
+                    </p>
+                    <p className="text-sm text-gray-600">{entry.reason}</p>
+                    <p className="text-xs text-gray-500">
+                      {t("doNotCall.addedAt", { date: formatDate(entry.addedAt, "date") })}
+                      {" · "}
+                      {entry.expiresAt
+                        ? t("doNotCall.expiresOn", { date: formatDate(entry.expiresAt, "date") })
+                        : t("doNotCall.noExpiry")}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {isActive && campaignCount > 0 && (
+                      <span className="text-sm text-red-600">
+                        {t("doNotCall.inCampaigns", { count: campaignCount })}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => setRemovingEntry(entry)}
+                      className="bg-red-500 hover:bg-red-600 text-white font-bold py-1 px-3 rounded text-sm"
+                    >
+                      {t("doNotCall.remove")}
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+
+      <ConfirmationModal
+        isOpen={!!removingEntry}
+        onClose={() => setRemovingEntry(null)}
+        onConfirm={confirmRemove}
+        message={t("doNotCall.confirmRemove", {
+          phone: removingEntry ? formatPhoneForDisplay(removingEntry.phone) : "",
+        })}
+      />
+    </div>
+  )
+}
+
+export default DoNotCallPage
@@ -1,119 +1,175 @@
+import type React from "react"
 import { useState, useMemo } from "react"
 import { useQuery } from "react-query"
-import { getCampaigns, saveCampaigns, parseDate } from "../utils"
+import { Link, useLocation, useNavigate } from "react-router-dom"
+import { useCampaignRepository } from "../context/RepositoryContext"
+import { useAppPaths } from "../context/AppPathsContext"
+import { useI18n } from "../context/I18nContext"
+import { isMessageKey } from "../i18n"
+import { CampaignValidationError } from "../schemas"
+import { StorageMigrationError } from "../repositories/migrations"
 import CampaignForm from "./CampaignForm"
 import CampaignList from "./CampaignList"
-import type { Campaign, CampaignStatus } from "../types"
+import CampaignToolbar from "./CampaignToolbar"
+import CampaignSummary from "./CampaignSummary"
+import { useCampaignFilters } from "../hooks/useCampaignFilters"
+import { applyCampaignFilters, hasActiveFilters } from "../utils/campaignFilters"
+import { getLiveCampaigns } from "../utils/recycleBin"
+import type { Campaign } from "../types"
+
+interface HomePageProps {
+  // true en la ruta /campaigns/new, que abre el formulario sobre la lista
+  isCreating?: boolean
+}
 
-const HomePage = () => {
-  const [showForm, setShowForm] = useState(false)
+const HomePage: React.FC<HomePageProps> = ({ isCreating = false }) => {
+  const navigate = useNavigate()
+  const { search } = useLocation()
+  const paths = useAppPaths()
+  const [statsScope, setStatsScope] = useState<"all" | "filtered">("all")
+  const { filters, setFilters } = useCampaignFilters()
+  const repository = useCampaignRepository()
+  const { t, translateError, locale } = useI18n()
   // const queryClient = useQueryClient()
 
   const {
-    data: campaigns = [],
+    data: storedCampaigns = [],
     isLoading,
     isError,
-  } = useQuery<Campaign[]>(
+    isFetching,
+    error,
+    failureCount,
+    refetch,
+  } = useQuery<Campaign[], Error>(
     "campaigns",
-    async () => {
-      const fetchedCampaigns = await getCampaigns()
-
-      const updateCampaignStatuses = (campaigns: Campaign[]) => {
-        const now = Date.now()
-        let updated = false
-
-        const updatedCampaigns = campaigns.map((campaign) => {
-          const startDate = parseDate(campaign.startDate).getTime()
-          const endDate = parseDate(campaign.endDate).getTime()
-
-          let newStatus: CampaignStatus = campaign.status
-
-          if (campaign.status === "En espera" && now >= startDate) {
-            newStatus = "Activa"
-            updated = true
-          } else if (campaign.status === "Activa" && now >= endDate) {
-            newStatus = "Finalizada"
-            updated = true
-          }
-
-          return newStatus !== campaign.status ? { ...campaign, status: newStatus } : campaign
-        })
-
-        if (updated) {
-          saveCampaigns(updatedCampaigns)
-        }
-
-        return updatedCampaigns
-      }
-
-      return updateCampaignStatuses(fetchedCampaigns)
-    },
+    // Los cambios de estado por calendario los aplica el planificador, que invalida esta consulta
+    () => repository.getAll(),
     {
-      refetchInterval: 60000, // Revalidate every 60 seconds
+      // Un dato guardado inválido o una migración fallida no se corrigen reintentando
+      retry: (failureCount, error) =>
+        !(error instanceof CampaignValidationError || error instanceof StorageMigrationError) && failureCount < 3,
     },
   )
 
-  const campaignStats = useMemo(() => {
-    const totalPeople = campaigns.reduce((sum, campaign) => sum + campaign.people.length, 0)
-    const activeCampaigns = campaigns.filter((c) => c.status === "Activa").length
-    const finishedCampaigns = campaigns.filter((c) => c.status === "Finalizada").length
-    const waitingCampaigns = campaigns.filter((c) => c.status === "En espera").length
+  // Lo que está en la papelera no se lista, no se filtra ni cuenta en el resumen
+  const campaigns = useMemo(() => getLiveCampaigns(storedCampaigns), [storedCampaigns])
+  const trashCount = useMemo(
+    () =>
+      storedCampaigns.reduce(
+        (count, campaign) => count + (campaign.deletedAt ? 1 : campaign.deletedPeople?.length ?? 0),
+        0,
+      ),
+    [storedCampaigns],
+  )
+  const filteredCampaigns = useMemo(
+    () => applyCampaignFilters(campaigns, filters, locale),
+    [campaigns, filters, locale],
+  )
+  const isFiltered = hasActiveFilters(filters)
 
-    return { totalPeople, activeCampaigns, finishedCampaigns, waitingCampaigns }
-  }, [campaigns])
+  const statsCampaigns = statsScope === "filtered" ? filteredCampaigns : campaigns
 
-  const { totalPeople, activeCampaigns, finishedCampaigns, waitingCampaigns } = campaignStats
+  // Solo se muestran los errores con mensaje del catálogo; un texto suelto del origen de datos no está traducido
+  const describeLoadError = (error: Error) =>
+    isMessageKey(error.message) ? translateError(error) : t("home.loadErrorUnknown")
 
   if (isLoading) {
-    return <div>Cargando campañas...</div>
+    return (
+      <div className="text-center text-gray-600">
+        {t("home.loading")}
+        {failureCount > 0 && (
+          <p className="text-sm text-yellow-700 mt-2">{t("home.retrying", { count: failureCount, max: 3 })}</p>
+        )}
+      </div>
+    )
   }
 
   if (isError) {
-    return <div>Error al cargar las campañas. Por favor, intente de nuevo.</div>
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-4 text-center">
+        <p>{t("home.loadError")}</p>
+        {error && <p className="text-sm mt-1">{describeLoadError(error)}</p>}
+        <button
+          onClick={() => refetch()}
+          className="mt-3 bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-4 rounded"
+        >
+          {t("common.retry")}
+        </button>
+      </div>
+    )
   }
 
   return (
     <div>
+      {isFetching && <p className="text-sm text-gray-500 text-right mb-2">{t("common.refreshing")}</p>}
       <div className="bg-white shadow rounded-lg p-6 mb-8">
-        <h2 className="text-xl font-semibold mb-4">Resumen de Campañas</h2>
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-baseline gap-4">
+            <h2 className="text-xl font-semibold">{t("home.summary")}</h2>
+            <Link to={paths.dashboard} className="text-sm text-blue-600 hover:text-blue-800">
+              {t("home.dashboardLink")}
+            </Link>
+          </div>
+          {isFiltered && (
+            <select
+              value={statsScope}
+              onChange={(e) => setStatsScope(e.target.value as "all" | "filtered")}
+              className="border rounded py-1 px-2 text-sm text-gray-700"
+              aria-label={t("home.statsScope")}
+            >
+              <option value="all">{t("home.statsScope.all")}</option>
+              <option value="filtered">{t("home.statsScope.filtered")}</option>
+            </select>
+          )}
+        </div>
 
         {campaigns.length > 0 ? (
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            <div className="bg-blue-100 p-4 rounded-lg">
-              <p className="text-lg font-semibold">{totalPeople}</p>
-              <p className="text-sm text-gray-600">Personas a contactar</p>
-            </div>
-            <div className="bg-green-100 p-4 rounded-lg">
-              <p className="text-lg font-semibold">{activeCampaigns}</p>
-              <p className="text-sm text-gray-600">Campañas Activas</p>
-            </div>
-            <div className="bg-red-100 p-4 rounded-lg">
-              <p className="text-lg font-semibold">{finishedCampaigns}</p>
-              <p className="text-sm text-gray-600">Campañas Finalizadas</p>
-            </div>
-            <div className="bg-yellow-100 p-4 rounded-lg">
-              <p className="text-lg font-semibold">{waitingCampaigns}</p>
-              <p className="text-sm text-gray-600">Campañas En espera</p>
-            </div>
-          </div>
+          <CampaignSummary campaigns={statsCampaigns} />
         ) : (
-          <p className="text-center text-gray-600">No hay campañas creadas aún.</p>
+          <p className="text-center text-gray-600">{t("home.noCampaignsYet")}</p>
         )}
       </div>
       <div className="flex flex-col sm:flex-row justify-between items-center mb-6 space-y-4 sm:space-y-0">
-        <h2 className="text-2xl font-semibold">Lista de Campañas</h2>
-        <button
-          className="w-full sm:w-auto bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded"
-          onClick={() => setShowForm(true)}
-        >
-          Crear Nueva Campaña
-        </button>
+        <h2 className="text-2xl font-semibold">{t("home.list")}</h2>
+        <div className="flex w-full sm:w-auto items-center gap-4">
+          <Link to={paths.calendar} className="text-gray-600 hover:text-gray-800 whitespace-nowrap">
+            {t("home.calendarLink")}
+          </Link>
+          <Link to={paths.contacts} className="text-gray-600 hover:text-gray-800 whitespace-nowrap">
+            {t("home.contactsLink")}
+          </Link>
+          <Link to={paths.doNotCall} className="text-gray-600 hover:text-gray-800 whitespace-nowrap">
+            {t("home.doNotCallLink")}
+          </Link>
+          <Link to={paths.trash} className="text-gray-600 hover:text-gray-800 whitespace-nowrap">
+            {t("home.trashLink")}
+            {trashCount > 0 && ` (${trashCount})`}
+          </Link>
+          <button
+            className="w-full sm:w-auto bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded"
+            onClick={() => navigate({ pathname: paths.newCampaign, search })}
+          >
+            {t("home.newCampaign")}
+          </button>
+        </div>
       </div>
-      {showForm && <CampaignForm onClose={() => setShowForm(false)} />}
+      {isCreating && <CampaignForm onClose={() => navigate({ pathname: paths.home, search })} />}
+      {campaigns.length > 0 && (
+        <CampaignToolbar
+          filters={filters}
+          onChange={setFilters}
+          resultCount={filteredCampaigns.length}
+          totalCount={campaigns.length}
+        />
+      )}
       {campaigns.length > 0 ? (
-        <CampaignList campaigns={campaigns} />
+        filteredCampaigns.length > 0 ? (
+          <CampaignList campaigns={filteredCampaigns} />
+        ) : (
+          <p className="text-center text-gray-600">{t("home.noMatches")}</p>
+        )
       ) : (
-        <p className="text-center text-gray-600">No hay campañas creadas. ¡Crea tu primera campaña!</p>
+        <p className="text-center text-gray-600">{t("home.empty")}</p>
       )}
     </div>
   )
@@ -1,14 +1,17 @@
 import type React from "react"
+import { useI18n } from "../context/I18nContext"
 
 interface LayoutProps {
   children: React.ReactNode
 }
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
+  const { t } = useI18n()
+
   return (
     <div className="min-h-screen bg-gray-100" suppressHydrationWarning={true}>
       <div className="container mx-auto px-4 py-8">
-        <h1 className="text-3xl font-bold mb-8 text-center">Gestión de Campañas Telefónicas</h1>
+        <h1 className="text-3xl font-bold mb-8 text-center">{t("app.title")}</h1>
         {children}
       </div>
     </div>
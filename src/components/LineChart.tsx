@@ -0,0 +1,93 @@
+import type React from "react"
+import { useState } from "react"
+import { useSeriesVisibility } from "../hooks/useSeriesVisibility"
+import type { ChartSeries } from "./StackedBarChart"
+
+interface LineChartProps {
+  labels: string[]
+  series: ChartSeries[]
+  height?: number
+}
+
+const WIDTH = 600
+const PADDING = { top: 10, right: 10, bottom: 24, left: 32 }
+
+// Líneas en SVG con la misma interacción que StackedBarChart: valores al pasar el mouse y leyenda que filtra
+const LineChart: React.FC<LineChartProps> = ({ labels, series, height = 220 }) => {
+  const { isHidden, toggle } = useSeriesVisibility()
+  const [hovered, setHovered] = useState<number | null>(null)
+
+  const visible = series.filter((s) => !isHidden(s.key))
+  const max = Math.max(1, ...visible.flatMap((s) => s.values))
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = height - PADDING.top - PADDING.bottom
+  const step = labels.length > 1 ? plotWidth / (labels.length - 1) : 0
+  const x = (index: number) => PADDING.left + (labels.length > 1 ? index * step : plotWidth / 2)
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight
+  const labelStep = Math.max(1, Math.ceil(labels.length / 8))
+
+  // Índice del día más cercano al puntero, en coordenadas del viewBox
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const pointerX = ((event.clientX - bounds.left) / bounds.width) * WIDTH
+    const index = step > 0 ? Math.round((pointerX - PADDING.left) / step) : 0
+    setHovered(Math.min(labels.length - 1, Math.max(0, index)))
+  }
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full h-auto"
+        onMouseMove={labels.length > 0 ? handleMouseMove : undefined}
+        onMouseLeave={() => setHovered(null)}
+      >
+        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(0)} y2={y(0)} stroke="#d1d5db" />
+        <text x={PADDING.left - 4} y={y(max) + 4} textAnchor="end" fontSize="10" fill="#6b7280">
+          {max}
+        </text>
+        <text x={PADDING.left - 4} y={y(0)} textAnchor="end" fontSize="10" fill="#6b7280">
+          0
+        </text>
+        {hovered !== null && (
+          <line x1={x(hovered)} x2={x(hovered)} y1={PADDING.top} y2={y(0)} stroke="#9ca3af" strokeDasharray="4 2" />
+        )}
+        {visible.map((s) => (
+          <g key={s.key}>
+            <polyline
+              points={s.values.map((value, index) => `${x(index)},${y(value)}`).join(" ")}
+              fill="none"
+              stroke={s.color}
+              strokeWidth="2"
+            />
+            {hovered !== null && <circle cx={x(hovered)} cy={y(s.values[hovered] ?? 0)} r="3" fill={s.color} />}
+          </g>
+        ))}
+        {labels.map(
+          (label, index) =>
+            index % labelStep === 0 && (
+              <text key={label} x={x(index)} y={height - 8} textAnchor="middle" fontSize="10" fill="#6b7280">
+                {label}
+              </text>
+            ),
+        )}
+      </svg>
+      <div className="flex flex-wrap items-center gap-3 text-sm mt-2">
+        {series.map((s) => (
+          <button
+            key={s.key}
+            onClick={() => toggle(s.key)}
+            className={`flex items-center gap-1 ${isHidden(s.key) ? "opacity-40" : ""}`}
+          >
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: s.color }} />
+            {s.label}
+            {hovered !== null && !isHidden(s.key) && <strong>: {s.values[hovered] ?? 0}</strong>}
+          </button>
+        ))}
+        {hovered !== null && <span className="text-gray-500 ml-auto">{labels[hovered]}</span>}
+      </div>
+    </div>
+  )
+}
+
+export default LineChart
@@ -0,0 +1,296 @@
+import type React from "react"
+import { useMemo, useState } from "react"
+import type { ImportColumnMapping, ImportSummary, ImportablePersonField, Person } from "../types"
+import type { MessageKey } from "../i18n"
+import {
+  IMPORT_ACCEPTED_FILES,
+  guessColumnMapping,
+  parsePeopleFile,
+  summarizeImport,
+  validateImportRows,
+} from "../utils/peopleImport"
+import { DEFAULT_PHONE_COUNTRY, getPhoneCountries } from "../utils/phone"
+import type { CountryCode } from "../utils/phone"
+import { useI18n } from "../context/I18nContext"
+import { useDoNotCallList } from "../hooks/useDoNotCallList"
+
+interface PeopleImportModalProps {
+  existingPeople: Person[]
+  onImport: (people: Person[]) => void
+  onClose: () => void
+}
+
+const fieldLabels: Record<ImportablePersonField, MessageKey> = {
+  name: "people.name",
+  lastName: "people.lastName",
+  phone: "people.phone",
+}
+
+// Solo se dibuja una parte de la vista previa; la validación y la importación cubren todas las filas
+const PREVIEW_LIMIT = 200
+
+const PeopleImportModal: React.FC<PeopleImportModalProps> = ({ existingPeople, onImport, onClose }) => {
+  const [fileName, setFileName] = useState("")
+  const [rows, setRows] = useState<string[][]>([])
+  const [hasHeaderRow, setHasHeaderRow] = useState(true)
+  const [mapping, setMapping] = useState<ImportColumnMapping>({ name: null, lastName: null, phone: null })
+  const [fileError, setFileError] = useState("")
+  const [isParsing, setIsParsing] = useState(false)
+  const [summary, setSummary] = useState<ImportSummary | null>(null)
+  const [defaultCountry, setDefaultCountry] = useState<CountryCode>(DEFAULT_PHONE_COUNTRY)
+  const { t, translateMessage, locale } = useI18n()
+  const { isBlocked } = useDoNotCallList()
+
+  const headers = useMemo(() => {
+    const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0)
+    return Array.from({ length: columnCount }, (_, index) =>
+      hasHeaderRow && rows[0]?.[index] ? rows[0][index] : t("import.column", { number: index + 1 }),
+    )
+  }, [rows, hasHeaderRow, t])
+
+  const isMappingComplete = mapping.name !== null && mapping.lastName !== null && mapping.phone !== null
+
+  const results = useMemo(() => {
+    if (!isMappingComplete) {
+      return []
+    }
+    const dataRows = hasHeaderRow ? rows.slice(1) : rows
+    return validateImportRows(dataRows, mapping, existingPeople, hasHeaderRow ? 2 : 1, defaultCountry, isBlocked)
+  }, [rows, hasHeaderRow, mapping, existingPeople, isMappingComplete, defaultCountry, isBlocked])
+
+  const preview = useMemo(() => summarizeImport(results), [results])
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) {
+      return
+    }
+    setIsParsing(true)
+    setFileError("")
+    try {
+      const parsedRows = await parsePeopleFile(file)
+      if (parsedRows.length === 0) {
+        setFileError(t("import.emptyFile"))
+        return
+      }
+      setFileName(file.name)
+      setRows(parsedRows)
+      setMapping(guessColumnMapping(hasHeaderRow ? parsedRows[0] : []))
+    } catch {
+      setFileError(t("import.readError"))
+    } finally {
+      setIsParsing(false)
+    }
+  }
+
+  const handleImport = () => {
+    const people = results.flatMap((result) => (result.person ? [result.person] : []))
+    onImport(people)
+    setSummary(summarizeImport(results))
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 overflow-y-auto h-full w-full flex items-center justify-center z-50 p-4">
+      <div className="relative bg-white w-full max-w-3xl mx-auto p-6 rounded-lg shadow-xl overflow-y-auto max-h-[90vh]">
+        <button onClick={onClose} className="absolute top-2 right-2 text-gray-500 hover:text-gray-700">
+          <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+        <h3 className="text-lg font-medium leading-6 text-gray-900 mb-4">{t("import.title")}</h3>
+
+        {summary ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <div className="bg-green-100 p-4 rounded-lg">
+                <p className="text-lg font-semibold">{summary.imported}</p>
+                <p className="text-sm text-gray-600">{t("import.summary.imported")}</p>
+              </div>
+              <div className="bg-red-100 p-4 rounded-lg">
+                <p className="text-lg font-semibold">{summary.skipped}</p>
+                <p className="text-sm text-gray-600">{t("import.summary.skipped")}</p>
+              </div>
+              <div className="bg-yellow-100 p-4 rounded-lg">
+                <p className="text-lg font-semibold">{summary.duplicates}</p>
+                <p className="text-sm text-gray-600">{t("import.summary.duplicates")}</p>
+              </div>
+              <div className="bg-gray-200 p-4 rounded-lg">
+                <p className="text-lg font-semibold">{summary.blocked}</p>
+                <p className="text-sm text-gray-600">{t("import.summary.blocked")}</p>
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <button onClick={onClose} className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded">
+                {t("common.close")}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <input
+                type="file"
+                accept={IMPORT_ACCEPTED_FILES}
+                onChange={handleFileChange}
+                className="block w-full text-sm text-gray-700"
+                disabled={isParsing}
+              />
+              {isParsing && <p className="text-sm text-gray-500 mt-1">{t("import.reading")}</p>}
+              {fileError && <p className="text-red-500 text-xs mt-1">{fileError}</p>}
+              {fileName && !fileError && (
+                <p className="text-sm text-gray-600 mt-1">
+                  {fileName}: {t("import.rows", { count: hasHeaderRow ? rows.length - 1 : rows.length })}
+                </p>
+              )}
+            </div>
+
+            {rows.length > 0 && (
+              <>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={hasHeaderRow}
+                    onChange={(e) => setHasHeaderRow(e.target.checked)}
+                    className="form-checkbox h-5 w-5 text-blue-600"
+                  />
+                  <span className="ml-2 text-gray-700">{t("import.hasHeaderRow")}</span>
+                </label>
+
+                <div>
+                  <label className="block text-gray-700 text-sm font-bold mb-2" htmlFor="import-country">
+                    {t("import.defaultCountry")}
+                  </label>
+                  <select
+                    id="import-country"
+                    value={defaultCountry}
+                    onChange={(e) => setDefaultCountry(e.target.value as CountryCode)}
+                    className="shadow border rounded w-full py-2 px-3 text-gray-700 focus:outline-none focus:shadow-outline"
+                  >
+                    {getPhoneCountries(locale).map((option) => (
+                      <option key={option.code} value={option.code}>
+                        {option.name} (+{option.callingCode})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  {(Object.keys(fieldLabels) as ImportablePersonField[]).map((field) => (
+                    <div key={field}>
+                      <label className="block text-gray-700 text-sm font-bold mb-2" htmlFor={`import-${field}`}>
+                        {t(fieldLabels[field])}
+                      </label>
+                      <select
+                        id={`import-${field}`}
+                        value={mapping[field] ?? ""}
+                        onChange={(e) =>
+                          setMapping({ ...mapping, [field]: e.target.value === "" ? null : Number(e.target.value) })
+                        }
+                        className="shadow border rounded w-full py-2 px-3 text-gray-700 focus:outline-none focus:shadow-outline"
+                      >
+                        <option value="">{t("import.selectColumn")}</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>
+                            {header}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+
+                {isMappingComplete ? (
+                  <>
+                    <p className="text-sm text-gray-700">
+                      {t("import.preview", {
+                        valid: preview.imported,
+                        invalid: preview.skipped,
+                        duplicates: preview.duplicates,
+                        blocked: preview.blocked,
+                      })}
+                    </p>
+                    <div className="overflow-auto max-h-[320px] border rounded">
+                      <table className="min-w-full text-left text-sm">
+                        <thead className="bg-gray-100 text-gray-600 sticky top-0">
+                          <tr>
+                            <th className="py-2 px-3">{t("import.row")}</th>
+                            <th className="py-2 px-3">{t("people.name")}</th>
+                            <th className="py-2 px-3">{t("people.lastName")}</th>
+                            <th className="py-2 px-3">{t("people.phone")}</th>
+                            <th className="py-2 px-3">{t("import.result")}</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {results.slice(0, PREVIEW_LIMIT).map((result) => {
+                            const row = rows[result.rowNumber - 1]
+                            return (
+                              <tr
+                                key={result.rowNumber}
+                                className={`border-t ${
+                                  result.person
+                                    ? ""
+                                    : result.duplicate
+                                      ? "bg-yellow-50"
+                                      : result.blocked
+                                        ? "bg-gray-100"
+                                        : "bg-red-50"
+                                }`}
+                              >
+                                <td className="py-1 px-3 text-gray-500">{result.rowNumber}</td>
+                                <td className="py-1 px-3">{row[mapping.name!]}</td>
+                                <td className="py-1 px-3">{row[mapping.lastName!]}</td>
+                                <td className="py-1 px-3">{row[mapping.phone!]}</td>
+                                <td className="py-1 px-3">
+                                  {result.person ? (
+                                    <span className="text-green-700">OK</span>
+                                  ) : (
+                                    <ul className="text-red-600 text-xs">
+                                      {result.errors.map((error) => (
+                                        <li key={error}>{translateMessage(error)}</li>
+                                      ))}
+                                    </ul>
+                                  )}
+                                </td>
+                              </tr>
+                            )
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                    {results.length > PREVIEW_LIMIT && (
+                      <p className="text-xs text-gray-500">
+                        {t("import.previewLimit", { count: PREVIEW_LIMIT, total: results.length })}
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-600">{t("import.mappingHint")}</p>
+                )}
+              </>
+            )}
+
+            <div className="flex items-center justify-between">
+              <button
+                onClick={handleImport}
+                className={`bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded ${
+                  preview.imported === 0 ? "opacity-50 cursor-not-allowed" : ""
+                }`}
+                disabled={preview.imported === 0}
+              >
+                {t("import.submit", { count: preview.imported })}
+              </button>
+              <button
+                onClick={onClose}
+                className="bg-gray-500 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded"
+              >
+                {t("common.cancel")}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default PeopleImportModal
@@ -0,0 +1,54 @@
+import type React from "react"
+import { useI18n } from "../context/I18nContext"
+import { formatPhoneAsYouType, getPhoneCountries } from "../utils/phone"
+import type { CountryCode } from "../utils/phone"
+
+interface PhoneInputProps {
+  value: string
+  country: CountryCode
+  onChange: (value: string, country: CountryCode) => void
+  onCountryChange: (country: CountryCode) => void
+  hasError?: boolean
+  inputClassName?: string
+}
+
+const PhoneInput: React.FC<PhoneInputProps> = ({
+  value,
+  country,
+  onChange,
+  onCountryChange,
+  hasError = false,
+  inputClassName = "",
+}) => {
+  const { t, locale } = useI18n()
+
+  return (
+    <div className="flex gap-2">
+      <select
+        value={country}
+        onChange={(e) => {
+          const newCountry = e.target.value as CountryCode
+          onCountryChange(newCountry)
+          onChange(formatPhoneAsYouType(value, newCountry), newCountry)
+        }}
+        className="border rounded py-2 px-1 text-gray-700 w-28 shrink-0"
+        aria-label={t("phone.country")}
+      >
+        {getPhoneCountries(locale).map((option) => (
+          <option key={option.code} value={option.code}>
+            {option.code} +{option.callingCode}
+          </option>
+        ))}
+      </select>
+      <input
+        type="tel"
+        value={value}
+        onChange={(e) => onChange(formatPhoneAsYouType(e.target.value, country), country)}
+        placeholder={t("phone.placeholder")}
+        className={`${inputClassName} ${hasError ? "border-red-500" : ""}`}
+      />
+    </div>
+  )
+}
+
+export default PhoneInput
@@ -0,0 +1,90 @@
+import type React from "react"
+import { useState } from "react"
+import type { Campaign, ResumePolicy } from "../types"
+import { parseTimestamp } from "../utils"
+import { canTransition, DEFAULT_RESUME_POLICY } from "../utils/statusMachine"
+import { useI18n } from "../context/I18nContext"
+
+interface ResumeCampaignModalProps {
+  campaign: Campaign
+  onClose: () => void
+  onConfirm: (policy: ResumePolicy) => void
+}
+
+const resumePolicies: ResumePolicy[] = ["keep", "extend"]
+
+const ResumeCampaignModal: React.FC<ResumeCampaignModalProps> = ({ campaign, onClose, onConfirm }) => {
+  const [policy, setPolicy] = useState<ResumePolicy>(DEFAULT_RESUME_POLICY)
+  const [now] = useState(() => new Date())
+  const { t, formatDate } = useI18n()
+
+  // Fecha de fin resultante con cada política, para que el operador vea el efecto antes de elegir
+  const getEndDatePreview = (option: ResumePolicy) => {
+    if (option === "keep" || !campaign.pausedAt) {
+      return formatDate(campaign.endDate)
+    }
+    const pausedMs = Math.max(0, now.getTime() - parseTimestamp(campaign.pausedAt).getTime())
+    return formatDate(new Date(parseTimestamp(campaign.endDate).getTime() + pausedMs))
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full">
+        <h2 className="text-xl font-bold mb-2">{t("resume.title")}</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {t("resume.description", {
+            name: campaign.name,
+            date: campaign.pausedAt ? formatDate(campaign.pausedAt) : "—",
+          })}
+        </p>
+        <div className="space-y-2 mb-6">
+          {resumePolicies.map((option) => {
+            const { allowed, reason } = canTransition(campaign, "resume", "manual", now, { resumePolicy: option })
+            return (
+              <label
+                key={option}
+                className={`flex items-start gap-2 border rounded p-3 ${
+                  allowed ? "cursor-pointer hover:bg-gray-50" : "opacity-50 cursor-not-allowed"
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="resumePolicy"
+                  value={option}
+                  checked={policy === option}
+                  onChange={() => setPolicy(option)}
+                  disabled={!allowed}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block font-medium">{t(`resume.policy.${option}`)}</span>
+                  <span className="block text-sm text-gray-600">
+                    {allowed
+                      ? t("resume.newEndDate", { date: getEndDatePreview(option) })
+                      : reason && t(reason)}
+                  </span>
+                </span>
+              </label>
+            )
+          })}
+        </div>
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-300 text-gray-800 rounded hover:bg-gray-400 transition-colors"
+          >
+            {t("common.cancel")}
+          </button>
+          <button
+            onClick={() => onConfirm(policy)}
+            className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 transition-colors"
+          >
+            {t("transition.resume")}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ResumeCampaignModal
@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useState } from "react"
+import { Link, useNavigate } from "react-router-dom"
+import type { Campaign } from "../types"
+import { getStatusBadgeColor } from "../utils"
+import { CAMPAIGN_STATUSES } from "../utils/campaignFilters"
+import { getVisibleDays, shiftVisibleDate } from "../utils/campaignSchedule"
+import type { ScheduleView } from "../utils/campaignSchedule"
+import { useAppPaths } from "../context/AppPathsContext"
+import { useI18n } from "../context/I18nContext"
+import { useCampaigns } from "../hooks/useCampaigns"
+import { useRescheduleCampaign } from "../hooks/useRescheduleCampaign"
+import CampaignCalendar from "./CampaignCalendar"
+import CampaignTimeline from "./CampaignTimeline"
+
+const SCHEDULE_VIEWS: ScheduleView[] = ["month", "week", "timeline"]
+
+// La marca de "ahora" avanza sola mientras la vista está abierta
+const NOW_REFRESH_MS = 60 * 1000
+
+const SchedulePage = () => {
+  const paths = useAppPaths()
+  const navigate = useNavigate()
+  const reschedule = useRescheduleCampaign()
+  const { t, formatDate } = useI18n()
+  const [view, setView] = useState<ScheduleView>("month")
+  const [visibleDate, setVisibleDate] = useState(() => new Date())
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), NOW_REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  const { campaigns, isLoading, isError } = useCampaigns()
+  const days = useMemo(() => getVisibleDays(visibleDate, view), [visibleDate, view])
+
+  const openCampaign = (campaign: Campaign) => navigate(paths.campaign(campaign.id))
+
+  const title =
+    view === "week"
+      ? t("schedule.weekTitle", {
+          from: formatDate(days[0], "dayMonth"),
+          to: formatDate(days[days.length - 1], "date"),
+        })
+      : formatDate(visibleDate, "monthYear")
+
+  const backLink = (
+    <Link to={paths.home} className="text-blue-600 hover:text-blue-800">
+      ← {t("common.backToList")}
+    </Link>
+  )
+
+  if (isLoading) {
+    return <div>{t("schedule.loading")}</div>
+  }
+
+  if (isError) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6 text-center space-y-4">
+        <p className="text-gray-600">{t("home.loadError")}</p>
+        {backLink}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setVisibleDate(shiftVisibleDate(visibleDate, view, -1))}
+              className="border rounded py-1 px-3 hover:bg-gray-100"
+              aria-label={t("schedule.previous")}
+            >
+              ‹
+            </button>
+            <button onClick={() => setVisibleDate(new Date())} className="border rounded py-1 px-3 hover:bg-gray-100">
+              {t("schedule.today")}
+            </button>
+            <button
+              onClick={() => setVisibleDate(shiftVisibleDate(visibleDate, view, 1))}
+              className="border rounded py-1 px-3 hover:bg-gray-100"
+              aria-label={t("schedule.next")}
+            >
+              ›
+            </button>
+            <h2 className="text-xl font-semibold ml-2 first-letter:uppercase">{title}</h2>
+          </div>
+          <div className="flex rounded border overflow-hidden text-sm">
+            {SCHEDULE_VIEWS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`py-1 px-3 ${view === option ? "bg-blue-500 text-white" : "hover:bg-gray-100"}`}
+              >
+                {t(`schedule.view.${option}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs mb-4">
+          {CAMPAIGN_STATUSES.map((status) => (
+            <span key={status} className={`px-2 py-1 rounded-full ${getStatusBadgeColor(status)}`}>
+              {t(`status.${status}`)}
+            </span>
+          ))}
+          <span className="text-gray-500 ml-2">{t("schedule.dragHint")}</span>
+        </div>
+        {view === "timeline" ? (
+          <CampaignTimeline
+            campaigns={campaigns}
+            days={days}
+            now={now}
+            onOpen={openCampaign}
+            onReschedule={reschedule}
+          />
+        ) : (
+          <CampaignCalendar
+            campaigns={campaigns}
+            days={days}
+            month={visibleDate}
+            view={view}
+            now={now}
+            onOpen={openCampaign}
+            onReschedule={reschedule}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default SchedulePage
@@ -0,0 +1,103 @@
+import type React from "react"
+import { useState } from "react"
+import { useSeriesVisibility } from "../hooks/useSeriesVisibility"
+
+export interface ChartSeries {
+  key: string
+  label: string
+  // Color de relleno o trazo en formato CSS
+  color: string
+  values: number[]
+}
+
+interface StackedBarChartProps {
+  labels: string[]
+  series: ChartSeries[]
+  height?: number
+}
+
+const WIDTH = 600
+const PADDING = { top: 10, right: 10, bottom: 24, left: 32 }
+
+// Barras apiladas en SVG. Al pasar el mouse por una columna se ven sus valores; la leyenda oculta o muestra series
+const StackedBarChart: React.FC<StackedBarChartProps> = ({ labels, series, height = 220 }) => {
+  const { isHidden, toggle } = useSeriesVisibility()
+  const [hovered, setHovered] = useState<number | null>(null)
+
+  const visible = series.filter((s) => !isHidden(s.key))
+  const totals = labels.map((_, index) => visible.reduce((sum, s) => sum + (s.values[index] ?? 0), 0))
+  const max = Math.max(1, ...totals)
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = height - PADDING.top - PADDING.bottom
+  const columnWidth = labels.length > 0 ? plotWidth / labels.length : plotWidth
+  const barWidth = Math.max(1, columnWidth * 0.7)
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight
+  // Unas pocas etiquetas en el eje x para que no se encimen
+  const labelStep = Math.max(1, Math.ceil(labels.length / 8))
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" onMouseLeave={() => setHovered(null)}>
+        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(0)} y2={y(0)} stroke="#d1d5db" />
+        <text x={PADDING.left - 4} y={y(max) + 4} textAnchor="end" fontSize="10" fill="#6b7280">
+          {max}
+        </text>
+        <text x={PADDING.left - 4} y={y(0)} textAnchor="end" fontSize="10" fill="#6b7280">
+          0
+        </text>
+        {labels.map((label, index) => {
+          const x = PADDING.left + index * columnWidth
+          let offset = 0
+          return (
+            <g key={label} onMouseEnter={() => setHovered(index)}>
+              <rect
+                x={x}
+                y={PADDING.top}
+                width={columnWidth}
+                height={plotHeight}
+                fill={hovered === index ? "#f3f4f6" : "transparent"}
+              />
+              {visible.map((s) => {
+                const value = s.values[index] ?? 0
+                const top = y(offset + value)
+                const bottom = y(offset)
+                offset += value
+                return (
+                  <rect
+                    key={s.key}
+                    x={x + (columnWidth - barWidth) / 2}
+                    y={top}
+                    width={barWidth}
+                    height={bottom - top}
+                    fill={s.color}
+                  />
+                )
+              })}
+              {index % labelStep === 0 && (
+                <text x={x + columnWidth / 2} y={height - 8} textAnchor="middle" fontSize="10" fill="#6b7280">
+                  {label}
+                </text>
+              )}
+            </g>
+          )
+        })}
+      </svg>
+      <div className="flex flex-wrap items-center gap-3 text-sm mt-2">
+        {series.map((s) => (
+          <button
+            key={s.key}
+            onClick={() => toggle(s.key)}
+            className={`flex items-center gap-1 ${isHidden(s.key) ? "opacity-40" : ""}`}
+          >
+            <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: s.color }} />
+            {s.label}
+            {hovered !== null && !isHidden(s.key) && <strong>: {s.values[hovered] ?? 0}</strong>}
+          </button>
+        ))}
+        {hovered !== null && <span className="text-gray-500 ml-auto">{labels[hovered]}</span>}
+      </div>
+    </div>
+  )
+}
+
+export default StackedBarChart
@@ -0,0 +1,184 @@
+import { useMemo, useState } from "react"
+import { useQuery } from "react-query"
+import { Link } from "react-router-dom"
+import type { Campaign, Person } from "../types"
+import { getStatusBadgeColor } from "../utils"
+import { formatPhoneForDisplay } from "../utils/phone"
+import { getLiveCampaigns, getPurgeDate, isDeleted } from "../utils/recycleBin"
+import { useCampaignRepository } from "../context/RepositoryContext"
+import { useAppPaths } from "../context/AppPathsContext"
+import { useI18n } from "../context/I18nContext"
+import { useTrashRetentionDays } from "../context/TrashRetentionContext"
+import { useRecycleBin } from "../hooks/useRecycleBin"
+import ConfirmationModal from "./ConfirmationModal"
+
+interface DeletedPersonRow {
+  campaign: Campaign
+  person: Person
+}
+
+type PendingPurge = { kind: "campaign"; campaign: Campaign } | ({ kind: "person" } & DeletedPersonRow)
+
+const TrashPage = () => {
+  const repository = useCampaignRepository()
+  const paths = useAppPaths()
+  const retentionDays = useTrashRetentionDays()
+  const recycleBin = useRecycleBin()
+  const { t, formatDate } = useI18n()
+  const [pendingPurge, setPendingPurge] = useState<PendingPurge | null>(null)
+
+  const { data: campaigns = [], isLoading, isError } = useQuery<Campaign[], Error>("campaigns", () =>
+    repository.getAll(),
+  )
+
+  const deletedCampaigns = useMemo(() => campaigns.filter(isDeleted), [campaigns])
+  // Las personas de una campaña en papelera vuelven con ella, así que solo se listan las de campañas vivas
+  const deletedPeople = useMemo(
+    () =>
+      getLiveCampaigns(campaigns).flatMap((campaign) =>
+        (campaign.deletedPeople ?? []).map((person) => ({ campaign, person })),
+      ),
+    [campaigns],
+  )
+
+  const confirmPurge = () => {
+    if (pendingPurge?.kind === "campaign") {
+      recycleBin.purgeCampaign.mutate(pendingPurge.campaign)
+    } else if (pendingPurge?.kind === "person") {
+      recycleBin.purgeDeletedPerson.mutate({ campaignId: pendingPurge.campaign.id, personId: pendingPurge.person.id })
+    }
+    setPendingPurge(null)
+  }
+
+  const purgeNotice = (deletedAt: string | undefined) =>
+    deletedAt && t("trash.purgeNotice", { date: formatDate(getPurgeDate(deletedAt, retentionDays)) })
+
+  const backLink = (
+    <Link to={paths.home} className="text-blue-600 hover:text-blue-800">
+      ← {t("common.backToList")}
+    </Link>
+  )
+
+  if (isLoading) {
+    return <div>{t("trash.loading")}</div>
+  }
+
+  if (isError) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6 text-center space-y-4">
+        <p className="text-gray-600">{t("trash.loadError")}</p>
+        {backLink}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-2xl font-semibold mb-1">{t("trash.title")}</h2>
+        <p className="text-sm text-gray-600 mb-6">
+          {t("trash.retention", { count: retentionDays })}
+        </p>
+
+        <h3 className="text-xl font-semibold mb-3">{t("trash.campaigns")}</h3>
+        {deletedCampaigns.length > 0 ? (
+          <ul className="divide-y mb-8">
+            {deletedCampaigns.map((campaign) => (
+              <li key={campaign.id} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Link to={paths.campaign(campaign.id)} className="font-medium hover:text-blue-600 hover:underline">
+                      {campaign.name}
+                    </Link>
+                    <span className={`px-2 py-1 rounded-full text-xs ${getStatusBadgeColor(campaign.status)}`}>
+                      {t(`status.${campaign.status}`)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {t("trash.campaignDeletedAt", { date: formatDate(campaign.deletedAt!) })}{" "}
+                    {purgeNotice(campaign.deletedAt)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => recycleBin.restoreCampaignFromTrash.mutate(campaign.id)}
+                    className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-1 px-3 rounded text-sm"
+                  >
+                    {t("trash.restore")}
+                  </button>
+                  <button
+                    onClick={() => setPendingPurge({ kind: "campaign", campaign })}
+                    className="bg-red-500 hover:bg-red-600 text-white font-bold py-1 px-3 rounded text-sm"
+                  >
+                    {t("trash.purge")}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-600 italic mb-8">{t("trash.noCampaigns")}</p>
+        )}
+
+        <h3 className="text-xl font-semibold mb-3">{t("trash.people")}</h3>
+        {deletedPeople.length > 0 ? (
+          <ul className="divide-y">
+            {deletedPeople.map(({ campaign, person }) => (
+              <li
+                key={`${campaign.id}-${person.id}`}
+                className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2"
+              >
+                <div>
+                  <p className="font-medium">
+                    {person.name} {person.lastName}{" "}
+                    <span className="text-sm text-gray-600 font-normal">{formatPhoneForDisplay(person.phone)}</span>
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {t("trash.personFrom")}{" "}
+                    <Link to={paths.campaign(campaign.id)} className="hover:text-blue-600 hover:underline">
+                      {campaign.name}
+                    </Link>
+                    {person.deletedAt && t("trash.personDeletedAt", { date: formatDate(person.deletedAt) })}.{" "}
+                    {purgeNotice(person.deletedAt)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() =>
+                      recycleBin.restorePersonFromTrash.mutate({ campaignId: campaign.id, personId: person.id })
+                    }
+                    className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-1 px-3 rounded text-sm"
+                  >
+                    {t("trash.restore")}
+                  </button>
+                  <button
+                    onClick={() => setPendingPurge({ kind: "person", campaign, person })}
+                    className="bg-red-500 hover:bg-red-600 text-white font-bold py-1 px-3 rounded text-sm"
+                  >
+                    {t("trash.purge")}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-600 italic">{t("trash.noPeople")}</p>
+        )}
+      </div>
+
+      <ConfirmationModal
+        isOpen={!!pendingPurge}
+        onClose={() => setPendingPurge(null)}
+        onConfirm={confirmPurge}
+        message={
+          pendingPurge?.kind === "campaign"
+            ? t("trash.confirmPurgeCampaign", { name: pendingPurge.campaign.name })
+            : t("trash.confirmPurgePerson", { name: `${pendingPurge?.person.name} ${pendingPurge?.person.lastName}` })
+        }
+      />
+    </div>
+  )
+}
+
+export default TrashPage
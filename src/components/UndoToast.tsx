@@ -0,0 +1,35 @@
+import type React from "react"
+import toast from "react-hot-toast"
+import type { Toast } from "react-hot-toast"
+import { useI18n } from "../context/I18nContext"
+
+// Tiempo durante el que se puede deshacer una acción destructiva
+export const UNDO_WINDOW_MS = 6000
+
+interface UndoToastProps {
+  toast: Toast
+  message: string
+  onUndo: () => void
+}
+
+// Uso: toast((shown) => <UndoToast toast={shown} message="..." onUndo={...} />, { duration: UNDO_WINDOW_MS })
+const UndoToast: React.FC<UndoToastProps> = ({ toast: current, message, onUndo }) => {
+  const { t } = useI18n()
+
+  return (
+    <span className="flex items-center gap-3">
+      {message}
+      <button
+        onClick={() => {
+          toast.dismiss(current.id)
+          onUndo()
+        }}
+        className="text-blue-600 hover:text-blue-800 font-semibold"
+      >
+        {t("common.undo")}
+      </button>
+    </span>
+  )
+}
+
+export default UndoToast
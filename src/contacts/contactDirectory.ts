@@ -0,0 +1,128 @@
+import type { Campaign, CampaignRepository, Contact, ContactRepository, DoNotCallRepository } from "../types"
+import { ConflictError } from "../repositories/conflicts"
+import { toTimestamp } from "../utils"
+import { getBlockedPhones, isPhoneBlocked } from "../utils/doNotCall"
+import {
+  applyContactToCampaign,
+  createContactFromPerson,
+  getCampaignPeople,
+  mergeContactsInCampaign,
+  usesContact,
+} from "../utils/contacts"
+import { isSamePhoneNumber } from "../utils/phone"
+
+// Campañas reescritas al copiar un cambio del directorio y las que no se pudieron guardar
+export interface ContactPropagation {
+  updated: Campaign[]
+  failed: { campaign: Campaign; error: unknown }[]
+}
+
+// Reescribe cada campaña que usa alguno de los contactos, sobre la versión guardada. Un conflicto se reintenta
+// una vez sobre la versión que lo provocó; cualquier otro error se anota y se sigue con las demás
+const updateCampaignsUsing = async (
+  repository: CampaignRepository,
+  contactIds: string[],
+  change: (campaign: Campaign) => Campaign,
+): Promise<ContactPropagation> => {
+  const campaigns = (await repository.getAll()).filter((campaign) => usesContact(campaign, contactIds))
+  const result: ContactPropagation = { updated: [], failed: [] }
+  for (const campaign of campaigns) {
+    try {
+      result.updated.push(await updateWithRetry(repository, campaign, change))
+    } catch (error) {
+      result.failed.push({ campaign, error })
+    }
+  }
+  return result
+}
+
+const updateWithRetry = async (
+  repository: CampaignRepository,
+  campaign: Campaign,
+  change: (campaign: Campaign) => Campaign,
+) => {
+  try {
+    return await repository.update(change(campaign))
+  } catch (error) {
+    if (error instanceof ConflictError && error.current) {
+      return repository.update(change(error.current))
+    }
+    throw error
+  }
+}
+
+// Guarda los cambios de un contacto y los copia a todas las campañas donde aparece. Un teléfono nuevo que está
+// en la lista de no llamar se rechaza antes de escribir nada
+export const saveContact = async (
+  repository: CampaignRepository,
+  contacts: ContactRepository,
+  registry: DoNotCallRepository,
+  contact: Contact,
+  now = new Date(),
+): Promise<ContactPropagation> => {
+  const directory = await contacts.getAll()
+  if (directory.some((c) => c.id !== contact.id && isSamePhoneNumber(c.phone, contact.phone))) {
+    throw new Error("contacts.error.duplicatePhone")
+  }
+  const previous = directory.find((c) => c.id === contact.id)
+  if (previous && !isSamePhoneNumber(previous.phone, contact.phone)) {
+    if (isPhoneBlocked(getBlockedPhones(await registry.getAll(), now), contact.phone)) {
+      throw new Error("contacts.error.blockedPhone")
+    }
+  }
+  const saved = await contacts.update({ ...contact, updatedAt: toTimestamp(now) })
+  return updateCampaignsUsing(repository, [saved.id], (campaign) => applyContactToCampaign(campaign, saved))
+}
+
+// Fusiona los duplicados en `keptId`: las campañas pasan a referenciarlo y los duplicados salen del directorio.
+// Si alguna campaña no se pudo guardar, los duplicados se conservan para no dejarla apuntando a un contacto borrado
+export const mergeContacts = async (
+  repository: CampaignRepository,
+  contacts: ContactRepository,
+  keptId: string,
+  duplicateIds: string[],
+): Promise<ContactPropagation> => {
+  const kept = await contacts.getById(keptId)
+  if (!kept) {
+    throw new Error("contacts.error.notFound")
+  }
+  const duplicates = duplicateIds.filter((id) => id !== keptId)
+  const result = await updateCampaignsUsing(repository, duplicates, (campaign) =>
+    mergeContactsInCampaign(campaign, kept, duplicates),
+  )
+  if (result.failed.length === 0) {
+    for (const id of duplicates) {
+      await contacts.delete(id)
+    }
+  }
+  return result
+}
+
+// Completa el directorio con las personas guardadas antes de que existiera: crea los contactos que faltan para
+// los contactId de las campañas (los asigna la migración 5) y enlaza las personas que todavía no tienen uno.
+// `repository` debe pasar por withContactLinking. Devuelve cuántos contactos y campañas se tocaron
+export const seedContactDirectory = async (
+  repository: CampaignRepository,
+  contacts: ContactRepository,
+): Promise<number> => {
+  const campaigns = await repository.getAll()
+  const known = new Set((await contacts.getAll()).map((contact) => contact.id))
+  const missing = new Map<string, Contact>()
+
+  for (const person of campaigns.flatMap(getCampaignPeople)) {
+    if (person.contactId && !known.has(person.contactId) && !missing.has(person.contactId)) {
+      missing.set(person.contactId, createContactFromPerson(person))
+    }
+  }
+  if (missing.size > 0) {
+    await contacts.createMany([...missing.values()])
+  }
+  let changed = missing.size
+  for (const campaign of campaigns) {
+    if (getCampaignPeople(campaign).some((person) => !person.contactId)) {
+      await repository.update(campaign)
+      changed++
+    }
+  }
+  return changed
+}
@@ -0,0 +1,57 @@
+import type { Campaign, CampaignRepository, Contact, ContactRepository, Person } from "../types"
+import { createContactFromPerson, getPhoneKey, indexContactsByPhone, linkPersonToContact } from "../utils/contacts"
+
+// Enlaza al directorio a las personas que se guardan sin contacto: se usa el que tiene el mismo teléfono
+// o se crea uno nuevo. Así el mismo número en dos campañas es siempre el mismo contacto.
+// `onContactsCreated` avisa cuando el directorio cambió, para volver a leerlo
+export const withContactLinking = (
+  repository: CampaignRepository,
+  contacts: ContactRepository,
+  onContactsCreated?: () => void,
+): CampaignRepository => {
+  // Recibe varias listas (activas y papelera) para leer el directorio y crear los contactos nuevos una sola vez
+  const linkPeople = async (lists: Person[][]): Promise<Person[][]> => {
+    if (lists.every((people) => people.every((person) => person.contactId))) {
+      return lists
+    }
+    const directory = indexContactsByPhone(await contacts.getAll())
+    const created: Contact[] = []
+    const link = (person: Person) => {
+      if (person.contactId) {
+        return person
+      }
+      const key = getPhoneKey(person.phone)
+      let contact = directory.get(key)
+      if (!contact) {
+        contact = createContactFromPerson(person)
+        directory.set(key, contact)
+        created.push(contact)
+      }
+      return linkPersonToContact(person, contact)
+    }
+    const linked = lists.map((people) => people.map(link))
+    if (created.length > 0) {
+      await contacts.createMany(created)
+      onContactsCreated?.()
+    }
+    return linked
+  }
+
+  const linkCampaign = async (campaign: Campaign): Promise<Campaign> => {
+    const [people, deletedPeople] = await linkPeople([campaign.people, campaign.deletedPeople ?? []])
+    return { ...campaign, people, ...(campaign.deletedPeople && { deletedPeople }) }
+  }
+
+  return {
+    getAll: () => repository.getAll(),
+    getById: (id: string) => repository.getById(id),
+    create: async (campaign: Campaign) => repository.create(await linkCampaign(campaign)),
+    update: async (campaign: Campaign) => repository.update(await linkCampaign(campaign)),
+    delete: (id: string, expectedRevision?: number) => repository.delete(id, expectedRevision),
+    addPerson: async (campaignId: string, person: Person) => {
+      const [[linked]] = await linkPeople([[person]])
+      return repository.addPerson(campaignId, linked)
+    },
+    removePerson: (campaignId: string, personId: string) => repository.removePerson(campaignId, personId),
+  }
+}
@@ -0,0 +1,52 @@
+import type { Contact, ContactRepository } from "../types"
+import { MessageError } from "../i18n"
+
+interface ContactStore {
+  read: () => Promise<Contact[]>
+  write: (contacts: Contact[]) => Promise<void>
+}
+
+// Implementa las operaciones por contacto sobre un almacén que guarda el arreglo completo
+export const createContactSnapshotRepository = ({ read, write }: ContactStore): ContactRepository => {
+  const getById = async (id: string) => (await read()).find((contact) => contact.id === id)
+
+  return {
+    getAll: read,
+
+    getById,
+
+    create: async (contact: Contact) => {
+      const contacts = await read()
+      if (contacts.some((c) => c.id === contact.id)) {
+        throw new MessageError("repository.error.contactExists", { id: contact.id })
+      }
+      await write([...contacts, contact])
+      return contact
+    },
+
+    createMany: async (created: Contact[]) => {
+      const contacts = await read()
+      const ids = new Set(contacts.map((c) => c.id))
+      const repeated = created.find((contact) => ids.has(contact.id) || !ids.add(contact.id))
+      if (repeated) {
+        throw new MessageError("repository.error.contactExists", { id: repeated.id })
+      }
+      await write([...contacts, ...created])
+      return created
+    },
+
+    update: async (contact: Contact) => {
+      const contacts = await read()
+      if (!contacts.some((c) => c.id === contact.id)) {
+        throw new MessageError("repository.error.contactNotFound", { id: contact.id })
+      }
+      await write(contacts.map((c) => (c.id === contact.id ? contact : c)))
+      return contact
+    },
+
+    delete: async (id: string) => {
+      const contacts = await read()
+      await write(contacts.filter((c) => c.id !== id))
+    },
+  }
+}
@@ -0,0 +1,22 @@
+import type { ContactRepository } from "../types"
+import { createMockFetch, createMockHandler } from "../mocks/mockServer"
+import { createInMemoryContactRepository } from "./inMemoryContactRepository"
+import { createLocalStorageContactRepository } from "./localStorageContactRepository"
+import { createHttpContactRepository } from "./httpContactRepository"
+
+// Sigue a VITE_DATA_SOURCE como createDefaultRepository. Con indexeddb el directorio va en localStorage:
+// son pocos datos por contacto y no necesita la migración por versiones de la base
+export const createDefaultContactRepository = (): ContactRepository => {
+  const apiUrl = import.meta.env.VITE_API_URL || "/api"
+
+  switch (import.meta.env.VITE_DATA_SOURCE) {
+    case "memory":
+      return createInMemoryContactRepository()
+    case "http":
+      return createHttpContactRepository(apiUrl)
+    case "mock":
+      return createHttpContactRepository(apiUrl, createMockFetch(createMockHandler({ latency: 300 })))
+    default:
+      return createLocalStorageContactRepository()
+  }
+}
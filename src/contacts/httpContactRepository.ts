@@ -0,0 +1,39 @@
+import type { Contact, ContactRepository } from "../types"
+import { createJsonRequest, HttpError } from "../repositories/httpRequest"
+import type { FetchLike } from "../repositories/httpRequest"
+
+export const contactEndpoints = {
+  contacts: () => "/contacts",
+  contact: (id: string) => `/contacts/${encodeURIComponent(id)}`,
+}
+
+export const createHttpContactRepository = (baseUrl: string, fetchImpl: FetchLike = fetch): ContactRepository => {
+  const request = createJsonRequest(baseUrl, fetchImpl)
+
+  return {
+    getAll: () => request<Contact[]>(contactEndpoints.contacts()),
+
+    getById: async (id: string) => {
+      try {
+        return await request<Contact>(contactEndpoints.contact(id))
+      } catch (error) {
+        if (error instanceof HttpError && error.status === 404) {
+          return undefined
+        }
+        throw error
+      }
+    },
+
+    create: (contact: Contact) =>
+      request<Contact>(contactEndpoints.contacts(), { method: "POST", body: JSON.stringify(contact) }),
+
+    // Un arreglo en el cuerpo crea todos los contactos en una sola petición
+    createMany: (contacts: Contact[]) =>
+      request<Contact[]>(contactEndpoints.contacts(), { method: "POST", body: JSON.stringify(contacts) }),
+
+    update: (contact: Contact) =>
+      request<Contact>(contactEndpoints.contact(contact.id), { method: "PUT", body: JSON.stringify(contact) }),
+
+    delete: (id: string) => request<void>(contactEndpoints.contact(id), { method: "DELETE" }),
+  }
+}
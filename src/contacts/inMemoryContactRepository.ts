@@ -0,0 +1,14 @@
+import type { Contact, ContactRepository } from "../types"
+import { createContactSnapshotRepository } from "./contactSnapshotRepository"
+
+// Copia en cada lectura/escritura para que nadie mute el estado interno por referencia
+export const createInMemoryContactRepository = (initialContacts: Contact[] = []): ContactRepository => {
+  let contacts = structuredClone(initialContacts)
+
+  return createContactSnapshotRepository({
+    read: async () => structuredClone(contacts),
+    write: async (updatedContacts: Contact[]) => {
+      contacts = structuredClone(updatedContacts)
+    },
+  })
+}
@@ -0,0 +1,7 @@
+export { createLocalStorageContactRepository } from "./localStorageContactRepository"
+export { createInMemoryContactRepository } from "./inMemoryContactRepository"
+export { createHttpContactRepository, contactEndpoints } from "./httpContactRepository"
+export { createDefaultContactRepository } from "./defaultContactRepository"
+export { withContactLinking } from "./contactLinking"
+export { mergeContacts, saveContact, seedContactDirectory } from "./contactDirectory"
+export type { ContactPropagation } from "./contactDirectory"
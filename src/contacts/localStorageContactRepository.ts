@@ -0,0 +1,24 @@
+import type { Contact, ContactRepository } from "../types"
+import { StorageMigrationError } from "../repositories/migrations"
+import { createContactSnapshotRepository } from "./contactSnapshotRepository"
+
+// Versión del formato guardado del directorio, independiente de la de las campañas
+const CONTACTS_SCHEMA_VERSION = 1
+
+export const createLocalStorageContactRepository = (key = "contacts"): ContactRepository =>
+  createContactSnapshotRepository({
+    read: async () => {
+      const stored = localStorage.getItem(key)
+      if (!stored) {
+        return []
+      }
+      const payload = JSON.parse(stored) as { schemaVersion?: unknown; contacts?: Contact[] } | null
+      if (payload?.schemaVersion !== CONTACTS_SCHEMA_VERSION || !Array.isArray(payload.contacts)) {
+        throw new StorageMigrationError("storage.error.unrecognizedKey", -1, { key })
+      }
+      return payload.contacts
+    },
+    write: async (contacts: Contact[]) => {
+      localStorage.setItem(key, JSON.stringify({ schemaVersion: CONTACTS_SCHEMA_VERSION, contacts }))
+    },
+  })
@@ -0,0 +1,22 @@
+import { createContext, useContext, useMemo } from "react"
+
+// Ruta base en la que está montada la aplicación dentro del router del host ("" si usa su propio router)
+export const AppBaseContext = createContext("")
+
+export const useAppPaths = () => {
+  const base = useContext(AppBaseContext)
+
+  return useMemo(
+    () => ({
+      home: base || "/",
+      newCampaign: `${base}/campaigns/new`,
+      campaign: (id: string) => `${base}/campaigns/${encodeURIComponent(id)}`,
+      trash: `${base}/trash`,
+      dashboard: `${base}/dashboard`,
+      calendar: `${base}/calendar`,
+      contacts: `${base}/contacts`,
+      doNotCall: `${base}/do-not-call`,
+    }),
+    [base],
+  )
+}
@@ -0,0 +1,12 @@
+import { createContext, useContext } from "react"
+import type { ContactRepository } from "../types"
+
+export const ContactRepositoryContext = createContext<ContactRepository | null>(null)
+
+export const useContactRepository = (): ContactRepository => {
+  const repository = useContext(ContactRepositoryContext)
+  if (!repository) {
+    throw new Error("useContactRepository debe usarse dentro de ContactRepositoryContext.Provider")
+  }
+  return repository
+}
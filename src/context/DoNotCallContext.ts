@@ -0,0 +1,12 @@
+import { createContext, useContext } from "react"
+import type { DoNotCallRepository } from "../types"
+
+export const DoNotCallContext = createContext<DoNotCallRepository | null>(null)
+
+export const useDoNotCallRepository = (): DoNotCallRepository => {
+  const repository = useContext(DoNotCallContext)
+  if (!repository) {
+    throw new Error("useDoNotCallRepository debe usarse dentro de DoNotCallContext.Provider")
+  }
+  return repository
+}
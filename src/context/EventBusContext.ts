@@ -0,0 +1,12 @@
+import { createContext, useContext } from "react"
+import type { CampaignEventBus } from "../events"
+
+export const EventBusContext = createContext<CampaignEventBus | null>(null)
+
+export const useCampaignEventBus = (): CampaignEventBus => {
+  const bus = useContext(EventBusContext)
+  if (!bus) {
+    throw new Error("useCampaignEventBus debe usarse dentro de EventBusContext.Provider")
+  }
+  return bus
+}
@@ -0,0 +1,13 @@
+import { createContext, useContext } from "react"
+import { createTranslator, DEFAULT_LOCALE } from "../i18n"
+import type { Translator } from "../i18n"
+import type { Locale } from "../types"
+
+export interface I18nContextValue extends Translator {
+  // null cuando el idioma lo fija la aplicación host y no se puede cambiar desde la interfaz
+  setLocale: ((locale: Locale) => void) | null
+}
+
+export const I18nContext = createContext<I18nContextValue>({ ...createTranslator(DEFAULT_LOCALE), setLocale: null })
+
+export const useI18n = () => useContext(I18nContext)
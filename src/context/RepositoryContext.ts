@@ -0,0 +1,12 @@
+import { createContext, useContext } from "react"
+import type { CampaignRepository } from "../types"
+
+export const RepositoryContext = createContext<CampaignRepository | null>(null)
+
+export const useCampaignRepository = (): CampaignRepository => {
+  const repository = useContext(RepositoryContext)
+  if (!repository) {
+    throw new Error("useCampaignRepository debe usarse dentro de RepositoryContext.Provider")
+  }
+  return repository
+}
@@ -0,0 +1,12 @@
+import { createContext, useContext } from "react"
+import type { StatusScheduler } from "../scheduler"
+
+export const SchedulerContext = createContext<StatusScheduler | null>(null)
+
+export const useStatusScheduler = (): StatusScheduler => {
+  const scheduler = useContext(SchedulerContext)
+  if (!scheduler) {
+    throw new Error("useStatusScheduler debe usarse dentro de SchedulerContext.Provider")
+  }
+  return scheduler
+}
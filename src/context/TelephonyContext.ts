@@ -0,0 +1,8 @@
+import { createContext, useContext } from "react"
+import type { TelephonyProvider } from "../types"
+import { createSimulatedProvider } from "../dialer"
+
+// Sin un proveedor configurado por el host se usa el simulador local
+export const TelephonyContext = createContext<TelephonyProvider>(createSimulatedProvider())
+
+export const useTelephonyProvider = (): TelephonyProvider => useContext(TelephonyContext)
@@ -0,0 +1,7 @@
+import { createContext, useContext } from "react"
+import { DEFAULT_TRASH_RETENTION_DAYS } from "../utils/recycleBin"
+
+// Días que los elementos pasan en la papelera antes de eliminarse definitivamente
+export const TrashRetentionContext = createContext(DEFAULT_TRASH_RETENTION_DAYS)
+
+export const useTrashRetentionDays = () => useContext(TrashRetentionContext)
@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react"
+import { MemoryRouter } from "react-router-dom"
+import App from "../App"
+import { CAMPAIGN_COMMAND, CAMPAIGN_EVENT, createCampaignEventBus } from "../events"
+import type { CampaignCommand, CampaignEvent } from "../types"
+
+interface LoggedEvent {
+  id: number
+  source: "props" | "window"
+  event: CampaignEvent
+}
+
+// Máximo de eventos que se muestran; los más viejos se descartan
+const MAX_LOGGED_EVENTS = 50
+
+// Un bus por página, como lo crearía el host al montar el remoto
+const eventBus = createCampaignEventBus()
+
+let nextLogId = 0
+
+const describeEvent = (event: CampaignEvent) => {
+  switch (event.type) {
+    case "campaign.created":
+    case "campaign.updated":
+    case "campaign.restored":
+      return event.campaign.name
+    case "campaign.statusChanged":
+      return `${event.campaign.name}: ${event.from} → ${event.to}${event.cause ? ` (${event.cause})` : ""}`
+    case "campaign.deleted":
+      return `${event.campaignId}${event.permanent ? " (definitiva)" : ""}`
+    case "person.added":
+      return `${event.person.name} ${event.person.lastName} en ${event.campaignId}`
+    case "person.removed":
+      return `${event.personId} de ${event.campaignId}`
+  }
+}
+
+// Las órdenes por window no necesitan importar nada del remoto, solo el nombre del evento
+const sendThroughWindow = (command: CampaignCommand) =>
+  window.dispatchEvent(new CustomEvent(CAMPAIGN_COMMAND, { detail: command }))
+
+// Página de desarrollo (/host-demo.html) que hace de host: monta la app, muestra los eventos que publica
+// por props y por window, y le envía órdenes por los dos caminos
+const HostDemo = () => {
+  const [log, setLog] = useState<LoggedEvent[]>([])
+  const [campaignId, setCampaignId] = useState("")
+  const [search, setSearch] = useState("")
+
+  const append = (source: LoggedEvent["source"], event: CampaignEvent) =>
+    setLog((current) => [{ id: nextLogId++, source, event }, ...current].slice(0, MAX_LOGGED_EVENTS))
+
+  useEffect(() => {
+    const handleEvent = (event: CustomEvent<CampaignEvent>) => append("window", event.detail)
+    window.addEventListener(CAMPAIGN_EVENT, handleEvent)
+    return () => window.removeEventListener(CAMPAIGN_EVENT, handleEvent)
+  }, [])
+
+  return (
+    <div className="min-h-screen bg-gray-200 lg:flex">
+      <aside className="lg:w-96 shrink-0 bg-white border-r p-4 space-y-6">
+        <h1 className="text-xl font-bold">Host de prueba</h1>
+
+        <section className="space-y-2">
+          <h2 className="font-semibold">Órdenes por props (bus)</h2>
+          <button
+            onClick={() => eventBus.send({ type: "openCreateForm" })}
+            className="w-full bg-blue-500 hover:bg-blue-600 text-white font-bold py-1 px-3 rounded"
+          >
+            Abrir formulario de creación
+          </button>
+          <div className="flex gap-2">
+            <input
+              value={campaignId}
+              onChange={(event) => setCampaignId(event.target.value)}
+              placeholder="Id de campaña"
+              className="flex-grow border rounded py-1 px-2"
+            />
+            <button
+              onClick={() => eventBus.send({ type: "focusCampaign", campaignId: campaignId.trim() })}
+              disabled={!campaignId.trim()}
+              className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-1 px-3 rounded disabled:opacity-50"
+            >
+              Enfocar
+            </button>
+          </div>
+        </section>
+
+        <section className="space-y-2">
+          <h2 className="font-semibold">Órdenes por window</h2>
+          <div className="flex gap-2">
+            <input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Buscar"
+              className="flex-grow border rounded py-1 px-2"
+            />
+            <button
+              onClick={() => sendThroughWindow({ type: "applyFilter", filters: { search } })}
+              className="bg-green-500 hover:bg-green-600 text-white font-bold py-1 px-3 rounded"
+            >
+              Filtrar
+            </button>
+          </div>
+          <button
+            onClick={() => sendThroughWindow({ type: "applyFilter", filters: { statuses: ["active"] } })}
+            className="w-full bg-green-500 hover:bg-green-600 text-white font-bold py-1 px-3 rounded"
+          >
+            Solo activas
+          </button>
+        </section>
+
+        <section>
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="font-semibold">Eventos recibidos</h2>
+            <button onClick={() => setLog([])} className="text-sm text-blue-600 hover:text-blue-800">
+              Limpiar
+            </button>
+          </div>
+          {log.length > 0 ? (
+            <ul className="space-y-1 text-sm">
+              {log.map(({ id, source, event }) => (
+                <li key={id} className="border rounded p-2">
+                  <span className="text-xs text-gray-500 mr-2">{source}</span>
+                  <span className="font-mono font-medium">{event.type}</span>
+                  <p className="text-gray-600 truncate">{describeEvent(event)}</p>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-600 italic">Cree, edite o elimine una campaña para ver sus eventos.</p>
+          )}
+        </section>
+      </aside>
+      <main className="flex-grow">
+        <MemoryRouter>
+          <App eventBus={eventBus} onEvent={(event) => append("props", event)} />
+        </MemoryRouter>
+      </main>
+    </div>
+  )
+}
+
+export default HostDemo
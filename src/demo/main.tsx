@@ -0,0 +1,10 @@
+import { StrictMode } from "react"
+import { createRoot } from "react-dom/client"
+import HostDemo from "./HostDemo"
+import "../index.css"
+
+createRoot(document.getElementById("root")!).render(
+  <StrictMode>
+    <HostDemo />
+  </StrictMode>,
+)
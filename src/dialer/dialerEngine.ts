@@ -0,0 +1,225 @@
+import { v4 as uuidv4 } from "uuid"
+import type { Campaign, ContactAttempt, DialerConfig, DialerQueueItem, DialerState, TelephonyProvider } from "../types"
+import { parseTimestamp, toTimestamp } from "../utils"
+import { getNextWindowStart, isWithinCallingWindow } from "../utils/callingWindows"
+
+export const defaultDialerConfig: DialerConfig = {
+  concurrency: 2,
+  maxAttempts: 3,
+  retryDelayMs: 30_000,
+  retryOutcomes: ["no_answer", "busy"],
+}
+
+interface DialerOptions {
+  campaign: Campaign
+  provider: TelephonyProvider
+  config?: Partial<DialerConfig>
+  // Se invoca con cada intento terminado, para persistirlo
+  onAttempt: (personId: string, attempt: ContactAttempt) => void
+  // Lista de no llamar ya leída; marca la cola al armarla y evita sacar de ella números bloqueados
+  isBlocked?: (phone: string) => boolean
+  // Consulta la lista guardada justo antes de cada llamada. Si falla, la llamada no se hace
+  checkBlocked?: (phone: string) => Promise<boolean>
+}
+
+export interface Dialer {
+  start: () => void
+  pause: () => void
+  resume: () => void
+  stop: () => void
+  getState: () => DialerState
+  subscribe: (listener: () => void) => () => void
+}
+
+const FINAL_STATES = new Set<DialerQueueItem["state"]>(["completed", "exhausted", "error", "blocked"])
+
+// setTimeout no admite esperas mayores a ~24,8 días
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1
+
+// Personas que todavía hay que llamar: sin un resultado definitivo y con intentos disponibles.
+// Las que están en la lista de no llamar se muestran, pero ya bloqueadas
+const buildQueue = (
+  campaign: Campaign,
+  config: DialerConfig,
+  isBlocked: (phone: string) => boolean,
+): DialerQueueItem[] =>
+  campaign.people
+    .filter((person) => {
+      const attempts = person.attempts ?? []
+      const isResolved = attempts.some((attempt) => !config.retryOutcomes.includes(attempt.outcome))
+      return !isResolved && attempts.length < config.maxAttempts
+    })
+    .map((person) => ({
+      personId: person.id,
+      phone: person.phone,
+      label: `${person.name} ${person.lastName}`,
+      state: isBlocked(person.phone) ? "blocked" : "pending",
+      attempts: (person.attempts ?? []).length,
+    }))
+
+export const createDialer = ({
+  campaign,
+  provider,
+  config: configOverrides,
+  onAttempt,
+  isBlocked = () => false,
+  checkBlocked = async (phone) => isBlocked(phone),
+}: DialerOptions): Dialer => {
+  const config = { ...defaultDialerConfig, ...configOverrides }
+  const listeners = new Set<() => void>()
+  let state: DialerState = { status: "idle", items: buildQueue(campaign, config, isBlocked) }
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+  const setState = (changes: Partial<DialerState>) => {
+    state = { ...state, ...changes }
+    listeners.forEach((listener) => listener())
+  }
+
+  const updateItem = (personId: string, changes: Partial<DialerQueueItem>) => {
+    setState({ items: state.items.map((item) => (item.personId === personId ? { ...item, ...changes } : item)) })
+  }
+
+  const clearRetryTimer = () => {
+    if (retryTimer) {
+      clearTimeout(retryTimer)
+      retryTimer = null
+    }
+  }
+
+  const dial = async (item: DialerQueueItem) => {
+    const callId = uuidv4()
+    updateItem(item.personId, { state: "dialing", nextAttemptAt: undefined })
+
+    try {
+      // La copia de la lista puede estar vieja o vacía si todavía no se había leído
+      if (await checkBlocked(item.phone)) {
+        updateItem(item.personId, { state: "blocked" })
+        pump()
+        return
+      }
+      const result = await provider.dial({ callId, phone: item.phone, record: campaign.recordingStatus })
+      const attempt: ContactAttempt = {
+        id: callId,
+        attemptedAt: toTimestamp(new Date()),
+        outcome: result.outcome,
+        durationSeconds: result.durationSeconds,
+        notes: "",
+        dialerProvider: provider.name,
+        ...(result.recording && { recording: result.recording }),
+      }
+      onAttempt(item.personId, attempt)
+
+      const attempts = item.attempts + 1
+      const shouldRetry = config.retryOutcomes.includes(result.outcome)
+      updateItem(item.personId, {
+        attempts,
+        lastOutcome: result.outcome,
+        ...(shouldRetry && attempts < config.maxAttempts
+          ? { state: "retry_scheduled", nextAttemptAt: Date.now() + config.retryDelayMs }
+          : { state: shouldRetry ? "exhausted" : "completed" }),
+      })
+    } catch (error) {
+      updateItem(item.personId, { state: "error", error: error instanceof Error ? error.message : String(error) })
+    }
+
+    pump()
+  }
+
+  // Ocupa las líneas libres con las llamadas listas y programa el próximo reintento pendiente
+  const pump = () => {
+    if (state.status !== "running") {
+      return
+    }
+    clearRetryTimer()
+
+    if (state.items.every((item) => FINAL_STATES.has(item.state))) {
+      setState({ status: "finished" })
+      return
+    }
+
+    const now = Date.now()
+    // Fuera de la ventana de llamadas no se inicia ninguna llamada; se retoma al abrir la próxima
+    const { callingWindow } = campaign
+    if (callingWindow && !isWithinCallingWindow(callingWindow, new Date(now))) {
+      const nextWindow = getNextWindowStart(callingWindow, new Date(now), parseTimestamp(campaign.endDate))
+      if (!nextWindow) {
+        // No quedan ventanas antes del fin de la campaña: no tiene sentido seguir esperando
+        setState({ status: "stopped", waitingForWindow: null })
+        return
+      }
+      setState({ waitingForWindow: nextWindow.getTime() })
+      retryTimer = setTimeout(pump, Math.min(nextWindow.getTime() - now, MAX_TIMER_DELAY_MS))
+      return
+    }
+    if (state.waitingForWindow !== undefined) {
+      setState({ waitingForWindow: undefined })
+    }
+
+    let activeCalls = state.items.filter((item) => item.state === "dialing").length
+    const ready = state.items.filter(
+      (item) => item.state === "pending" || (item.state === "retry_scheduled" && (item.nextAttemptAt ?? 0) <= now),
+    )
+    for (const item of ready) {
+      if (activeCalls >= config.concurrency) {
+        break
+      }
+      // El número pudo entrar en la lista mientras el marcador corría
+      if (isBlocked(item.phone)) {
+        updateItem(item.personId, { state: "blocked", nextAttemptAt: undefined })
+        continue
+      }
+      activeCalls++
+      void dial(item)
+    }
+
+    if (state.items.every((item) => FINAL_STATES.has(item.state))) {
+      setState({ status: "finished" })
+      return
+    }
+
+    const nextRetryAt = Math.min(
+      ...state.items.filter((item) => item.state === "retry_scheduled").map((item) => item.nextAttemptAt ?? now),
+    )
+    if (Number.isFinite(nextRetryAt)) {
+      retryTimer = setTimeout(pump, Math.max(0, nextRetryAt - now))
+    }
+  }
+
+  return {
+    start: () => {
+      if (campaign.status !== "active") {
+        throw new Error("dialer.error.notActive")
+      }
+      if (state.status === "idle") {
+        setState({ status: "running" })
+        pump()
+      }
+    },
+    pause: () => {
+      if (state.status === "running") {
+        clearRetryTimer()
+        setState({ status: "paused" })
+      }
+    },
+    resume: () => {
+      if (state.status === "paused") {
+        setState({ status: "running" })
+        pump()
+      }
+    },
+    // Las llamadas en curso terminan y se registran, pero no se inician nuevas
+    stop: () => {
+      clearRetryTimer()
+      if (state.status !== "finished") {
+        setState({ status: "stopped" })
+      }
+    },
+    getState: () => state,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
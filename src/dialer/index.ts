@@ -0,0 +1,3 @@
+export { createDialer, defaultDialerConfig } from "./dialerEngine"
+export type { Dialer } from "./dialerEngine"
+export { createSimulatedProvider } from "./simulatedProvider"
@@ -0,0 +1,63 @@
+import type { CallOutcome, CallRequest, CallResult, TelephonyProvider } from "../types"
+
+interface SimulatedProviderOptions {
+  // Peso relativo de cada resultado
+  outcomeWeights?: Record<CallOutcome, number>
+  // Rango de duración de las llamadas atendidas, en segundos
+  minDurationSeconds?: number
+  maxDurationSeconds?: number
+  // Milisegundos reales que dura cada segundo simulado; 0 resuelve de inmediato
+  msPerSimulatedSecond?: number
+  random?: () => number
+}
+
+const defaultWeights: Record<CallOutcome, number> = {
+  answered: 45,
+  no_answer: 25,
+  busy: 15,
+  voicemail: 10,
+  wrong_number: 5,
+}
+
+const pickOutcome = (weights: Record<CallOutcome, number>, random: () => number): CallOutcome => {
+  const entries = Object.entries(weights) as [CallOutcome, number][]
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0)
+  let threshold = random() * total
+  for (const [outcome, weight] of entries) {
+    threshold -= weight
+    if (threshold < 0) {
+      return outcome
+    }
+  }
+  return entries[entries.length - 1][0]
+}
+
+// Proveedor local sin central real: decide resultados y duraciones al azar
+export const createSimulatedProvider = ({
+  outcomeWeights = defaultWeights,
+  minDurationSeconds = 20,
+  maxDurationSeconds = 300,
+  msPerSimulatedSecond = 10,
+  random = Math.random,
+}: SimulatedProviderOptions = {}): TelephonyProvider => ({
+  name: "Simulador",
+  dial: async ({ callId, record }: CallRequest): Promise<CallResult> => {
+    const outcome = pickOutcome(outcomeWeights, random)
+    const ringSeconds = 5 + Math.round(random() * 20)
+    const talkSeconds =
+      outcome === "answered"
+        ? minDurationSeconds + Math.round(random() * (maxDurationSeconds - minDurationSeconds))
+        : outcome === "voicemail"
+          ? 15 + Math.round(random() * 30)
+          : 0
+
+    await new Promise((resolve) => setTimeout(resolve, (ringSeconds + talkSeconds) * msPerSimulatedSecond))
+
+    const hasAudio = record && (outcome === "answered" || outcome === "voicemail")
+    return {
+      outcome,
+      durationSeconds: talkSeconds,
+      ...(hasAudio && { recording: { id: `recording-${callId}`, status: "placeholder", url: null } }),
+    }
+  },
+})
@@ -0,0 +1,21 @@
+import type { DoNotCallRepository } from "../types"
+import { createMockFetch, createMockHandler } from "../mocks/mockServer"
+import { createInMemoryDoNotCallRepository } from "./inMemoryDoNotCallRepository"
+import { createLocalStorageDoNotCallRepository } from "./localStorageDoNotCallRepository"
+import { createHttpDoNotCallRepository } from "./httpDoNotCallRepository"
+
+// Sigue a VITE_DATA_SOURCE como createDefaultContactRepository; con indexeddb la lista va en localStorage
+export const createDefaultDoNotCallRepository = (): DoNotCallRepository => {
+  const apiUrl = import.meta.env.VITE_API_URL || "/api"
+
+  switch (import.meta.env.VITE_DATA_SOURCE) {
+    case "memory":
+      return createInMemoryDoNotCallRepository()
+    case "http":
+      return createHttpDoNotCallRepository(apiUrl)
+    case "mock":
+      return createHttpDoNotCallRepository(apiUrl, createMockFetch(createMockHandler({ latency: 300 })))
+    default:
+      return createLocalStorageDoNotCallRepository()
+  }
+}
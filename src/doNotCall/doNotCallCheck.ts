@@ -0,0 +1,55 @@
+import type { Campaign, CampaignRepository, DoNotCallRepository, Person } from "../types"
+import { getCampaignPeople } from "../utils/contacts"
+import { getBlockedPhones, isPhoneBlocked } from "../utils/doNotCall"
+
+export class DoNotCallError extends Error {
+  constructor(public readonly phones: string[]) {
+    super("doNotCall.error.blocked")
+    this.name = "DoNotCallError"
+  }
+}
+
+// Personas cuyo número está hoy en la lista de no llamar
+export const findBlockedPeople = async (registry: DoNotCallRepository, people: Person[]): Promise<Person[]> => {
+  if (people.length === 0) {
+    return []
+  }
+  const blockedPhones = getBlockedPhones(await registry.getAll())
+  return people.filter((person) => isPhoneBlocked(blockedPhones, person.phone))
+}
+
+// Rechaza las escrituras que suman a una campaña personas con el número en la lista de no llamar.
+// Solo mira las que entran a contactar: nuevas, restauradas de la papelera o con otro teléfono. Las que ya
+// estaban antes del bloqueo se pueden seguir guardando y se marcan en la lista
+export const withDoNotCallCheck = (
+  repository: CampaignRepository,
+  registry: DoNotCallRepository,
+): CampaignRepository => {
+  const assertNotBlocked = async (people: Person[]) => {
+    const blocked = await findBlockedPeople(registry, people)
+    if (blocked.length > 0) {
+      throw new DoNotCallError(blocked.map((person) => person.phone))
+    }
+  }
+
+  return {
+    getAll: () => repository.getAll(),
+    getById: (id: string) => repository.getById(id),
+    create: async (campaign: Campaign) => {
+      await assertNotBlocked(getCampaignPeople(campaign))
+      return repository.create(campaign)
+    },
+    update: async (campaign: Campaign) => {
+      const stored = await repository.getById(campaign.id)
+      const storedPhones = new Map((stored?.people ?? []).map((person) => [person.id, person.phone]))
+      await assertNotBlocked(campaign.people.filter((person) => storedPhones.get(person.id) !== person.phone))
+      return repository.update(campaign)
+    },
+    delete: (id: string, expectedRevision?: number) => repository.delete(id, expectedRevision),
+    addPerson: async (campaignId: string, person: Person) => {
+      await assertNotBlocked([person])
+      return repository.addPerson(campaignId, person)
+    },
+    removePerson: (campaignId: string, personId: string) => repository.removePerson(campaignId, personId),
+  }
+}
@@ -0,0 +1,22 @@
+import type { DoNotCallEntry, DoNotCallRepository } from "../types"
+
+interface DoNotCallStore {
+  read: () => Promise<DoNotCallEntry[]>
+  write: (entries: DoNotCallEntry[]) => Promise<void>
+}
+
+// Implementa la lista sobre un almacén que guarda el arreglo completo
+export const createDoNotCallSnapshotRepository = ({ read, write }: DoNotCallStore): DoNotCallRepository => ({
+  getAll: read,
+
+  save: async (entries: DoNotCallEntry[]) => {
+    const ids = new Set(entries.map((entry) => entry.id))
+    const stored = await read()
+    await write([...stored.filter((entry) => !ids.has(entry.id)), ...entries])
+  },
+
+  delete: async (id: string) => {
+    const stored = await read()
+    await write(stored.filter((entry) => entry.id !== id))
+  },
+})
@@ -0,0 +1,22 @@
+import type { DoNotCallEntry, DoNotCallRepository } from "../types"
+import { createJsonRequest } from "../repositories/httpRequest"
+import type { FetchLike } from "../repositories/httpRequest"
+
+export const doNotCallEndpoints = {
+  entries: () => "/do-not-call",
+  entry: (id: string) => `/do-not-call/${encodeURIComponent(id)}`,
+}
+
+export const createHttpDoNotCallRepository = (baseUrl: string, fetchImpl: FetchLike = fetch): DoNotCallRepository => {
+  const request = createJsonRequest(baseUrl, fetchImpl)
+
+  return {
+    getAll: () => request<DoNotCallEntry[]>(doNotCallEndpoints.entries()),
+
+    // Un solo PUT con todas las entradas, para que importar un archivo grande no sea una petición por número
+    save: (entries: DoNotCallEntry[]) =>
+      request<void>(doNotCallEndpoints.entries(), { method: "PUT", body: JSON.stringify(entries) }),
+
+    delete: (id: string) => request<void>(doNotCallEndpoints.entry(id), { method: "DELETE" }),
+  }
+}
@@ -0,0 +1,14 @@
+import type { DoNotCallEntry, DoNotCallRepository } from "../types"
+import { createDoNotCallSnapshotRepository } from "./doNotCallSnapshotRepository"
+
+// Copia en cada lectura/escritura para que nadie mute el estado interno por referencia
+export const createInMemoryDoNotCallRepository = (initialEntries: DoNotCallEntry[] = []): DoNotCallRepository => {
+  let entries = structuredClone(initialEntries)
+
+  return createDoNotCallSnapshotRepository({
+    read: async () => structuredClone(entries),
+    write: async (updatedEntries: DoNotCallEntry[]) => {
+      entries = structuredClone(updatedEntries)
+    },
+  })
+}
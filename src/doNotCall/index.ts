@@ -0,0 +1,5 @@
+export { createLocalStorageDoNotCallRepository } from "./localStorageDoNotCallRepository"
+export { createInMemoryDoNotCallRepository } from "./inMemoryDoNotCallRepository"
+export { createHttpDoNotCallRepository, doNotCallEndpoints } from "./httpDoNotCallRepository"
+export { createDefaultDoNotCallRepository } from "./defaultDoNotCallRepository"
+export { DoNotCallError, findBlockedPeople, withDoNotCallCheck } from "./doNotCallCheck"
@@ -0,0 +1,24 @@
+import type { DoNotCallEntry, DoNotCallRepository } from "../types"
+import { StorageMigrationError } from "../repositories/migrations"
+import { createDoNotCallSnapshotRepository } from "./doNotCallSnapshotRepository"
+
+// Versión del formato guardado de la lista, independiente de la de las campañas
+const DO_NOT_CALL_SCHEMA_VERSION = 1
+
+export const createLocalStorageDoNotCallRepository = (key = "do-not-call"): DoNotCallRepository =>
+  createDoNotCallSnapshotRepository({
+    read: async () => {
+      const stored = localStorage.getItem(key)
+      if (!stored) {
+        return []
+      }
+      const payload = JSON.parse(stored) as { schemaVersion?: unknown; entries?: DoNotCallEntry[] } | null
+      if (payload?.schemaVersion !== DO_NOT_CALL_SCHEMA_VERSION || !Array.isArray(payload.entries)) {
+        throw new StorageMigrationError("storage.error.unrecognizedKey", -1, { key })
+      }
+      return payload.entries
+    },
+    write: async (entries: DoNotCallEntry[]) => {
+      localStorage.setItem(key, JSON.stringify({ schemaVersion: DO_NOT_CALL_SCHEMA_VERSION, entries }))
+    },
+  })
@@ -0,0 +1,78 @@
+import type { Campaign, CampaignEvent, CampaignRepository, Person } from "../types"
+
+const getAddedPeople = (people: Person[], previous: Person[]) => {
+  const previousIds = new Set(previous.map((person) => person.id))
+  return people.filter((person) => !previousIds.has(person.id))
+}
+
+// Eventos de una escritura sobre una campaña existente, comparando con la versión que había antes.
+// Enviar a la papelera o sacar de ella también es una actualización, y lo mismo pasa con las personas.
+export const getUpdateEvents = (previous: Campaign | undefined, saved: Campaign): CampaignEvent[] => {
+  const events: CampaignEvent[] = [{ type: "campaign.updated", campaign: saved }]
+  if (!previous) {
+    return events
+  }
+
+  if (!previous.deletedAt && saved.deletedAt) {
+    events.push({ type: "campaign.deleted", campaignId: saved.id, permanent: false })
+  } else if (previous.deletedAt && !saved.deletedAt) {
+    events.push({ type: "campaign.restored", campaign: saved })
+  }
+
+  if (previous.status !== saved.status) {
+    const change = saved.statusHistory?.[saved.statusHistory.length - 1]
+    events.push({
+      type: "campaign.statusChanged",
+      campaign: saved,
+      from: previous.status,
+      to: saved.status,
+      cause: change?.to === saved.status ? change.cause : undefined,
+    })
+  }
+
+  getAddedPeople(saved.people, previous.people).forEach((person) =>
+    events.push({ type: "person.added", campaignId: saved.id, person }),
+  )
+  getAddedPeople(previous.people, saved.people).forEach((person) =>
+    events.push({ type: "person.removed", campaignId: saved.id, personId: person.id }),
+  )
+
+  return events
+}
+
+// Publica los eventos de dominio de cada escritura que termina bien.
+// `update` lee antes la versión guardada para saber qué cambió.
+export const withEventPublishing = (
+  repository: CampaignRepository,
+  publish: (event: CampaignEvent) => void,
+): CampaignRepository => ({
+  getAll: () => repository.getAll(),
+  getById: (id: string) => repository.getById(id),
+  create: async (campaign: Campaign) => {
+    const saved = await repository.create(campaign)
+    publish({ type: "campaign.created", campaign: saved })
+    return saved
+  },
+  update: async (campaign: Campaign) => {
+    const previous = await repository.getById(campaign.id)
+    const saved = await repository.update(campaign)
+    getUpdateEvents(previous, saved).forEach(publish)
+    return saved
+  },
+  delete: async (id: string, expectedRevision?: number) => {
+    await repository.delete(id, expectedRevision)
+    publish({ type: "campaign.deleted", campaignId: id, permanent: true })
+  },
+  addPerson: async (campaignId: string, person: Person) => {
+    const saved = await repository.addPerson(campaignId, person)
+    publish({ type: "campaign.updated", campaign: saved })
+    publish({ type: "person.added", campaignId, person })
+    return saved
+  },
+  removePerson: async (campaignId: string, personId: string) => {
+    const saved = await repository.removePerson(campaignId, personId)
+    publish({ type: "campaign.updated", campaign: saved })
+    publish({ type: "person.removed", campaignId, personId })
+    return saved
+  },
+})
@@ -0,0 +1,60 @@
+import type { CampaignCommand, CampaignEvent } from "../types"
+
+// Canal entre la app y el host: la app publica eventos de dominio y el host le envía órdenes
+export interface CampaignEventBus {
+  publish: (event: CampaignEvent) => void
+  subscribe: (listener: (event: CampaignEvent) => void) => () => void
+  send: (command: CampaignCommand) => void
+  onCommand: (listener: (command: CampaignCommand) => void) => () => void
+}
+
+// Nombres de los CustomEvent de window, para hosts que no importan nada del remoto
+export const CAMPAIGN_EVENT = "campaigns:event"
+export const CAMPAIGN_COMMAND = "campaigns:command"
+
+declare global {
+  interface WindowEventMap {
+    [CAMPAIGN_EVENT]: CustomEvent<CampaignEvent>
+    [CAMPAIGN_COMMAND]: CustomEvent<CampaignCommand>
+  }
+}
+
+const createChannel = <T>() => {
+  const listeners = new Set<(message: T) => void>()
+
+  return {
+    emit: (message: T) => listeners.forEach((listener) => listener(message)),
+    listen: (listener: (message: T) => void) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+// Las órdenes que llegan sin nadie escuchando, por ejemplo antes de montar la app, se descartan
+export const createCampaignEventBus = (): CampaignEventBus => {
+  const events = createChannel<CampaignEvent>()
+  const commands = createChannel<CampaignCommand>()
+
+  return {
+    publish: events.emit,
+    subscribe: events.listen,
+    send: commands.emit,
+    onCommand: commands.listen,
+  }
+}
+
+// Reenvía los eventos del bus como CustomEvent en `target` y pasa al bus las órdenes que lleguen por ahí.
+// Devuelve la función que desconecta el puente.
+export const connectWindowEvents = (bus: CampaignEventBus, target: Window = window) => {
+  const unsubscribe = bus.subscribe((event) => target.dispatchEvent(new CustomEvent(CAMPAIGN_EVENT, { detail: event })))
+  const handleCommand = (event: CustomEvent<CampaignCommand>) => bus.send(event.detail)
+  target.addEventListener(CAMPAIGN_COMMAND, handleCommand)
+
+  return () => {
+    unsubscribe()
+    target.removeEventListener(CAMPAIGN_COMMAND, handleCommand)
+  }
+}
@@ -0,0 +1,3 @@
+export { CAMPAIGN_COMMAND, CAMPAIGN_EVENT, connectWindowEvents, createCampaignEventBus } from "./eventBus"
+export type { CampaignEventBus } from "./eventBus"
+export { getUpdateEvents, withEventPublishing } from "./campaignEvents"
@@ -0,0 +1,34 @@
+import { useEffect } from "react"
+import { useLocation, useNavigate } from "react-router-dom"
+import { useAppPaths } from "../context/AppPathsContext"
+import { useCampaignEventBus } from "../context/EventBusContext"
+import { filtersFromSearchParams, filtersToSearchParams } from "../utils/campaignFilters"
+
+// Atiende las órdenes del host navegando dentro de la app; los filtros viajan en la query string de la lista
+export const useCampaignCommands = () => {
+  const bus = useCampaignEventBus()
+  const navigate = useNavigate()
+  const { search } = useLocation()
+  const paths = useAppPaths()
+
+  useEffect(
+    () =>
+      bus.onCommand((command) => {
+        switch (command.type) {
+          case "openCreateForm":
+            navigate({ pathname: paths.newCampaign, search })
+            break
+          case "focusCampaign":
+            navigate(paths.campaign(command.campaignId))
+            break
+          case "applyFilter": {
+            const current = new URLSearchParams(search)
+            const filters = { ...filtersFromSearchParams(current), ...command.filters }
+            navigate({ pathname: paths.home, search: filtersToSearchParams(filters, current).toString() })
+            break
+          }
+        }
+      }),
+    [bus, navigate, search, paths],
+  )
+}
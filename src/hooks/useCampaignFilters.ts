@@ -0,0 +1,22 @@
+import { useCallback, useMemo } from "react"
+import { useSearchParams } from "react-router-dom"
+import type { CampaignFilters } from "../types"
+import { filtersFromSearchParams, filtersToSearchParams } from "../utils/campaignFilters"
+
+// Mantiene los filtros de la lista sincronizados con la query string, para poder guardar o compartir la vista
+export const useCampaignFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams])
+
+  const setFilters = useCallback(
+    (changes: Partial<CampaignFilters>) => {
+      setSearchParams(
+        (current) => filtersToSearchParams({ ...filtersFromSearchParams(current), ...changes }, current),
+        { replace: true },
+      )
+    },
+    [setSearchParams],
+  )
+
+  return { filters, setFilters }
+}
@@ -0,0 +1,20 @@
+import { useMemo } from "react"
+import { useQuery } from "react-query"
+import type { Campaign } from "../types"
+import { useCampaignRepository } from "../context/RepositoryContext"
+import { getLiveCampaigns } from "../utils/recycleBin"
+
+// Campañas fuera de la papelera; comparte la consulta "campaigns" con el resto de la app
+export const useCampaigns = () => {
+  const repository = useCampaignRepository()
+  const query = useQuery<Campaign[], Error>("campaigns", () => repository.getAll())
+  const campaigns = useMemo(() => getLiveCampaigns(query.data ?? []), [query.data])
+
+  return { ...query, campaigns }
+}
+
+// Una campaña por id, incluida la que está en la papelera; undefined si no existe
+export const useCampaign = (id: string) => {
+  const repository = useCampaignRepository()
+  return useQuery<Campaign | undefined, Error>(["campaigns", id], () => repository.getById(id))
+}
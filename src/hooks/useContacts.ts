@@ -0,0 +1,76 @@
+import { useMutation, useQuery, useQueryClient } from "react-query"
+import toast from "react-hot-toast"
+import type { Contact } from "../types"
+import { useCampaignRepository } from "../context/RepositoryContext"
+import { useContactRepository } from "../context/ContactRepositoryContext"
+import { useDoNotCallRepository } from "../context/DoNotCallContext"
+import { useI18n } from "../context/I18nContext"
+import { mergeContacts, saveContact } from "../contacts"
+import type { ContactPropagation } from "../contacts"
+
+interface ContactMerge {
+  keptId: string
+  duplicateIds: string[]
+}
+
+// Directorio completo de contactos, en la consulta "contacts"
+export const useContacts = () => {
+  const contacts = useContactRepository()
+  const query = useQuery<Contact[], Error>("contacts", () => contacts.getAll())
+
+  return { ...query, contacts: query.data ?? [] }
+}
+
+// Editar y fusionar cambia también las campañas, así que ambas consultas se vuelven a leer
+export const useContactDirectory = () => {
+  const repository = useCampaignRepository()
+  const contacts = useContactRepository()
+  const registry = useDoNotCallRepository()
+  const queryClient = useQueryClient()
+  const { t, translateError } = useI18n()
+
+  const refresh = () => {
+    queryClient.invalidateQueries("contacts")
+    queryClient.invalidateQueries("campaigns")
+  }
+
+  // Las campañas que no se pudieron guardar se nombran aparte; el resto del cambio ya quedó escrito
+  const reportFailed = ({ failed }: ContactPropagation) => {
+    if (failed.length > 0) {
+      toast.error(t("contacts.partialUpdate", { names: failed.map(({ campaign }) => campaign.name).join(", ") }))
+    }
+  }
+
+  const updateContact = useMutation<ContactPropagation, Error, Contact>(
+    (contact) => saveContact(repository, contacts, registry, contact),
+    {
+      onSuccess: (result) => {
+        toast.success(t("contacts.saved", { count: result.updated.length }))
+        reportFailed(result)
+      },
+      onError: (error) => {
+        toast.error(`${t("contacts.saveError")}: ${translateError(error)}`)
+      },
+      onSettled: refresh,
+    },
+  )
+
+  const mergeDuplicates = useMutation<ContactPropagation, Error, ContactMerge>(
+    ({ keptId, duplicateIds }) => mergeContacts(repository, contacts, keptId, duplicateIds),
+    {
+      onSuccess: (result) => {
+        toast.success(t("contacts.merged", { count: result.updated.length }))
+        reportFailed(result)
+        if (result.failed.length > 0) {
+          toast(t("contacts.mergeKeptDuplicates"))
+        }
+      },
+      onError: (error) => {
+        toast.error(`${t("contacts.mergeError")}: ${translateError(error)}`)
+      },
+      onSettled: refresh,
+    },
+  )
+
+  return { updateContact, mergeDuplicates }
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react"
+import { useQueryClient } from "react-query"
+import toast from "react-hot-toast"
+import type { Campaign, ContactAttempt, DialerConfig } from "../types"
+import { createDialer } from "../dialer"
+import type { Dialer } from "../dialer"
+import { withContactAttempt } from "../utils/contactAttempts"
+import { useI18n } from "../context/I18nContext"
+import { useCampaignRepository } from "../context/RepositoryContext"
+import { useTelephonyProvider } from "../context/TelephonyContext"
+import { useDoNotCallRepository } from "../context/DoNotCallContext"
+import { getBlockedPhones, isPhoneBlocked } from "../utils/doNotCall"
+import { useDoNotCallList } from "./useDoNotCallList"
+
+const noopSubscribe = () => () => {}
+
+export const useDialer = (campaign: Campaign) => {
+  const repository = useCampaignRepository()
+  const provider = useTelephonyProvider()
+  const registry = useDoNotCallRepository()
+  const queryClient = useQueryClient()
+  const { t, translateError } = useI18n()
+  const [dialer, setDialer] = useState<Dialer | null>(null)
+  // El marcador vive más que una lectura de la lista de no llamar; consulta siempre la última
+  const { isBlocked } = useDoNotCallList()
+  const isBlockedRef = useRef(isBlocked)
+  isBlockedRef.current = isBlocked
+  // Los intentos se guardan de a uno, releyendo la campaña, para que las llamadas simultáneas no se pisen
+  const persistQueue = useRef<Promise<void>>(Promise.resolve())
+
+  const state = useSyncExternalStore(
+    dialer ? dialer.subscribe : noopSubscribe,
+    () => dialer?.getState() ?? null,
+  )
+
+  useEffect(() => () => dialer?.stop(), [dialer])
+
+  const persistAttempt = useCallback(
+    (personId: string, attempt: ContactAttempt) => {
+      persistQueue.current = persistQueue.current
+        .then(async () => {
+          const latest = await repository.getById(campaign.id)
+          if (latest) {
+            await repository.update(withContactAttempt(latest, personId, attempt))
+          }
+          queryClient.invalidateQueries("campaigns")
+        })
+        .catch((error: unknown) => {
+          toast.error(t("dialer.attemptSaveError", { error: translateError(error) }))
+        })
+    },
+    [repository, queryClient, campaign.id, t, translateError],
+  )
+
+  const start = useCallback(
+    (config: Partial<DialerConfig>) => {
+      dialer?.stop()
+      const newDialer = createDialer({
+        campaign,
+        provider,
+        config,
+        onAttempt: persistAttempt,
+        isBlocked: (phone) => isBlockedRef.current(phone),
+        checkBlocked: async (phone) => isPhoneBlocked(getBlockedPhones(await registry.getAll()), phone),
+      })
+      setDialer(newDialer)
+      newDialer.start()
+    },
+    [dialer, campaign, provider, persistAttempt, registry],
+  )
+
+  return {
+    state,
+    provider,
+    start,
+    pause: () => dialer?.pause(),
+    resume: () => dialer?.resume(),
+    stop: () => dialer?.stop(),
+  }
+}
@@ -0,0 +1,54 @@
+import { useCallback, useMemo } from "react"
+import { useMutation, useQuery, useQueryClient } from "react-query"
+import toast from "react-hot-toast"
+import type { DoNotCallEntry } from "../types"
+import { useDoNotCallRepository } from "../context/DoNotCallContext"
+import { useI18n } from "../context/I18nContext"
+import { getBlockedPhones, isPhoneBlocked, mergeDoNotCallEntries } from "../utils/doNotCall"
+
+// Lista de no llamar, en la consulta "doNotCall". `isBlocked` considera solo las entradas vigentes
+export const useDoNotCallList = () => {
+  const registry = useDoNotCallRepository()
+  const query = useQuery<DoNotCallEntry[], Error>("doNotCall", () => registry.getAll())
+  const entries = useMemo(() => query.data ?? [], [query.data])
+  const blockedPhones = useMemo(() => getBlockedPhones(entries), [entries])
+  const isBlocked = useCallback((phone: string) => isPhoneBlocked(blockedPhones, phone), [blockedPhones])
+
+  return { ...query, entries, isBlocked }
+}
+
+// Altas (manuales o desde archivo) y bajas. Un número que ya estaba se reemplaza en lugar de repetirse
+export const useDoNotCallRegistry = () => {
+  const registry = useDoNotCallRepository()
+  const queryClient = useQueryClient()
+  const { t, translateError } = useI18n()
+
+  const addEntries = useMutation<DoNotCallEntry[], Error, DoNotCallEntry[]>(
+    async (entries) => {
+      const merged = mergeDoNotCallEntries(await registry.getAll(), entries)
+      await registry.save(merged)
+      return merged
+    },
+    {
+      onSuccess: (entries) => {
+        toast.success(t("doNotCall.added", { count: entries.length }))
+      },
+      onError: (error) => {
+        toast.error(`${t("doNotCall.saveError")}: ${translateError(error)}`)
+      },
+      onSettled: () => queryClient.invalidateQueries("doNotCall"),
+    },
+  )
+
+  const removeEntry = useMutation<void, Error, string>((id) => registry.delete(id), {
+    onSuccess: () => {
+      toast.success(t("doNotCall.removed"))
+    },
+    onError: (error) => {
+      toast.error(`${t("doNotCall.removeError")}: ${translateError(error)}`)
+    },
+    onSettled: () => queryClient.invalidateQueries("doNotCall"),
+  })
+
+  return { addEntries, removeEntry }
+}
@@ -0,0 +1,72 @@
+import { useCallback } from "react"
+import { useQueryClient } from "react-query"
+import toast from "react-hot-toast"
+import { useI18n } from "../context/I18nContext"
+import type { MessageKey } from "../i18n"
+import { ConflictError } from "../repositories/conflicts"
+import type { Campaign } from "../types"
+
+// Lo que había en caché antes del cambio optimista, para volver atrás si la escritura falla
+export interface CampaignCacheSnapshot {
+  campaignId: string
+  list: Campaign[] | undefined
+  detail: Campaign | undefined
+}
+
+// Devuelve la campaña modificada, o null para quitarla
+type CampaignChange = (campaign: Campaign) => Campaign | null
+
+// Aplica los cambios en la caché de react-query antes de que termine la escritura, en la lista ("campaigns")
+// y en el detalle (["campaigns", id]). Al terminar, bien o mal, se vuelve a leer lo guardado
+export const useOptimisticCampaigns = () => {
+  const queryClient = useQueryClient()
+  const { t, translateError } = useI18n()
+
+  const apply = useCallback(
+    async (campaignId: string, change: CampaignChange): Promise<CampaignCacheSnapshot> => {
+      // Una lectura en curso podría pisar el cambio optimista al llegar
+      await queryClient.cancelQueries("campaigns")
+      const list = queryClient.getQueryData<Campaign[]>("campaigns")
+      const detail = queryClient.getQueryData<Campaign | undefined>(["campaigns", campaignId])
+
+      if (list) {
+        queryClient.setQueryData<Campaign[]>(
+          "campaigns",
+          list.flatMap((campaign) => (campaign.id === campaignId ? change(campaign) ?? [] : [campaign])),
+        )
+      }
+      if (detail) {
+        queryClient.setQueryData(["campaigns", campaignId], change(detail) ?? undefined)
+      }
+      return { campaignId, list, detail }
+    },
+    [queryClient],
+  )
+
+  // Los conflictos los resuelve el modal de conflictos; el resto se avisa con un toast
+  const reportError = useCallback(
+    (error: Error, message: MessageKey) => {
+      if (!(error instanceof ConflictError)) {
+        toast.error(`${t(message)}: ${translateError(error)}`)
+      }
+    },
+    [t, translateError],
+  )
+
+  const rollback = useCallback(
+    (snapshot: CampaignCacheSnapshot | undefined, error: Error, message: MessageKey) => {
+      if (snapshot?.list) {
+        queryClient.setQueryData("campaigns", snapshot.list)
+      }
+      if (snapshot?.detail) {
+        queryClient.setQueryData(["campaigns", snapshot.campaignId], snapshot.detail)
+      }
+      reportError(error, message)
+    },
+    [queryClient, reportError],
+  )
+
+  const settle = useCallback(() => queryClient.invalidateQueries("campaigns"), [queryClient])
+
+  return { apply, rollback, reportError, settle }
+}
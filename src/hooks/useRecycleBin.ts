@@ -0,0 +1,112 @@
+import { useMutation } from "react-query"
+import toast from "react-hot-toast"
+import { useI18n } from "../context/I18nContext"
+import { useCampaignRepository } from "../context/RepositoryContext"
+import type { Campaign } from "../types"
+import { purgePerson, restoreCampaign, restorePerson, softDeleteCampaign, softDeletePerson } from "../utils/recycleBin"
+import type { CampaignCacheSnapshot } from "./useOptimisticCampaigns"
+import { useOptimisticCampaigns } from "./useOptimisticCampaigns"
+
+interface PersonInTrash {
+  campaignId: string
+  personId: string
+  // Posición a la que vuelve al restaurarla; por defecto, al final
+  index?: number
+}
+
+// Mutaciones de la papelera, todas optimistas. Mandar una campaña a la papelera o eliminarla usa la revisión que
+// se ve en pantalla; lo demás se aplica sobre la versión guardada, como addPerson y removePerson del repositorio
+export const useRecycleBin = () => {
+  const repository = useCampaignRepository()
+  const optimistic = useOptimisticCampaigns()
+  const { t } = useI18n()
+
+  const updateStored = async (campaignId: string, change: (campaign: Campaign) => Campaign) => {
+    const stored = await repository.getById(campaignId)
+    if (!stored) {
+      throw new Error("campaign.error.notFound")
+    }
+    return repository.update(change(stored))
+  }
+
+  const moveCampaignToTrash = useMutation<Campaign, Error, Campaign, CampaignCacheSnapshot>(
+    (campaign) => repository.update(softDeleteCampaign(campaign)),
+    {
+      onMutate: (campaign) => optimistic.apply(campaign.id, (cached) => softDeleteCampaign(cached)),
+      onError: (error, _, snapshot) =>
+        optimistic.rollback(snapshot, error, "trash.campaignMoveError"),
+      onSettled: optimistic.settle,
+    },
+  )
+
+  const restoreCampaignFromTrash = useMutation<Campaign, Error, string, CampaignCacheSnapshot>(
+    (campaignId) => updateStored(campaignId, restoreCampaign),
+    {
+      onMutate: (campaignId) => optimistic.apply(campaignId, restoreCampaign),
+      onSuccess: () => {
+        toast.success(t("trash.campaignRestored"))
+      },
+      onError: (error, _, snapshot) => optimistic.rollback(snapshot, error, "trash.campaignRestoreError"),
+      onSettled: optimistic.settle,
+    },
+  )
+
+  const purgeCampaign = useMutation<void, Error, Campaign, CampaignCacheSnapshot>(
+    (campaign) => repository.delete(campaign.id, campaign.revision),
+    {
+      onMutate: (campaign) => optimistic.apply(campaign.id, () => null),
+      onSuccess: () => {
+        toast.success(t("trash.campaignPurged"))
+      },
+      onError: (error, _, snapshot) => optimistic.rollback(snapshot, error, "trash.campaignPurgeError"),
+      onSettled: optimistic.settle,
+    },
+  )
+
+  const movePersonToTrash = useMutation<Campaign, Error, PersonInTrash, CampaignCacheSnapshot>(
+    ({ campaignId, personId }) => updateStored(campaignId, (campaign) => softDeletePerson(campaign, personId)),
+    {
+      onMutate: ({ campaignId, personId }) =>
+        optimistic.apply(campaignId, (campaign) => softDeletePerson(campaign, personId)),
+      onError: (error, _, snapshot) =>
+        optimistic.rollback(snapshot, error, "trash.personMoveError"),
+      onSettled: optimistic.settle,
+    },
+  )
+
+  const restorePersonFromTrash = useMutation<Campaign, Error, PersonInTrash, CampaignCacheSnapshot>(
+    ({ campaignId, personId, index }) =>
+      updateStored(campaignId, (campaign) => restorePerson(campaign, personId, index)),
+    {
+      onMutate: ({ campaignId, personId, index }) =>
+        optimistic.apply(campaignId, (campaign) => restorePerson(campaign, personId, index)),
+      onSuccess: () => {
+        toast.success(t("trash.personRestored"))
+      },
+      onError: (error, _, snapshot) => optimistic.rollback(snapshot, error, "trash.personRestoreError"),
+      onSettled: optimistic.settle,
+    },
+  )
+
+  const purgeDeletedPerson = useMutation<Campaign, Error, PersonInTrash, CampaignCacheSnapshot>(
+    ({ campaignId, personId }) => updateStored(campaignId, (campaign) => purgePerson(campaign, personId)),
+    {
+      onMutate: ({ campaignId, personId }) =>
+        optimistic.apply(campaignId, (campaign) => purgePerson(campaign, personId)),
+      onSuccess: () => {
+        toast.success(t("trash.personPurged"))
+      },
+      onError: (error, _, snapshot) => optimistic.rollback(snapshot, error, "trash.personPurgeError"),
+      onSettled: optimistic.settle,
+    },
+  )
+
+  return {
+    moveCampaignToTrash,
+    restoreCampaignFromTrash,
+    purgeCampaign,
+    movePersonToTrash,
+    restorePersonFromTrash,
+    purgeDeletedPerson,
+  }
+}
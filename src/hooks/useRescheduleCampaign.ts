@@ -0,0 +1,42 @@
+import { useMutation } from "react-query"
+import toast from "react-hot-toast"
+import { useI18n } from "../context/I18nContext"
+import { useCampaignRepository } from "../context/RepositoryContext"
+import type { Campaign } from "../types"
+import { getRescheduleError, moveCampaignByDays } from "../utils/campaignSchedule"
+import type { CampaignCacheSnapshot } from "./useOptimisticCampaigns"
+import { useOptimisticCampaigns } from "./useOptimisticCampaigns"
+
+// Reprogramación al arrastrar en el calendario o la línea de tiempo. Valida antes de escribir y actualiza la
+// caché en el momento; la revisión de la campaña arrastrada detecta si otra pestaña la cambió mientras tanto
+export const useRescheduleCampaign = () => {
+  const repository = useCampaignRepository()
+  const optimistic = useOptimisticCampaigns()
+  const { t, translateMessage, formatDate } = useI18n()
+
+  const mutation = useMutation<Campaign, Error, Campaign, CampaignCacheSnapshot>(
+    (moved) => repository.update(moved),
+    {
+      onMutate: (moved) =>
+        optimistic.apply(moved.id, (cached) => ({ ...cached, startDate: moved.startDate, endDate: moved.endDate })),
+      onSuccess: (saved) => {
+        toast.success(t("schedule.rescheduled", { name: saved.name, date: formatDate(saved.startDate) }))
+      },
+      onError: (error, _, snapshot) => optimistic.rollback(snapshot, error, "schedule.rescheduleError"),
+      onSettled: optimistic.settle,
+    },
+  )
+
+  return (campaign: Campaign, days: number) => {
+    if (days === 0) {
+      return
+    }
+    const moved = moveCampaignByDays(campaign, days)
+    const error = getRescheduleError(moved)
+    if (error) {
+      toast.error(translateMessage(error))
+      return
+    }
+    mutation.mutate(moved)
+  }
+}
@@ -0,0 +1,22 @@
+import { useCallback, useState } from "react"
+
+// Series que el usuario ocultó haciendo clic en la leyenda de un gráfico
+export const useSeriesVisibility = () => {
+  const [hidden, setHidden] = useState<Set<string>>(new Set())
+
+  const toggle = useCallback(
+    (key: string) =>
+      setHidden((current) => {
+        const next = new Set(current)
+        if (next.has(key)) {
+          next.delete(key)
+        } else {
+          next.add(key)
+        }
+        return next
+      }),
+    [],
+  )
+
+  return { isHidden: (key: string) => hidden.has(key), toggle }
+}
@@ -0,0 +1,21 @@
+import { useEffect } from "react"
+import { useQueryClient } from "react-query"
+import toast from "react-hot-toast"
+import { useI18n } from "../context/I18nContext"
+import { useStatusScheduler } from "../context/SchedulerContext"
+
+// Refresca las campañas en pantalla y avisa cada vez que el planificador cambia un estado
+export const useStatusTransitionNotifications = () => {
+  const scheduler = useStatusScheduler()
+  const queryClient = useQueryClient()
+  const { t } = useI18n()
+
+  useEffect(
+    () =>
+      scheduler.subscribe((change) => {
+        queryClient.invalidateQueries("campaigns")
+        toast(t("status.scheduledChange", { name: change.campaignName, status: t(`status.${change.to}`) }))
+      }),
+    [scheduler, queryClient, t],
+  )
+}
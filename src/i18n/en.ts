@@ -0,0 +1,500 @@
+import type { Message } from "../types"
+import type { MessageKey } from "."
+
+export const en: Record<MessageKey, Message> = {
+  "app.title": "Phone Campaign Management",
+  "app.language": "Language",
+  "app.schedulerError": "Could not update the statuses",
+  "app.trashPurgeError": "Could not empty the trash",
+  "app.contactSeedError": "Could not complete the contact directory",
+
+  "locale.es": "Español",
+  "locale.en": "English",
+
+  "status.waiting": "Waiting",
+  "status.active": "Active",
+  "status.paused": "Paused",
+  "status.finished": "Finished",
+  "status.cancelled": "Cancelled",
+  "status.scheduledChange": 'Campaign "{name}" is now {status}',
+  "status.error.invalidTransition": 'Cannot change from "{from}" to "{to}"',
+  "status.error.invalidInitial": 'A campaign cannot be created with status "{status}"',
+
+  "transition.start": "Start now",
+  "transition.pause": "Pause",
+  "transition.finish": "Finish",
+  "transition.resume": "Resume",
+  "transition.cancel": "Cancel",
+  "transition.cause.manual": "Manual",
+  "transition.cause.schedule": "Scheduled",
+  "transition.cause.system": "System",
+  "transition.error.notAllowed": "This action is not available in the campaign's current status",
+  "transition.error.notYetScheduled": "The scheduled date for this change has not arrived yet",
+  "transition.error.endDatePassed": "The end date has passed; extend it to resume",
+
+  "weekday.0": "Sun",
+  "weekday.1": "Mon",
+  "weekday.2": "Tue",
+  "weekday.3": "Wed",
+  "weekday.4": "Thu",
+  "weekday.5": "Fri",
+  "weekday.6": "Sat",
+
+  "time.span": "{hours} h {minutes} min",
+  "time.spanWithDays": "{days} d {hours} h {minutes} min",
+
+  "callingWindow.summary": "{days} · {ranges} ({timeZone})",
+  "callingWindow.noDays": "No days",
+  "callingWindow.noRanges": "no time ranges",
+  "callingWindow.restrict": "Restrict calling hours",
+  "callingWindow.timeZone": "Time zone",
+  "callingWindow.days": "Days",
+  "callingWindow.timeRanges": "Time ranges",
+  "callingWindow.rangeSeparator": "to",
+  "callingWindow.addRange": "Add time range",
+  "callingWindow.blackoutDates": "Holidays and blocked days",
+  "callingWindow.blackoutDate": "Blocked day",
+  "callingWindow.removeBlackoutDate": "Remove {date}",
+  "callingWindow.open": "Within calling hours",
+  "callingWindow.next": "Next window: {date} ({timeZone})",
+  "callingWindow.noneLeft": "No calling windows left before the campaign ends",
+
+  "validation.storedDate": "Invalid date format, expected ISO-8601 in UTC",
+  "validation.person.nameLetters": "The first name may only contain letters and spaces",
+  "validation.person.lastNameLetters": "The last name may only contain letters and spaces",
+  "validation.person.missingId": "The person has no identifier",
+  "validation.phone.required": "The phone number is required",
+  "validation.phone.invalid": "The phone number is not valid for the selected country",
+  "validation.phone.duplicate": "A person with this phone number already exists in the campaign.",
+  "validation.phone.doNotCall": "The number is on the do-not-call list",
+  "validation.doNotCall.reasonRequired": "Enter the reason for the block",
+  "validation.doNotCall.reasonTooLong": "The reason cannot be longer than 200 characters",
+  "validation.doNotCall.expiryPast": "The expiry must be a future date",
+  "validation.attempt.durationInteger": "The duration must be a whole number",
+  "validation.attempt.durationNegative": "The duration cannot be negative",
+  "validation.attempt.notesTooLong": "Notes cannot exceed 500 characters",
+  "validation.callingWindow.time": 'Invalid time, expected "HH:mm"',
+  "validation.callingWindow.timeZone": "Unknown time zone",
+  "validation.callingWindow.weekday": "Invalid day",
+  "validation.callingWindow.weekdaysRequired": "Choose at least one weekday to call on",
+  "validation.callingWindow.rangeOrder": "The end of the time range must be after its start",
+  "validation.callingWindow.rangesRequired": "Add at least one time range",
+  "validation.callingWindow.blackoutDate": 'Invalid blocked date, expected "yyyy-MM-dd"',
+  "validation.campaign.missingId": "The campaign has no identifier",
+  "validation.campaign.nameRequired": "The name is required",
+  "validation.campaign.peopleRequired": "Add at least one person",
+  "validation.campaign.startDateRequired": "Select the start date.",
+  "validation.campaign.startDatePast": "The start date and time must be now or later.",
+  "validation.campaign.endDateRequired": "Select the end date.",
+  "validation.campaign.endDateBeforeStart": "The end date and time must be after the current or start date and time.",
+  "validation.campaign.windowNeverOpens": "The calling window never opens between the campaign's start and end.",
+
+  "campaign.error.notFound": "The campaign no longer exists",
+  "campaign.startDate": "Start date",
+  "campaign.endDate": "End date",
+  "campaign.pausedSince": "Paused since",
+  "campaign.viewDetail": "View details",
+  "campaign.started": "Campaign started",
+  "campaign.finished": "Campaign finished",
+  "campaign.paused": "Campaign paused",
+  "campaign.resumed": "Campaign resumed",
+  "campaign.cancelled": "Campaign cancelled",
+  "campaign.updated": "Campaign updated",
+  "campaign.statusChangeError": "Could not change the status",
+  "campaign.deleteNotAllowed": "Only waiting or cancelled campaigns can be deleted",
+  "campaign.confirmCancel": 'Are you sure you want to cancel the campaign "{name}"? It cannot be reactivated.',
+  "campaign.confirmDelete": 'Move the campaign "{name}" to the trash? You can restore it from there.',
+  "campaign.created": "Campaign created",
+  "campaign.updateError": "Could not update the campaign",
+  "campaign.createError": "Could not create the campaign",
+
+  "schedule.error.notWaiting": "Only waiting campaigns can be rescheduled",
+  "schedule.rescheduled": '"{name}" starts on {date}',
+  "schedule.rescheduleError": "Could not reschedule the campaign",
+  "schedule.view.month": "Month",
+  "schedule.view.week": "Week",
+  "schedule.view.timeline": "Timeline",
+  "schedule.weekTitle": "Week of {from} to {to}",
+  "schedule.loading": "Loading calendar...",
+  "schedule.previous": "Previous",
+  "schedule.today": "Today",
+  "schedule.next": "Next",
+  "schedule.dragHint": "Waiting campaigns can be dragged to reschedule them.",
+  "schedule.now": "Now {time}",
+  "schedule.dragTitle": "Drag to reschedule",
+  "schedule.emptyPeriod": "No campaigns in this period.",
+
+  "trash.error.duplicatePhone": "Another person in the campaign already has that phone number",
+  "trash.error.personNotFound": 'There is no person with id "{id}"',
+  "trash.error.personNotInTrash": 'The person with id "{id}" is not in the recycle bin',
+  "trash.campaignMoveError": "Could not move the campaign to the trash",
+  "trash.campaignRestored": "Campaign restored",
+  "trash.campaignRestoreError": "Could not restore the campaign",
+  "trash.campaignPurged": "Campaign permanently deleted",
+  "trash.campaignPurgeError": "Could not delete the campaign",
+  "trash.personMoveError": "Could not move the person to the trash",
+  "trash.personRestored": "Person restored",
+  "trash.personRestoreError": "Could not restore the person",
+  "trash.personPurged": "Person permanently deleted",
+  "trash.personPurgeError": "Could not delete the person",
+  "trash.campaignMoved": "Campaign moved to the trash",
+  "trash.personMoved": "{name} moved to the trash",
+  "trash.purgeNotice": "It will be permanently deleted on {date}",
+  "trash.loading": "Loading trash...",
+  "trash.loadError": "Error loading the trash. Please try again.",
+  "trash.title": "Trash",
+  "trash.retention": {
+    one: "Items are permanently deleted {count} day after being moved to the trash.",
+    other: "Items are permanently deleted {count} days after being moved to the trash.",
+  },
+  "trash.campaigns": "Campaigns",
+  "trash.campaignDeletedAt": "Moved to the trash on {date}.",
+  "trash.restore": "Restore",
+  "trash.purge": "Delete permanently",
+  "trash.noCampaigns": "There are no campaigns in the trash.",
+  "trash.people": "People",
+  "trash.personFrom": "From",
+  "trash.personDeletedAt": ", moved to the trash on {date}",
+  "trash.noPeople": "There are no people in the trash.",
+  "trash.confirmPurgeCampaign": 'The campaign "{name}" will be permanently deleted. This action cannot be undone.',
+  "trash.confirmPurgePerson": "{name} will be permanently deleted. This action cannot be undone.",
+
+  "dialer.error.notActive": "Only active campaigns can be dialed",
+  "dialer.attemptSaveError": "Could not save the attempt: {error}",
+  "dialer.title": "Automatic dialer",
+  "dialer.provider": "Provider: {name}",
+  "dialer.recording": "Recording calls",
+  "dialer.status.running": "Dialing",
+  "dialer.status.paused": "Paused",
+  "dialer.status.stopped": "Stopped",
+  "dialer.status.finished": "Queue completed",
+  "dialer.item.pending": "Queued",
+  "dialer.item.dialing": "Calling...",
+  "dialer.item.retry_scheduled": "Retry scheduled",
+  "dialer.item.completed": "Completed",
+  "dialer.item.exhausted": "No attempts left",
+  "dialer.item.error": "Error",
+  "dialer.item.blocked": "Do not call",
+  "dialer.concurrency": "Simultaneous calls",
+  "dialer.maxAttempts": "Attempts per person",
+  "dialer.retryDelay": "Delay between retries (s)",
+  "dialer.retryHint": "Unanswered calls and busy lines are retried.",
+  "dialer.noWindowsLeft": "No calling windows left before the campaign ends.",
+  "dialer.waitingForWindow": "Outside calling hours. Dialing resumes on {date} ({timeZone}).",
+  "dialer.start": "Start",
+  "dialer.loadingDoNotCall": "Loading the do-not-call list...",
+  "dialer.doNotCallUnavailable":
+    "The do-not-call list could not be read. The dialer cannot start until it is available again.",
+  "dialer.pause": "Pause",
+  "dialer.resume": "Resume",
+  "dialer.stop": "Stop",
+  "dialer.progress": { one: "{count} of {total} person processed", other: "{count} of {total} people processed" },
+  "dialer.attempts": "Attempts: {count}",
+  "dialer.empty": "There are no people left to call.",
+  "dialer.idleHint": "Start the dialer to call the pending people.",
+
+  "common.retry": "Retry",
+  "common.refreshing": "Refreshing...",
+  "common.add": "Add",
+  "common.cancel": "Cancel",
+  "common.delete": "Delete",
+  "common.edit": "Edit",
+  "common.view": "View",
+  "common.undo": "Undo",
+  "common.confirm": "Confirm",
+  "common.remove": "Remove",
+  "common.backToList": "Back to the list",
+  "common.yes": "Yes",
+  "common.no": "No",
+  "common.save": "Save",
+  "common.close": "Close",
+
+  "home.loading": "Loading campaigns...",
+  "home.retrying": "Retrying ({count}/{max})...",
+  "home.loadError": "Error loading the campaigns. Please try again.",
+  "home.loadErrorUnknown": "The data source returned an unexpected error.",
+  "home.summary": "Campaign Summary",
+  "home.dashboardLink": "View analytics dashboard",
+  "home.statsScope": "Totals to show",
+  "home.statsScope.all": "All campaigns",
+  "home.statsScope.filtered": "Filtered campaigns",
+  "home.stats.people": "People to contact",
+  "home.stats.active": "Active Campaigns",
+  "home.stats.finished": "Finished Campaigns",
+  "home.stats.waiting": "Waiting Campaigns",
+  "home.stats.paused": "Paused Campaigns",
+  "home.stats.cancelled": "Cancelled Campaigns",
+  "home.noCampaignsYet": "No campaigns have been created yet.",
+  "home.list": "Campaign List",
+  "home.calendarLink": "Calendar",
+  "home.trashLink": "Trash",
+  "home.contactsLink": "Contacts",
+  "home.doNotCallLink": "Do not call",
+  "home.newCampaign": "Create New Campaign",
+  "home.noMatches": "No campaigns match the filters.",
+  "home.empty": "There are no campaigns yet. Create your first one!",
+
+  "filters.searchPlaceholder": "Search by campaign, person or phone",
+  "filters.sortBy": "Sort by",
+  "filters.sort.name": "Name",
+  "filters.sort.startDate": "Start date",
+  "filters.sort.endDate": "End date",
+  "filters.sort.people": "Number of people",
+  "filters.ascending": "Ascending",
+  "filters.descending": "Descending",
+  "filters.from": "From",
+  "filters.to": "To",
+  "filters.resultCount": { one: "{count} of {total} campaign", other: "{count} of {total} campaigns" },
+  "filters.clear": "Clear filters",
+
+  "contactProgress.campaign": "Campaign",
+  "contactProgress.contactRate": "Contact rate",
+  "contactProgress.answeredRate": "Answer rate",
+  "contactProgress.pending": "Pending",
+
+  "people.associated": "Associated people",
+  "people.none": "No associated people",
+  "people.add": "Add Person",
+  "people.name": "First name",
+  "people.lastName": "Last name",
+  "people.addError": "Could not add the person",
+  "people.deleteNotAllowed": "People cannot be removed from a finished campaign.",
+  "people.deleteLast": "The last person in the campaign cannot be removed.",
+  "people.added": "Person added to the campaign",
+  "people.phone": "Phone",
+
+  "import.button": "Import",
+  "import.imported": { one: "{count} person imported", other: "{count} people imported" },
+  "import.error": "Could not import the people",
+  "import.fromFile": "Import from file",
+  "import.title": "Import people from a file",
+  "import.column": "Column {number}",
+  "import.emptyFile": "The file has no rows.",
+  "import.readError": "Could not read the file. Make sure it is a valid CSV or XLSX.",
+  "import.summary.imported": "Imported",
+  "import.summary.skipped": "Skipped due to errors",
+  "import.summary.duplicates": "Duplicates",
+  "import.summary.blocked": "On the do-not-call list",
+  "import.reading": "Reading file...",
+  "import.rows": { one: "{count} row", other: "{count} rows" },
+  "import.hasHeaderRow": "The first row contains the headers",
+  "import.defaultCountry": "Country for numbers without an international prefix",
+  "import.selectColumn": "Select a column",
+  "import.preview":
+    "{valid} valid, {invalid} with errors, {duplicates} duplicates, {blocked} on the do-not-call list.",
+  "import.row": "Row",
+  "import.result": "Result",
+  "import.previewLimit": "Showing the first {count} of {total} rows.",
+  "import.mappingHint": "Assign a column to each field to see the preview.",
+  "import.submit": { one: "Import {count} person", other: "Import {count} people" },
+
+  "confirmation.title": "Confirm action",
+
+  "form.title.view": "Campaign Details",
+  "form.title.edit": "Edit Campaign",
+  "form.title.create": "Create New Campaign",
+  "form.readOnly": "The campaign is {status} and cannot be modified.",
+  "form.partiallyEditable": "While the campaign is {status} only the name and end date can be modified.",
+  "form.name": "Name",
+  "form.initialStatus": "Initial status",
+  "form.startDate": "Start date and time",
+  "form.startDatePlaceholder": "Select start date and time",
+  "form.endDate": "End date and time",
+  "form.endDatePlaceholder": "Select end date and time",
+  "form.time": "Time",
+  "form.recordCalls": "Record call",
+  "form.noPeople": "There are no people associated with this campaign.",
+  "form.people": "Associated People",
+  "form.submit.update": "Update Campaign",
+  "form.submit.create": "Create Campaign",
+
+  "detail.loading": "Loading campaign...",
+  "detail.loadError": "Error loading the campaign. Please try again.",
+  "detail.notFound": "The campaign does not exist.",
+  "detail.inTrash": "This campaign has been in the trash since {date}.",
+  "detail.goToTrash": "Go to the trash",
+  "detail.viewForm": "View form",
+  "detail.createdAt": "Created at",
+  "detail.activeTime": "Time active",
+  "detail.callingWindow": "Calling hours",
+  "detail.unrestricted": "Unrestricted",
+  "detail.blackoutDates": "Blocked days: {dates}",
+  "detail.id": "Identifier",
+  "detail.statusHistory": "Status history",
+  "detail.createdAs": "Created as",
+  "detail.noStatusHistory": "No status changes recorded.",
+
+  "callOutcome.answered": "Answered",
+  "callOutcome.no_answer": "No answer",
+  "callOutcome.busy": "Busy",
+  "callOutcome.wrong_number": "Wrong number",
+  "callOutcome.voicemail": "Voicemail",
+
+  "attempt.log": "Log call",
+  "attempt.logged": "Call logged",
+  "attempt.attempts": "Attempts",
+  "attempt.lastOutcome": "Last outcome",
+  "attempt.pending": "Pending",
+  "attempt.onlyActive": "Calls can only be logged for active campaigns",
+  "attempt.outcome": "Outcome",
+  "attempt.duration": "Duration",
+  "attempt.minutes": "Minutes",
+  "attempt.seconds": "Seconds",
+  "attempt.notes": "Notes",
+  "attempt.automatic": "Automatic call ({provider})",
+
+  "resume.title": "Resume campaign",
+  "resume.description": '"{name}" has been paused since {date}. Choose what to do with the end date.',
+  "resume.policy.keep": "Keep the end date",
+  "resume.policy.extend": "Extend the end date by the length of the pause",
+  "resume.newEndDate": "New end date: {date}",
+
+  "phone.country": "Country",
+  "phone.placeholder": "Phone number",
+
+  "dashboard.loading": "Loading dashboard...",
+  "dashboard.title": "Analytics dashboard",
+  "dashboard.lastDays": { one: "Last day", other: "Last {count} days" },
+  "dashboard.dateRange": "Date range",
+  "dashboard.byStatus": "Campaigns by status",
+  "dashboard.contactsPerDay": "People contacted per day",
+  "dashboard.series.contacted": "Contacted",
+  "dashboard.series.attempts": "Attempts",
+  "dashboard.series.answered": "Answered",
+  "dashboard.averageDuration": "Average duration",
+  "dashboard.plannedDuration": { one: "Planned ({count} campaign)", other: "Planned ({count} campaigns)" },
+  "dashboard.activeDuration": "Time active of completed campaigns",
+  "dashboard.emptyRange": "No campaigns in the selected range.",
+  "dashboard.upcoming": { one: "Next day", other: "Next {count} days" },
+  "dashboard.startsAt": "Starts on {date}",
+  "dashboard.endsAt": "Ends on {date}",
+  "dashboard.noUpcoming": "No upcoming starts or ends.",
+  "dashboard.topCampaigns": "Largest campaigns",
+  "dashboard.people": "People",
+
+  "conflict.field.name": "Name: {value}",
+  "conflict.field.status": "Status: {value}",
+  "conflict.field.start": "Start: {value}",
+  "conflict.field.end": "End: {value}",
+  "conflict.field.people": "People: {value}",
+  "conflict.saved": "Your changes were saved",
+  "conflict.saveError": "Your changes could not be saved",
+  "conflict.changedAgain": "The campaign changed again; review the stored version before overwriting it",
+  "conflict.title": "The campaign changed while you were editing it",
+  "conflict.changed": 'The campaign "{name}" changed.',
+  "conflict.deleted": "The campaign was deleted.",
+  "conflict.hint": "Choose whether to keep the saved version or replace it with your changes.",
+  "conflict.stored": "Saved version",
+  "conflict.storedDeleted": "The campaign was deleted.",
+  "conflict.attempted": "Your changes",
+  "conflict.attemptedDelete": "Delete the campaign.",
+  "conflict.discard": "Discard my changes",
+  "conflict.overwrite": "Overwrite with my changes",
+  "conflict.recreate": "Create it again",
+  "conflict.deleteAnyway": "Delete anyway",
+  "conflict.error.deleted": 'The campaign "{id}" was deleted',
+  "conflict.error.changed": 'The campaign "{name}" changed (revision {current}, expected {expected})',
+  "conflict.error.remote": "The campaign changed somewhere else",
+
+  "contacts.title": "Contacts",
+  "contacts.loading": "Loading contacts...",
+  "contacts.loadError": "Error loading the contacts. Please try again.",
+  "contacts.count": { one: "{count} contact in the directory", other: "{count} contacts in the directory" },
+  "contacts.search": "Search by first name, last name or phone",
+  "contacts.onlyDuplicates": "Possible duplicates only",
+  "contacts.empty": "No contacts yet. They are added when people join a campaign.",
+  "contacts.noMatches": "No contacts match the search.",
+  "contacts.select": "Select {name}",
+  "contacts.possibleDuplicate": "Possible duplicate",
+  "contacts.campaigns": { one: "{count} campaign", other: "{count} campaigns" },
+  "contacts.showHistory": "History",
+  "contacts.hideHistory": "Hide history",
+  "contacts.saved": {
+    one: "Contact saved. {count} campaign updated",
+    other: "Contact saved. {count} campaigns updated",
+  },
+  "contacts.saveError": "Could not save the contact",
+  "contacts.partialUpdate": "These campaigns could not be updated: {names}",
+  "contacts.merged": {
+    one: "Contacts merged. {count} campaign updated",
+    other: "Contacts merged. {count} campaigns updated",
+  },
+  "contacts.mergeError": "Could not merge the contacts",
+  "contacts.error.duplicatePhone": "Another contact already has that phone; merge them instead",
+  "contacts.error.notFound": "The contact no longer exists",
+  "contacts.error.blockedPhone": "The new phone number is on the do-not-call list",
+  "contacts.mergeKeptDuplicates": "The duplicates were kept until all their campaigns are updated",
+  "contacts.merge.title": "Merge {count} contacts",
+  "contacts.merge.keep": "Keep the name and phone of:",
+  "contacts.merge.button": "Merge",
+  "contacts.merge.clear": "Clear selection",
+  "contacts.confirmMerge":
+    "The {count} selected contacts will become {name}, with all their campaigns and call attempts. This cannot be undone.",
+  "contacts.history.title": "Campaign participation",
+  "contacts.history.empty": "Not part of any campaign.",
+  "contacts.history.period": "{start} – {end}",
+  "contacts.history.attempts": { one: "{count} attempt", other: "{count} attempts" },
+  "contacts.history.lastAttempt": "last on {date} ({outcome})",
+  "contacts.history.removed": "Removed from the campaign",
+  "contacts.history.campaignDeleted": "Campaign in the trash",
+  "contacts.linkedExisting": "That phone already belongs to {name}; their directory details were used",
+
+  "doNotCall.title": "Do-not-call list",
+  "doNotCall.description": "Numbers that cannot be called or added to a campaign while their block is in effect.",
+  "doNotCall.loading": "Loading the do-not-call list...",
+  "doNotCall.loadError": "Error loading the do-not-call list. Please try again.",
+  "doNotCall.count": { one: "{count} number on the list", other: "{count} numbers on the list" },
+  "doNotCall.search": "Search by phone or reason",
+  "doNotCall.empty": "The do-not-call list is empty.",
+  "doNotCall.noMatches": "No number matches the search.",
+  "doNotCall.addTitle": "Add a number",
+  "doNotCall.reason": "Reason",
+  "doNotCall.expiresAt": "Expiry",
+  "doNotCall.noExpiry": "No expiry",
+  "doNotCall.add": "Add to list",
+  "doNotCall.active": "In effect",
+  "doNotCall.expired": "Expired",
+  "doNotCall.addedAt": "Added on {date}",
+  "doNotCall.expiresOn": "expires on {date}",
+  "doNotCall.inCampaigns": { one: "In {count} campaign", other: "In {count} campaigns" },
+  "doNotCall.remove": "Remove",
+  "doNotCall.confirmRemove": "Remove {phone} from the do-not-call list? That number could be called again.",
+  "doNotCall.added": { one: "List updated: {count} number", other: "List updated: {count} numbers" },
+  "doNotCall.saveError": "Could not save the do-not-call list",
+  "doNotCall.removed": "Number removed from the do-not-call list",
+  "doNotCall.removeError": "Could not remove the number",
+  "doNotCall.error.blocked": "Some numbers are on the do-not-call list and cannot be added to the campaign",
+  "doNotCall.badge": "Do not call",
+  "doNotCall.badgeHint": "The number is on the do-not-call list and the dialer skips it",
+  "doNotCall.campaignWarning": {
+    one: "{count} person is on the do-not-call list",
+    other: "{count} people are on the do-not-call list",
+  },
+  "doNotCall.activationBlocked": {
+    one: "Cannot activate: {count} person is on the do-not-call list. Remove them first.",
+    other: "Cannot activate: {count} people are on the do-not-call list. Remove them first.",
+  },
+  "doNotCall.scheduledStartSkipped":
+    'Campaign "{name}" did not start on its date because it has people on the do-not-call list. Remove them to start it.',
+  "doNotCall.import.title": "Import from file",
+  "doNotCall.import.hint":
+    "CSV or Excel with the phone and, optionally, the reason and expiry (yyyy-mm-dd or dd/mm/yyyy).",
+  "doNotCall.import.reason": "Reason for rows without one",
+  "doNotCall.import.defaultReason": "Imported opt-out list",
+  "doNotCall.import.button": "Import",
+  "doNotCall.import.result": {
+    one: "{count} number read, {invalid} invalid rows.",
+    other: "{count} numbers read, {invalid} invalid rows.",
+  },
+  "doNotCall.import.invalidRows": "Rows with errors: {rows}",
+  "repository.error.campaignNotFound": 'There is no campaign with id "{id}"',
+  "repository.error.campaignExists": 'A campaign with id "{id}" already exists',
+  "repository.error.contactNotFound": 'There is no contact with id "{id}"',
+  "repository.error.contactExists": 'A contact with id "{id}" already exists',
+  "storage.error.unrecognized": "The stored content has an unrecognized format",
+  "storage.error.unrecognizedKey": 'The content stored under the key "{key}" has an unrecognized format',
+  "storage.error.newerVersion": "The stored data has version {version}, newer than the supported one ({supported}).",
+  "storage.error.migrationFailed": "Migration to version {version} ({description}) failed: {reason}.",
+  "storage.error.migrationFailedWithBackup":
+    "Migration to version {version} ({description}) failed: {reason}. A copy of the original content was kept in {backup}.",
+}
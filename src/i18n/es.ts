@@ -0,0 +1,503 @@
+import type { Message } from "../types"
+
+// Catálogo de referencia: sus claves son las que deben traducir los demás idiomas
+export const es = {
+  "app.title": "Gestión de Campañas Telefónicas",
+  "app.language": "Idioma",
+  "app.schedulerError": "No se pudieron actualizar los estados",
+  "app.trashPurgeError": "No se pudo vaciar la papelera",
+  "app.contactSeedError": "No se pudo completar el directorio de contactos",
+
+  "locale.es": "Español",
+  "locale.en": "English",
+
+  "status.waiting": "En espera",
+  "status.active": "Activa",
+  "status.paused": "Pausada",
+  "status.finished": "Finalizada",
+  "status.cancelled": "Cancelada",
+  "status.scheduledChange": 'La campaña "{name}" pasó a {status}',
+  "status.error.invalidTransition": 'No se puede pasar de "{from}" a "{to}"',
+  "status.error.invalidInitial": 'Una campaña no puede crearse en estado "{status}"',
+
+  "transition.start": "Iniciar ahora",
+  "transition.pause": "Pausar",
+  "transition.finish": "Finalizar",
+  "transition.resume": "Reanudar",
+  "transition.cancel": "Cancelar",
+  "transition.cause.manual": "Manual",
+  "transition.cause.schedule": "Programado",
+  "transition.cause.system": "Sistema",
+  "transition.error.notAllowed": "Esta acción no está disponible en el estado actual de la campaña",
+  "transition.error.notYetScheduled": "Todavía no llegó la fecha programada para este cambio",
+  "transition.error.endDatePassed": "La fecha de fin ya pasó; para reanudar hay que extenderla",
+
+  "weekday.0": "Dom",
+  "weekday.1": "Lun",
+  "weekday.2": "Mar",
+  "weekday.3": "Mié",
+  "weekday.4": "Jue",
+  "weekday.5": "Vie",
+  "weekday.6": "Sáb",
+
+  "time.span": "{hours} h {minutes} min",
+  "time.spanWithDays": "{days} d {hours} h {minutes} min",
+
+  "callingWindow.summary": "{days} · {ranges} ({timeZone})",
+  "callingWindow.noDays": "Ningún día",
+  "callingWindow.noRanges": "sin franjas",
+  "callingWindow.restrict": "Restringir horario de llamadas",
+  "callingWindow.timeZone": "Zona horaria",
+  "callingWindow.days": "Días",
+  "callingWindow.timeRanges": "Franjas horarias",
+  "callingWindow.rangeSeparator": "a",
+  "callingWindow.addRange": "Agregar franja",
+  "callingWindow.blackoutDates": "Feriados y días bloqueados",
+  "callingWindow.blackoutDate": "Día bloqueado",
+  "callingWindow.removeBlackoutDate": "Quitar {date}",
+  "callingWindow.open": "En horario de llamadas",
+  "callingWindow.next": "Próxima ventana: {date} ({timeZone})",
+  "callingWindow.noneLeft": "No quedan ventanas de llamadas antes del fin de la campaña",
+
+  "validation.storedDate": "Fecha con formato inválido, se esperaba ISO-8601 en UTC",
+  "validation.person.nameLetters": "El nombre solo debe contener letras y espacios",
+  "validation.person.lastNameLetters": "El apellido solo debe contener letras y espacios",
+  "validation.person.missingId": "La persona no tiene identificador",
+  "validation.phone.required": "El número de teléfono es obligatorio",
+  "validation.phone.invalid": "El número de teléfono no es válido para el país seleccionado",
+  "validation.phone.duplicate": "Ya existe una persona con este número de teléfono en la campaña.",
+  "validation.phone.doNotCall": "El número está en la lista de no llamar",
+  "validation.doNotCall.reasonRequired": "Indique el motivo del bloqueo",
+  "validation.doNotCall.reasonTooLong": "El motivo no puede superar los 200 caracteres",
+  "validation.doNotCall.expiryPast": "El vencimiento tiene que ser una fecha futura",
+  "validation.attempt.durationInteger": "La duración debe ser un número entero",
+  "validation.attempt.durationNegative": "La duración no puede ser negativa",
+  "validation.attempt.notesTooLong": "Las notas no pueden superar los 500 caracteres",
+  "validation.callingWindow.time": 'Hora inválida, se esperaba "HH:mm"',
+  "validation.callingWindow.timeZone": "Zona horaria desconocida",
+  "validation.callingWindow.weekday": "Día inválido",
+  "validation.callingWindow.weekdaysRequired": "Elija al menos un día de la semana para llamar",
+  "validation.callingWindow.rangeOrder": "La hora de fin de la franja debe ser posterior a la de inicio",
+  "validation.callingWindow.rangesRequired": "Agregue al menos una franja horaria",
+  "validation.callingWindow.blackoutDate": 'Fecha bloqueada inválida, se esperaba "yyyy-MM-dd"',
+  "validation.campaign.missingId": "La campaña no tiene identificador",
+  "validation.campaign.nameRequired": "El nombre es obligatorio",
+  "validation.campaign.peopleRequired": "Agregue al menos una persona",
+  "validation.campaign.startDateRequired": "Seleccione la fecha de inicio.",
+  "validation.campaign.startDatePast": "La fecha y hora de inicio debe ser igual o posterior a la fecha y hora actual.",
+  "validation.campaign.endDateRequired": "Seleccione la fecha de fin.",
+  "validation.campaign.endDateBeforeStart":
+    "La fecha y hora de fin debe ser posterior a la fecha y hora actual o de inicio.",
+  "validation.campaign.windowNeverOpens":
+    "La ventana de llamadas no se abre ninguna vez entre el inicio y el fin de la campaña.",
+
+  "campaign.error.notFound": "La campaña ya no existe",
+  "campaign.startDate": "Fecha de inicio",
+  "campaign.endDate": "Fecha de fin",
+  "campaign.pausedSince": "Pausada desde",
+  "campaign.viewDetail": "Ver detalle",
+  "campaign.started": "Campaña iniciada",
+  "campaign.finished": "Campaña finalizada",
+  "campaign.paused": "Campaña pausada",
+  "campaign.resumed": "Campaña reanudada",
+  "campaign.cancelled": "Campaña cancelada",
+  "campaign.updated": "Campaña actualizada",
+  "campaign.statusChangeError": "No se pudo cambiar el estado",
+  "campaign.deleteNotAllowed": "Solo se pueden eliminar campañas en espera o canceladas",
+  "campaign.confirmCancel": '¿Está seguro de que desea cancelar la campaña "{name}"? No podrá reactivarse.',
+  "campaign.confirmDelete": '¿Desea enviar la campaña "{name}" a la papelera? Podrá restaurarla desde allí.',
+  "campaign.created": "Campaña creada",
+  "campaign.updateError": "No se pudo actualizar la campaña",
+  "campaign.createError": "No se pudo crear la campaña",
+
+  "schedule.error.notWaiting": "Solo se pueden reprogramar campañas en espera",
+  "schedule.rescheduled": '"{name}" empieza el {date}',
+  "schedule.rescheduleError": "No se pudo reprogramar la campaña",
+  "schedule.view.month": "Mes",
+  "schedule.view.week": "Semana",
+  "schedule.view.timeline": "Línea de tiempo",
+  "schedule.weekTitle": "Semana del {from} al {to}",
+  "schedule.loading": "Cargando calendario...",
+  "schedule.previous": "Anterior",
+  "schedule.today": "Hoy",
+  "schedule.next": "Siguiente",
+  "schedule.dragHint": "Las campañas en espera se pueden arrastrar para reprogramarlas.",
+  "schedule.now": "Ahora {time}",
+  "schedule.dragTitle": "Arrastre para reprogramar",
+  "schedule.emptyPeriod": "No hay campañas en este período.",
+
+  "trash.error.duplicatePhone": "Ya hay otra persona con ese teléfono en la campaña",
+  "trash.error.personNotFound": 'No existe la persona con id "{id}"',
+  "trash.error.personNotInTrash": 'La persona con id "{id}" no está en la papelera',
+  "trash.campaignMoveError": "No se pudo mover la campaña a la papelera",
+  "trash.campaignRestored": "Campaña restaurada",
+  "trash.campaignRestoreError": "No se pudo restaurar la campaña",
+  "trash.campaignPurged": "Campaña eliminada definitivamente",
+  "trash.campaignPurgeError": "No se pudo eliminar la campaña",
+  "trash.personMoveError": "No se pudo mover la persona a la papelera",
+  "trash.personRestored": "Persona restaurada",
+  "trash.personRestoreError": "No se pudo restaurar la persona",
+  "trash.personPurged": "Persona eliminada definitivamente",
+  "trash.personPurgeError": "No se pudo eliminar la persona",
+  "trash.campaignMoved": "Campaña enviada a la papelera",
+  "trash.personMoved": "{name} enviado a la papelera",
+  "trash.purgeNotice": "Se elimina definitivamente el {date}",
+  "trash.loading": "Cargando papelera...",
+  "trash.loadError": "Error al cargar la papelera. Por favor, intente de nuevo.",
+  "trash.title": "Papelera",
+  "trash.retention": {
+    one: "Los elementos se eliminan definitivamente {count} día después de enviarlos a la papelera.",
+    other: "Los elementos se eliminan definitivamente {count} días después de enviarlos a la papelera.",
+  },
+  "trash.campaigns": "Campañas",
+  "trash.campaignDeletedAt": "Enviada a la papelera el {date}.",
+  "trash.restore": "Restaurar",
+  "trash.purge": "Eliminar definitivamente",
+  "trash.noCampaigns": "No hay campañas en la papelera.",
+  "trash.people": "Personas",
+  "trash.personFrom": "De",
+  "trash.personDeletedAt": ", enviada a la papelera el {date}",
+  "trash.noPeople": "No hay personas en la papelera.",
+  "trash.confirmPurgeCampaign": 'La campaña "{name}" se eliminará definitivamente. Esta acción no se puede deshacer.',
+  "trash.confirmPurgePerson": "{name} se eliminará definitivamente. Esta acción no se puede deshacer.",
+
+  "dialer.error.notActive": "Solo se pueden marcar campañas activas",
+  "dialer.attemptSaveError": "No se pudo guardar el intento: {error}",
+  "dialer.title": "Marcador automático",
+  "dialer.provider": "Proveedor: {name}",
+  "dialer.recording": "Grabando llamadas",
+  "dialer.status.running": "Marcando",
+  "dialer.status.paused": "En pausa",
+  "dialer.status.stopped": "Detenido",
+  "dialer.status.finished": "Cola completada",
+  "dialer.item.pending": "En cola",
+  "dialer.item.dialing": "Llamando...",
+  "dialer.item.retry_scheduled": "Reintento programado",
+  "dialer.item.completed": "Completada",
+  "dialer.item.exhausted": "Sin más intentos",
+  "dialer.item.error": "Error",
+  "dialer.item.blocked": "No llamar",
+  "dialer.concurrency": "Llamadas simultáneas",
+  "dialer.maxAttempts": "Intentos por persona",
+  "dialer.retryDelay": "Espera entre reintentos (s)",
+  "dialer.retryHint": "Se reintentan las llamadas sin respuesta y las líneas ocupadas.",
+  "dialer.noWindowsLeft": "No quedan ventanas de llamadas antes del fin de la campaña.",
+  "dialer.waitingForWindow": "Fuera del horario de llamadas. El marcado se retoma el {date} ({timeZone}).",
+  "dialer.start": "Iniciar",
+  "dialer.loadingDoNotCall": "Cargando la lista de no llamar...",
+  "dialer.doNotCallUnavailable":
+    "No se pudo leer la lista de no llamar. El marcador no se puede iniciar hasta que vuelva a estar disponible.",
+  "dialer.pause": "Pausar",
+  "dialer.resume": "Reanudar",
+  "dialer.stop": "Detener",
+  "dialer.progress": { one: "{count} de {total} persona procesada", other: "{count} de {total} personas procesadas" },
+  "dialer.attempts": "Intentos: {count}",
+  "dialer.empty": "No hay personas pendientes de llamar.",
+  "dialer.idleHint": "Inicie el marcador para llamar a las personas pendientes.",
+
+  "common.retry": "Reintentar",
+  "common.refreshing": "Actualizando...",
+  "common.add": "Agregar",
+  "common.cancel": "Cancelar",
+  "common.delete": "Eliminar",
+  "common.edit": "Editar",
+  "common.view": "Ver",
+  "common.undo": "Deshacer",
+  "common.confirm": "Confirmar",
+  "common.remove": "Quitar",
+  "common.backToList": "Volver a la lista",
+  "common.yes": "Sí",
+  "common.no": "No",
+  "common.save": "Guardar",
+  "common.close": "Cerrar",
+
+  "home.loading": "Cargando campañas...",
+  "home.retrying": "Reintentando ({count}/{max})...",
+  "home.loadError": "Error al cargar las campañas. Por favor, intente de nuevo.",
+  "home.loadErrorUnknown": "El origen de datos devolvió un error inesperado.",
+  "home.summary": "Resumen de Campañas",
+  "home.dashboardLink": "Ver panel de análisis",
+  "home.statsScope": "Totales a mostrar",
+  "home.statsScope.all": "Todas las campañas",
+  "home.statsScope.filtered": "Campañas filtradas",
+  "home.stats.people": "Personas a contactar",
+  "home.stats.active": "Campañas Activas",
+  "home.stats.finished": "Campañas Finalizadas",
+  "home.stats.waiting": "Campañas En espera",
+  "home.stats.paused": "Campañas Pausadas",
+  "home.stats.cancelled": "Campañas Canceladas",
+  "home.noCampaignsYet": "No hay campañas creadas aún.",
+  "home.list": "Lista de Campañas",
+  "home.calendarLink": "Calendario",
+  "home.trashLink": "Papelera",
+  "home.contactsLink": "Contactos",
+  "home.doNotCallLink": "No llamar",
+  "home.newCampaign": "Crear Nueva Campaña",
+  "home.noMatches": "Ninguna campaña coincide con los filtros.",
+  "home.empty": "No hay campañas creadas. ¡Crea tu primera campaña!",
+
+  "filters.searchPlaceholder": "Buscar por campaña, persona o teléfono",
+  "filters.sortBy": "Ordenar por",
+  "filters.sort.name": "Nombre",
+  "filters.sort.startDate": "Fecha de inicio",
+  "filters.sort.endDate": "Fecha de fin",
+  "filters.sort.people": "Cantidad de personas",
+  "filters.ascending": "Ascendente",
+  "filters.descending": "Descendente",
+  "filters.from": "Desde",
+  "filters.to": "Hasta",
+  "filters.resultCount": { one: "{count} de {total} campaña", other: "{count} de {total} campañas" },
+  "filters.clear": "Limpiar filtros",
+
+  "contactProgress.campaign": "Campaña",
+  "contactProgress.contactRate": "Tasa de contacto",
+  "contactProgress.answeredRate": "Tasa de atención",
+  "contactProgress.pending": "Pendientes",
+
+  "people.associated": "Personas asociadas",
+  "people.none": "No hay personas asociadas",
+  "people.add": "Agregar Persona",
+  "people.name": "Nombre",
+  "people.lastName": "Apellido",
+  "people.addError": "No se pudo agregar la persona",
+  "people.deleteNotAllowed": "No se pueden eliminar personas de una campaña finalizada.",
+  "people.deleteLast": "No se puede eliminar la última persona asociada a la campaña.",
+  "people.added": "Persona agregada a la campaña",
+  "people.phone": "Teléfono",
+
+  "import.button": "Importar",
+  "import.imported": { one: "{count} persona importada", other: "{count} personas importadas" },
+  "import.error": "No se pudieron importar las personas",
+  "import.fromFile": "Importar desde archivo",
+  "import.title": "Importar personas desde archivo",
+  "import.column": "Columna {number}",
+  "import.emptyFile": "El archivo no contiene filas.",
+  "import.readError": "No se pudo leer el archivo. Verifique que sea un CSV o XLSX válido.",
+  "import.summary.imported": "Importadas",
+  "import.summary.skipped": "Omitidas por errores",
+  "import.summary.duplicates": "Duplicadas",
+  "import.summary.blocked": "En la lista de no llamar",
+  "import.reading": "Leyendo archivo...",
+  "import.rows": { one: "{count} fila", other: "{count} filas" },
+  "import.hasHeaderRow": "La primera fila contiene los encabezados",
+  "import.defaultCountry": "País para números sin prefijo internacional",
+  "import.selectColumn": "Seleccione una columna",
+  "import.preview":
+    "{valid} válidas, {invalid} con errores, {duplicates} duplicadas, {blocked} en la lista de no llamar.",
+  "import.row": "Fila",
+  "import.result": "Resultado",
+  "import.previewLimit": "Mostrando las primeras {count} de {total} filas.",
+  "import.mappingHint": "Asigne una columna a cada campo para ver la vista previa.",
+  "import.submit": { one: "Importar {count} persona", other: "Importar {count} personas" },
+
+  "confirmation.title": "Confirmar acción",
+
+  "form.title.view": "Detalle de Campaña",
+  "form.title.edit": "Editar Campaña",
+  "form.title.create": "Crear Nueva Campaña",
+  "form.readOnly": "La campaña está {status} y no puede modificarse.",
+  "form.partiallyEditable": "Mientras la campaña está {status} solo se pueden modificar el nombre y la fecha de fin.",
+  "form.name": "Nombre",
+  "form.initialStatus": "Estado inicial",
+  "form.startDate": "Fecha y hora de inicio",
+  "form.startDatePlaceholder": "Seleccione fecha y hora de inicio",
+  "form.endDate": "Fecha y hora de fin",
+  "form.endDatePlaceholder": "Seleccione fecha y hora de fin",
+  "form.time": "Hora",
+  "form.recordCalls": "Grabar llamada",
+  "form.noPeople": "No hay personas asociadas a esta campaña.",
+  "form.people": "Personas Asociadas",
+  "form.submit.update": "Actualizar Campaña",
+  "form.submit.create": "Crear Campaña",
+
+  "detail.loading": "Cargando campaña...",
+  "detail.loadError": "Error al cargar la campaña. Por favor, intente de nuevo.",
+  "detail.notFound": "La campaña no existe.",
+  "detail.inTrash": "Esta campaña está en la papelera desde {date}.",
+  "detail.goToTrash": "Ir a la papelera",
+  "detail.viewForm": "Ver formulario",
+  "detail.createdAt": "Fecha de creación",
+  "detail.activeTime": "Tiempo activa",
+  "detail.callingWindow": "Horario de llamadas",
+  "detail.unrestricted": "Sin restricción",
+  "detail.blackoutDates": "Días bloqueados: {dates}",
+  "detail.id": "Identificador",
+  "detail.statusHistory": "Historial de estados",
+  "detail.createdAs": "Creada como",
+  "detail.noStatusHistory": "No hay cambios de estado registrados.",
+
+  "callOutcome.answered": "Atendida",
+  "callOutcome.no_answer": "Sin respuesta",
+  "callOutcome.busy": "Ocupado",
+  "callOutcome.wrong_number": "Número equivocado",
+  "callOutcome.voicemail": "Buzón de voz",
+
+  "attempt.log": "Registrar llamada",
+  "attempt.logged": "Llamada registrada",
+  "attempt.attempts": "Intentos",
+  "attempt.lastOutcome": "Último resultado",
+  "attempt.pending": "Pendiente",
+  "attempt.onlyActive": "Solo se registran llamadas en campañas activas",
+  "attempt.outcome": "Resultado",
+  "attempt.duration": "Duración",
+  "attempt.minutes": "Minutos",
+  "attempt.seconds": "Segundos",
+  "attempt.notes": "Notas",
+  "attempt.automatic": "Llamada automática ({provider})",
+
+  "resume.title": "Reanudar campaña",
+  "resume.description": '"{name}" está pausada desde {date}. Elija qué hacer con la fecha de fin.',
+  "resume.policy.keep": "Mantener la fecha de fin",
+  "resume.policy.extend": "Extender la fecha de fin lo que duró la pausa",
+  "resume.newEndDate": "Nueva fecha de fin: {date}",
+
+  "phone.country": "País",
+  "phone.placeholder": "Número de teléfono",
+
+  "dashboard.loading": "Cargando panel...",
+  "dashboard.title": "Panel de análisis",
+  "dashboard.lastDays": { one: "Último día", other: "Últimos {count} días" },
+  "dashboard.dateRange": "Rango de fechas",
+  "dashboard.byStatus": "Campañas por estado",
+  "dashboard.contactsPerDay": "Personas contactadas por día",
+  "dashboard.series.contacted": "Contactadas",
+  "dashboard.series.attempts": "Intentos",
+  "dashboard.series.answered": "Atendidas",
+  "dashboard.averageDuration": "Duración promedio",
+  "dashboard.plannedDuration": { one: "Planificada ({count} campaña)", other: "Planificada ({count} campañas)" },
+  "dashboard.activeDuration": "Tiempo activa de las terminadas",
+  "dashboard.emptyRange": "No hay campañas en el rango elegido.",
+  "dashboard.upcoming": { one: "Próximo día", other: "Próximos {count} días" },
+  "dashboard.startsAt": "Empieza el {date}",
+  "dashboard.endsAt": "Termina el {date}",
+  "dashboard.noUpcoming": "No hay inicios ni cierres próximos.",
+  "dashboard.topCampaigns": "Campañas más grandes",
+  "dashboard.people": "Personas",
+
+  "conflict.field.name": "Nombre: {value}",
+  "conflict.field.status": "Estado: {value}",
+  "conflict.field.start": "Inicio: {value}",
+  "conflict.field.end": "Fin: {value}",
+  "conflict.field.people": "Personas: {value}",
+  "conflict.saved": "Se guardaron sus cambios",
+  "conflict.saveError": "No se pudieron guardar sus cambios",
+  "conflict.changedAgain": "La campaña volvió a cambiar; revise la versión guardada antes de sobrescribirla",
+  "conflict.title": "La campaña cambió mientras la editaba",
+  "conflict.changed": 'La campaña "{name}" cambió.',
+  "conflict.deleted": "La campaña fue eliminada.",
+  "conflict.hint": "Elija si conserva la versión guardada o la reemplaza con sus cambios.",
+  "conflict.stored": "Versión guardada",
+  "conflict.storedDeleted": "La campaña fue eliminada.",
+  "conflict.attempted": "Sus cambios",
+  "conflict.attemptedDelete": "Eliminar la campaña.",
+  "conflict.discard": "Descartar mis cambios",
+  "conflict.overwrite": "Sobrescribir con mis cambios",
+  "conflict.recreate": "Volver a crearla",
+  "conflict.deleteAnyway": "Eliminar igualmente",
+  "conflict.error.deleted": 'La campaña "{id}" fue eliminada',
+  "conflict.error.changed": 'La campaña "{name}" cambió (revisión {current}, se esperaba {expected})',
+  "conflict.error.remote": "La campaña cambió en otro lugar",
+
+  "contacts.title": "Contactos",
+  "contacts.loading": "Cargando contactos...",
+  "contacts.loadError": "Error al cargar los contactos. Por favor, intente de nuevo.",
+  "contacts.count": { one: "{count} contacto en el directorio", other: "{count} contactos en el directorio" },
+  "contacts.search": "Buscar por nombre, apellido o teléfono",
+  "contacts.onlyDuplicates": "Solo posibles duplicados",
+  "contacts.empty": "No hay contactos. Se agregan al sumar personas a una campaña.",
+  "contacts.noMatches": "Ningún contacto coincide con la búsqueda.",
+  "contacts.select": "Seleccionar a {name}",
+  "contacts.possibleDuplicate": "Posible duplicado",
+  "contacts.campaigns": { one: "{count} campaña", other: "{count} campañas" },
+  "contacts.showHistory": "Historial",
+  "contacts.hideHistory": "Ocultar historial",
+  "contacts.saved": {
+    one: "Contacto guardado. Se actualizó {count} campaña",
+    other: "Contacto guardado. Se actualizaron {count} campañas",
+  },
+  "contacts.saveError": "No se pudo guardar el contacto",
+  "contacts.partialUpdate": "No se pudieron actualizar estas campañas: {names}",
+  "contacts.merged": {
+    one: "Contactos fusionados. Se actualizó {count} campaña",
+    other: "Contactos fusionados. Se actualizaron {count} campañas",
+  },
+  "contacts.mergeError": "No se pudieron fusionar los contactos",
+  "contacts.error.duplicatePhone": "Otro contacto ya tiene ese teléfono; fusiónelos en lugar de repetirlo",
+  "contacts.error.notFound": "El contacto ya no existe",
+  "contacts.error.blockedPhone": "El teléfono nuevo está en la lista de no llamar",
+  "contacts.mergeKeptDuplicates": "Los duplicados se conservaron hasta que se actualicen todas sus campañas",
+  "contacts.merge.title": "Fusionar {count} contactos",
+  "contacts.merge.keep": "Conservar nombre y teléfono de:",
+  "contacts.merge.button": "Fusionar",
+  "contacts.merge.clear": "Quitar selección",
+  "contacts.confirmMerge":
+    "Los {count} contactos seleccionados quedarán como {name}, con sus campañas e intentos de contacto. Esta acción no se puede deshacer.",
+  "contacts.history.title": "Participación en campañas",
+  "contacts.history.empty": "No participa en ninguna campaña.",
+  "contacts.history.period": "{start} – {end}",
+  "contacts.history.attempts": { one: "{count} intento", other: "{count} intentos" },
+  "contacts.history.lastAttempt": "último el {date} ({outcome})",
+  "contacts.history.removed": "Quitado de la campaña",
+  "contacts.history.campaignDeleted": "Campaña en la papelera",
+  "contacts.linkedExisting": "El teléfono ya era de {name}; se usaron sus datos del directorio",
+
+  "doNotCall.title": "Lista de no llamar",
+  "doNotCall.description": "Números que no se pueden llamar ni sumar a una campaña mientras su bloqueo esté vigente.",
+  "doNotCall.loading": "Cargando la lista de no llamar...",
+  "doNotCall.loadError": "Error al cargar la lista de no llamar. Por favor, intente de nuevo.",
+  "doNotCall.count": { one: "{count} número en la lista", other: "{count} números en la lista" },
+  "doNotCall.search": "Buscar por teléfono o motivo",
+  "doNotCall.empty": "La lista de no llamar está vacía.",
+  "doNotCall.noMatches": "Ningún número coincide con la búsqueda.",
+  "doNotCall.addTitle": "Agregar un número",
+  "doNotCall.reason": "Motivo",
+  "doNotCall.expiresAt": "Vencimiento",
+  "doNotCall.noExpiry": "Sin vencimiento",
+  "doNotCall.add": "Agregar a la lista",
+  "doNotCall.active": "Vigente",
+  "doNotCall.expired": "Vencido",
+  "doNotCall.addedAt": "Agregado el {date}",
+  "doNotCall.expiresOn": "vence el {date}",
+  "doNotCall.inCampaigns": { one: "En {count} campaña", other: "En {count} campañas" },
+  "doNotCall.remove": "Quitar",
+  "doNotCall.confirmRemove": "¿Quitar {phone} de la lista de no llamar? Se podrá volver a llamar a ese número.",
+  "doNotCall.added": { one: "Lista actualizada: {count} número", other: "Lista actualizada: {count} números" },
+  "doNotCall.saveError": "No se pudo guardar la lista de no llamar",
+  "doNotCall.removed": "Número quitado de la lista de no llamar",
+  "doNotCall.removeError": "No se pudo quitar el número",
+  "doNotCall.error.blocked": "Hay números en la lista de no llamar; no se pueden sumar a la campaña",
+  "doNotCall.badge": "No llamar",
+  "doNotCall.badgeHint": "El número está en la lista de no llamar y el marcador lo omite",
+  "doNotCall.campaignWarning": {
+    one: "{count} persona está en la lista de no llamar",
+    other: "{count} personas están en la lista de no llamar",
+  },
+  "doNotCall.activationBlocked": {
+    one: "No se puede activar: {count} persona está en la lista de no llamar. Quítela primero.",
+    other: "No se puede activar: {count} personas están en la lista de no llamar. Quítelas primero.",
+  },
+  "doNotCall.scheduledStartSkipped":
+    'La campaña "{name}" no se inició en su fecha porque tiene personas en la lista de no llamar. Quítelas para iniciarla.',
+  "doNotCall.import.title": "Importar desde archivo",
+  "doNotCall.import.hint":
+    "CSV o Excel con el teléfono y, opcionalmente, el motivo y el vencimiento (aaaa-mm-dd o dd/mm/aaaa).",
+  "doNotCall.import.reason": "Motivo para las filas que no lo traen",
+  "doNotCall.import.defaultReason": "Lista de exclusión importada",
+  "doNotCall.import.button": "Importar",
+  "doNotCall.import.result": {
+    one: "{count} número leído, {invalid} filas inválidas.",
+    other: "{count} números leídos, {invalid} filas inválidas.",
+  },
+  "doNotCall.import.invalidRows": "Filas con errores: {rows}",
+  "repository.error.campaignNotFound": 'No existe la campaña con id "{id}"',
+  "repository.error.campaignExists": 'Ya existe una campaña con id "{id}"',
+  "repository.error.contactNotFound": 'No existe el contacto con id "{id}"',
+  "repository.error.contactExists": 'Ya existe un contacto con id "{id}"',
+  "storage.error.unrecognized": "El contenido guardado no tiene un formato reconocido",
+  "storage.error.unrecognizedKey": 'El contenido guardado en la clave "{key}" no tiene un formato reconocido',
+  "storage.error.newerVersion":
+    "Los datos guardados tienen la versión {version}, más nueva que la soportada ({supported}).",
+  "storage.error.migrationFailed": "Falló la migración a la versión {version} ({description}): {reason}.",
+  "storage.error.migrationFailedWithBackup":
+    "Falló la migración a la versión {version} ({description}): {reason}. Se conservó una copia del contenido original en {backup}.",
+} satisfies Record<string, Message>
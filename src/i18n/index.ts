@@ -0,0 +1,111 @@
+import { enUS as dateFnsEn, es as dateFnsEs } from "date-fns/locale"
+import type { Locale as DateFnsLocale } from "date-fns"
+import type { Locale, Message, MessageParams } from "../types"
+import { en } from "./en"
+import { es } from "./es"
+
+export type MessageKey = keyof typeof es
+
+export const DEFAULT_LOCALE: Locale = "es"
+
+export const SUPPORTED_LOCALES: Locale[] = ["es", "en"]
+
+const catalogs: Record<Locale, Record<MessageKey, Message>> = { es, en }
+
+// Para los selectores de fecha (react-datepicker), que formatean con date-fns
+export const DATE_FNS_LOCALES: Record<Locale, DateFnsLocale> = { es: dateFnsEs, en: dateFnsEn }
+
+// Estilos de fecha de la interfaz; el orden de día, mes y hora lo decide el idioma
+const DATE_FORMATS = {
+  dateTime: { day: "2-digit", month: "2-digit", year: "numeric", hour: "2-digit", minute: "2-digit" },
+  date: { day: "2-digit", month: "2-digit", year: "numeric" },
+  dayMonth: { day: "2-digit", month: "2-digit" },
+  time: { hour: "2-digit", minute: "2-digit" },
+  monthYear: { month: "long", year: "numeric" },
+} satisfies Record<string, Intl.DateTimeFormatOptions>
+
+export type DateFormatStyle = keyof typeof DATE_FORMATS
+
+export const isSupportedLocale = (value: unknown): value is Locale => SUPPORTED_LOCALES.includes(value as Locale)
+
+// Idioma soportado para una etiqueta BCP 47 ("en-US" -> "en"); el predeterminado si no hay ninguno
+export const resolveLocale = (tag?: string | null): Locale => {
+  const language = tag?.toLowerCase().split("-")[0]
+  return isSupportedLocale(language) ? language : DEFAULT_LOCALE
+}
+
+export const isMessageKey = (value: string): value is MessageKey => Object.prototype.hasOwnProperty.call(es, value)
+
+const interpolate = (text: string, params: MessageParams) =>
+  text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match))
+
+// Texto de `key` en `locale`. Sin la clave en ese idioma se usa el catálogo predeterminado
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const message = catalogs[locale][key] ?? catalogs[DEFAULT_LOCALE][key]
+  if (typeof message === "string") {
+    return interpolate(message, params)
+  }
+  const count = Number(params.count ?? 0)
+  const category = new Intl.PluralRules(locale).select(count)
+  return interpolate(message[category] ?? message.other, params)
+}
+
+// Error cuyo mensaje es una clave del catálogo (o un texto ya armado) con los datos para completarlo
+export class MessageError extends Error {
+  constructor(
+    message: string,
+    public readonly params: MessageParams = {},
+  ) {
+    super(message)
+    this.name = "MessageError"
+  }
+}
+
+export interface Translator {
+  locale: Locale
+  t: (key: MessageKey, params?: MessageParams) => string
+  // Para mensajes que pueden ser una clave o un texto ya armado, como los errores de validación
+  translateMessage: (message: string, params?: MessageParams) => string
+  // Mensaje de cualquier error atrapado, con los datos de un MessageError
+  translateError: (error: unknown) => string
+  formatDate: (value: Date | string, style?: DateFormatStyle) => string
+  // Días, horas y minutos; las fechas se guardan con precisión de minutos
+  formatTimeSpan: (ms: number) => string
+}
+
+export const createTranslator = (locale: Locale): Translator => {
+  const formatters = new Map<DateFormatStyle, Intl.DateTimeFormat>()
+  const getFormatter = (style: DateFormatStyle) => {
+    let formatter = formatters.get(style)
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat(locale, DATE_FORMATS[style])
+      formatters.set(style, formatter)
+    }
+    return formatter
+  }
+  const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params)
+  const translateMessage = (message: string, params?: MessageParams) =>
+    isMessageKey(message) ? t(message, params) : message
+
+  return {
+    locale,
+    t,
+    translateMessage,
+    translateError: (error) => {
+      if (error instanceof MessageError) {
+        return translateMessage(error.message, error.params)
+      }
+      return error instanceof Error ? translateMessage(error.message) : String(error)
+    },
+    // Las fechas guardadas son ISO-8601 en UTC; se muestran en la zona horaria del navegador
+    formatDate: (value, style = "dateTime") =>
+      getFormatter(style).format(typeof value === "string" ? new Date(value) : value),
+    formatTimeSpan: (ms) => {
+      const totalMinutes = Math.floor(ms / 60000)
+      const days = Math.floor(totalMinutes / 1440)
+      const hours = Math.floor((totalMinutes % 1440) / 60)
+      const minutes = totalMinutes % 60
+      return t(days > 0 ? "time.spanWithDays" : "time.span", { days, hours, minutes })
+    },
+  }
+}
@@ -0,0 +1,220 @@
+import type {
+  Campaign,
+  CampaignRepository,
+  Contact,
+  ContactRepository,
+  DoNotCallEntry,
+  DoNotCallRepository,
+  Person,
+} from "../types"
+import { createInMemoryRepository } from "../repositories/inMemoryRepository"
+import { createInMemoryContactRepository } from "../contacts/inMemoryContactRepository"
+import { createInMemoryDoNotCallRepository } from "../doNotCall/inMemoryDoNotCallRepository"
+import { ConflictError } from "../repositories/conflicts"
+import { MessageError } from "../i18n"
+
+interface MockServerOptions {
+  // Repositorio que respalda las respuestas; por defecto uno en memoria
+  repository?: CampaignRepository
+  // Directorio de contactos que respalda /contacts; por defecto uno en memoria
+  contacts?: ContactRepository
+  // Lista de no llamar que respalda /do-not-call; por defecto una en memoria
+  doNotCall?: DoNotCallRepository
+  // Latencia artificial en milisegundos, útil para ver los estados de carga
+  latency?: number
+}
+
+export type MockHandler = (request: Request) => Promise<Response>
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } })
+
+const notFound = (message: string) => json({ message }, 404)
+
+// El cliente recibe la versión guardada para poder resolver el conflicto sin otra petición
+const conflict = (error: ConflictError) =>
+  json({ message: error.message, params: error.params, current: error.current ?? null }, 409)
+
+// Un fallo inesperado (cuerpo que no es JSON, repositorio que lanza) se responde como un backend: 500 con el mensaje
+export const serverError = (error: unknown) =>
+  json(
+    error instanceof MessageError
+      ? { message: error.message, params: error.params }
+      : { message: error instanceof Error ? error.message : String(error) },
+    500,
+  )
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Servidor simulado independiente del entorno: recibe un Request estándar y devuelve un Response,
+// por lo que funciona igual en el navegador (como fetch) y en Node (como middleware de Vite).
+export const createMockHandler = ({
+  repository = createInMemoryRepository(),
+  contacts = createInMemoryContactRepository(),
+  doNotCall = createInMemoryDoNotCallRepository(),
+  latency = 0,
+}: MockServerOptions = {}): MockHandler => {
+  const handleContacts = async (request: Request, method: string, contactId?: string) => {
+    if (!contactId) {
+      if (method === "GET") {
+        return json(await contacts.getAll())
+      }
+      if (method === "POST") {
+        const body = (await request.json()) as Contact | Contact[]
+        if (Array.isArray(body)) {
+          const known = new Set((await contacts.getAll()).map((contact) => contact.id))
+          const repeated = body.find((contact) => known.has(contact.id))
+          if (repeated) {
+            return json({ message: `Ya existe un contacto con id "${repeated.id}"` }, 409)
+          }
+          return json(await contacts.createMany(body), 201)
+        }
+        const contact = body
+        if (await contacts.getById(contact.id)) {
+          return json({ message: `Ya existe un contacto con id "${contact.id}"` }, 409)
+        }
+        return json(await contacts.create(contact), 201)
+      }
+      return json({ message: "Método no permitido" }, 405)
+    }
+
+    const existing = await contacts.getById(contactId)
+    if (!existing) {
+      return notFound(`No existe el contacto con id "${contactId}"`)
+    }
+    if (method === "GET") {
+      return json(existing)
+    }
+    if (method === "PUT") {
+      const contact = (await request.json()) as Contact
+      return json(await contacts.update({ ...contact, id: contactId }))
+    }
+    if (method === "DELETE") {
+      await contacts.delete(contactId)
+      return new Response(null, { status: 204 })
+    }
+    return json({ message: "Método no permitido" }, 405)
+  }
+
+  const handleDoNotCall = async (request: Request, method: string, entryId?: string) => {
+    if (!entryId && method === "GET") {
+      return json(await doNotCall.getAll())
+    }
+    if (!entryId && method === "PUT") {
+      await doNotCall.save((await request.json()) as DoNotCallEntry[])
+      return new Response(null, { status: 204 })
+    }
+    if (entryId && method === "DELETE") {
+      await doNotCall.delete(entryId)
+      return new Response(null, { status: 204 })
+    }
+    return json({ message: "Método no permitido" }, 405)
+  }
+
+  return async (request: Request) => {
+    if (latency > 0) {
+      await wait(latency)
+    }
+
+    const segments = new URL(request.url).pathname.split("/").filter(Boolean).map(decodeURIComponent)
+    const campaignsIndex = segments.lastIndexOf("campaigns")
+    const [campaignId, subResource, personId] = campaignsIndex >= 0 ? segments.slice(campaignsIndex + 1) : []
+    const method = request.method.toUpperCase()
+
+    const contactsIndex = segments.lastIndexOf("contacts")
+    if (campaignsIndex < 0 && contactsIndex >= 0) {
+      return handleContacts(request, method, segments[contactsIndex + 1])
+    }
+
+    const doNotCallIndex = segments.lastIndexOf("do-not-call")
+    if (campaignsIndex < 0 && doNotCallIndex >= 0) {
+      return handleDoNotCall(request, method, segments[doNotCallIndex + 1])
+    }
+
+    if (campaignsIndex < 0) {
+      return notFound(`Ruta desconocida: ${request.url}`)
+    }
+
+    if (!campaignId) {
+      if (method === "GET") {
+        return json(await repository.getAll())
+      }
+      if (method === "POST") {
+        const campaign = (await request.json()) as Campaign
+        if (await repository.getById(campaign.id)) {
+          return json({ message: `Ya existe una campaña con id "${campaign.id}"` }, 409)
+        }
+        return json(await repository.create(campaign), 201)
+      }
+      return json({ message: "Método no permitido" }, 405)
+    }
+
+    // Revisión que el cliente tenía al editar; sin ella se escribe sin comprobar
+    const ifMatch = request.headers.get("If-Match")
+    const expectedRevision = ifMatch === null ? undefined : Number(ifMatch)
+
+    const existing = await repository.getById(campaignId)
+    if (!existing) {
+      if (!subResource && expectedRevision !== undefined) {
+        return conflict(new ConflictError("conflict.error.deleted", { id: campaignId }, campaignId, undefined, null))
+      }
+      return notFound(`No existe la campaña con id "${campaignId}"`)
+    }
+
+    if (!subResource) {
+      if (method === "GET") {
+        return json(existing)
+      }
+      if (method === "PATCH") {
+        const changes = (await request.json()) as Partial<Campaign>
+        try {
+          return json(await repository.update({ ...existing, ...changes, id: campaignId, revision: expectedRevision }))
+        } catch (error) {
+          if (error instanceof ConflictError) {
+            return conflict(error)
+          }
+          throw error
+        }
+      }
+      if (method === "DELETE") {
+        try {
+          await repository.delete(campaignId, expectedRevision)
+        } catch (error) {
+          if (error instanceof ConflictError) {
+            return conflict(error)
+          }
+          throw error
+        }
+        return new Response(null, { status: 204 })
+      }
+      return json({ message: "Método no permitido" }, 405)
+    }
+
+    if (subResource === "people") {
+      if (!personId && method === "POST") {
+        const person = (await request.json()) as Person
+        return json(await repository.addPerson(campaignId, person), 201)
+      }
+      if (personId && method === "DELETE") {
+        if (!existing.people.some((p) => p.id === personId)) {
+          return notFound(`No existe la persona con id "${personId}"`)
+        }
+        return json(await repository.removePerson(campaignId, personId))
+      }
+      return json({ message: "Método no permitido" }, 405)
+    }
+
+    return notFound(`Ruta desconocida: ${request.url}`)
+  }
+}
+
+// Adapta el handler a la firma de fetch para usarlo directamente con createHttpRepository
+export const createMockFetch = (handler: MockHandler = createMockHandler()) => {
+  return async (input: string, init?: RequestInit) => {
+    try {
+      return await handler(new Request(new URL(input, "http://mock.local"), init))
+    } catch (error) {
+      return serverError(error)
+    }
+  }
+}
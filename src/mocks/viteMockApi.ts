@@ -0,0 +1,69 @@
+import type { IncomingHttpHeaders, IncomingMessage, ServerResponse } from "node:http"
+import type { Plugin } from "vite"
+import { createMockHandler, serverError } from "./mockServer"
+
+const readBody = async (req: IncomingMessage) => {
+  const chunks: Uint8Array[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Uint8Array)
+  }
+  return chunks.length > 0 ? Buffer.concat(chunks) : undefined
+}
+
+// Node entrega las cabeceras repetidas como arreglo; en fetch se unen con comas
+const toHeaders = (incoming: IncomingHttpHeaders) => {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(incoming)) {
+    if (value !== undefined) {
+      headers.set(name, Array.isArray(value) ? value.join(", ") : value)
+    }
+  }
+  return headers
+}
+
+const send = async (res: ServerResponse, response: Response) => {
+  res.statusCode = response.status
+  response.headers.forEach((value, key) => res.setHeader(key, value))
+  res.end(Buffer.from(await response.arrayBuffer()))
+}
+
+// Sirve el servidor simulado bajo `basePath` en `vite dev` y `vite preview`,
+// para usar VITE_DATA_SOURCE=http sin un backend real.
+export const mockApiPlugin = (basePath = "/api"): Plugin => {
+  const handler = createMockHandler()
+
+  const middleware = async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    if (!req.url?.startsWith(basePath)) {
+      return next()
+    }
+
+    try {
+      const body = req.method === "GET" || req.method === "HEAD" ? undefined : await readBody(req)
+      const response = await handler(
+        new Request(new URL(req.url, `http://${req.headers.host ?? "localhost"}`), {
+          method: req.method,
+          headers: toHeaders(req.headers),
+          body,
+        }),
+      )
+      await send(res, response)
+    } catch (error) {
+      // Responde 500 en lugar de dejar la petición colgada, con el mismo cuerpo que createMockFetch
+      if (res.headersSent) {
+        res.end()
+        return
+      }
+      await send(res, serverError(error))
+    }
+  }
+
+  return {
+    name: "campaigns-mock-api",
+    configureServer: (server) => {
+      server.middlewares.use(middleware)
+    },
+    configurePreviewServer: (server) => {
+      server.middlewares.use(middleware)
+    },
+  }
+}
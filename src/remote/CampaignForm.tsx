@@ -0,0 +1,8 @@
+import CampaignForm from "../components/CampaignForm"
+import { withCampaignsProvider } from "./withCampaignsProvider"
+
+export type { CampaignFormProps } from "../components/CampaignForm"
+
+const RemoteCampaignForm = withCampaignsProvider(CampaignForm)
+
+export default RemoteCampaignForm
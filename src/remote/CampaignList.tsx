@@ -0,0 +1,27 @@
+import CampaignList from "../components/CampaignList"
+import { useI18n } from "../context/I18nContext"
+import { useCampaigns } from "../hooks/useCampaigns"
+import { withCampaignsProvider } from "./withCampaignsProvider"
+
+// Lista con sus acciones, leyendo las campañas del repositorio en lugar de recibirlas
+const CampaignListLoader = () => {
+  const { campaigns, isLoading, isError } = useCampaigns()
+  const { t } = useI18n()
+
+  if (isLoading) {
+    return <div className="text-center text-gray-600">{t("home.loading")}</div>
+  }
+  if (isError) {
+    return <p className="text-center text-red-800">{t("home.loadError")}</p>
+  }
+
+  return campaigns.length > 0 ? (
+    <CampaignList campaigns={campaigns} />
+  ) : (
+    <p className="text-center text-gray-600">{t("home.empty")}</p>
+  )
+}
+
+const RemoteCampaignList = withCampaignsProvider(CampaignListLoader)
+
+export default RemoteCampaignList
@@ -0,0 +1,27 @@
+import CampaignSummary from "../components/CampaignSummary"
+import { useI18n } from "../context/I18nContext"
+import { useCampaigns } from "../hooks/useCampaigns"
+import { withCampaignsProvider } from "./withCampaignsProvider"
+
+// Widget de resumen para tableros del host: totales por estado y avance de contacto
+const CampaignSummaryLoader = () => {
+  const { campaigns, isLoading, isError } = useCampaigns()
+  const { t } = useI18n()
+
+  if (isLoading) {
+    return <div className="text-center text-gray-600">{t("home.loading")}</div>
+  }
+  if (isError) {
+    return <p className="text-center text-red-800">{t("home.loadError")}</p>
+  }
+
+  return campaigns.length > 0 ? (
+    <CampaignSummary campaigns={campaigns} />
+  ) : (
+    <p className="text-center text-gray-600">{t("home.noCampaignsYet")}</p>
+  )
+}
+
+const RemoteCampaignSummary = withCampaignsProvider(CampaignSummaryLoader)
+
+export default RemoteCampaignSummary
@@ -0,0 +1,28 @@
+import { useMemo } from "react"
+import ConfirmationModal from "../components/ConfirmationModal"
+import type { ConfirmationModalProps } from "../components/ConfirmationModal"
+import { I18nContext } from "../context/I18nContext"
+import { createTranslator } from "../i18n"
+import type { Locale } from "../types"
+
+export type { ConfirmationModalProps } from "../components/ConfirmationModal"
+
+interface RemoteConfirmationModalProps extends ConfirmationModalProps {
+  // Sin idioma se usa el del CampaignsProvider que la envuelva, o el predeterminado
+  locale?: Locale
+}
+
+// No lee datos, así que no necesita el proveedor completo: solo el idioma de los botones
+const RemoteConfirmationModal = ({ locale, ...props }: RemoteConfirmationModalProps) => {
+  const i18n = useMemo(() => locale && { ...createTranslator(locale), setLocale: null }, [locale])
+
+  return i18n ? (
+    <I18nContext.Provider value={i18n}>
+      <ConfirmationModal {...props} />
+    </I18nContext.Provider>
+  ) : (
+    <ConfirmationModal {...props} />
+  )
+}
+
+export default RemoteConfirmationModal
@@ -0,0 +1,6 @@
+// Bus de eventos para hosts federados: se crea uno, se pasa como `eventBus` a la app o a los componentes
+// y por él llegan los eventos de dominio y salen las órdenes. Sin importar nada, el host puede usar
+// los CustomEvent de window CAMPAIGN_EVENT y CAMPAIGN_COMMAND.
+export { CAMPAIGN_COMMAND, CAMPAIGN_EVENT, connectWindowEvents, createCampaignEventBus } from "../events"
+export type { CampaignEventBus } from "../events"
+export type { CampaignCommand, CampaignEvent, CampaignFilters } from "../types"
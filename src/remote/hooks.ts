@@ -0,0 +1,28 @@
+// Módulo sin interfaz para hosts que dibujan sus propias pantallas.
+// Los hooks leen el contexto de componentsApp/CampaignsProvider, que debe envolverlos.
+export { useCampaign, useCampaigns } from "../hooks/useCampaigns"
+export { useOptimisticCampaigns } from "../hooks/useOptimisticCampaigns"
+export { useRecycleBin } from "../hooks/useRecycleBin"
+export { useRescheduleCampaign } from "../hooks/useRescheduleCampaign"
+export { useDialer } from "../hooks/useDialer"
+export { useContactDirectory, useContacts } from "../hooks/useContacts"
+export { useDoNotCallList, useDoNotCallRegistry } from "../hooks/useDoNotCallList"
+export { useCampaignRepository } from "../context/RepositoryContext"
+export { useContactRepository } from "../context/ContactRepositoryContext"
+export { useDoNotCallRepository } from "../context/DoNotCallContext"
+export { useStatusScheduler } from "../context/SchedulerContext"
+export { useI18n } from "../context/I18nContext"
+export { useCampaignEventBus } from "../context/EventBusContext"
+export type {
+  Campaign,
+  CampaignChangeNotice,
+  CampaignRepository,
+  CampaignStatus,
+  Contact,
+  ContactRepository,
+  DoNotCallEntry,
+  DoNotCallRepository,
+  Locale,
+  Person,
+  TelephonyProvider,
+} from "../types"
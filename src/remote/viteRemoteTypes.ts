@@ -0,0 +1,60 @@
+import { execFileSync } from "node:child_process"
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import { createRequire } from "node:module"
+import path from "node:path"
+import type { Plugin } from "vite"
+
+// Nombre con el que lo importa el host ("./CampaignList") -> archivo expuesto ("./src/remote/CampaignList.tsx")
+export type ExposedModules = Record<string, string>
+
+const toImportPath = (from: string, to: string) => {
+  const relative = path.relative(from, to).split(path.sep).join("/")
+  return relative.startsWith(".") ? relative : `./${relative}`
+}
+
+// Al terminar `vite build` publica el contrato de tipos en `<outDir>/@types`: las declaraciones de `src` en
+// `internal/` y una entrada por módulo expuesto en `<remoteName>/`, para que el host mapee "<remoteName>/*" ahí.
+export const remoteTypesPlugin = (
+  remoteName: string,
+  exposes: ExposedModules,
+  tsconfig = "tsconfig.remote.json",
+): Plugin => {
+  let root = process.cwd()
+  let outDir = path.resolve("dist")
+
+  return {
+    name: "campaigns-remote-types",
+    apply: "build",
+    configResolved: (config) => {
+      root = config.root
+      outDir = path.resolve(config.root, config.build.outDir)
+    },
+    closeBundle: () => {
+      const typesDir = path.join(outDir, "@types")
+      const declarationDir = path.join(typesDir, "internal")
+      const entriesDir = path.join(typesDir, remoteName)
+      const tsc = createRequire(import.meta.url).resolve("typescript/bin/tsc")
+      execFileSync(process.execPath, [tsc, "-p", tsconfig, "--declarationDir", declarationDir], {
+        cwd: root,
+        stdio: "inherit",
+      })
+
+      mkdirSync(entriesDir, { recursive: true })
+      for (const [exposed, file] of Object.entries(exposes)) {
+        const declaration = path.join(declarationDir, path.relative(path.join(root, "src"), path.resolve(root, file)))
+        const declarationPath = declaration.replace(/\.tsx?$/, "")
+        const importPath = toImportPath(entriesDir, declarationPath)
+        const hasDefault = /export default|as default\b/.test(readFileSync(`${declarationPath}.d.ts`, "utf8"))
+        writeFileSync(
+          path.join(entriesDir, `${exposed.replace(/^\.\//, "")}.d.ts`),
+          [
+            `// Generado por vite build a partir de ${file}`,
+            `export * from "${importPath}"`,
+            ...(hasDefault ? [`export { default } from "${importPath}"`] : []),
+            "",
+          ].join("\n"),
+        )
+      }
+    },
+  }
+}
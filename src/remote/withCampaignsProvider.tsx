@@ -0,0 +1,56 @@
+import type React from "react"
+import { useContext } from "react"
+import CampaignsProvider from "../components/CampaignsProvider"
+import type { CampaignsProviderProps } from "../components/CampaignsProvider"
+import { RepositoryContext } from "../context/RepositoryContext"
+
+export type CampaignsProviderOptions = Omit<CampaignsProviderProps, "children">
+
+// Una entrada por opción del proveedor: el tipo no compila si se agrega una opción y falta aquí
+const providerOptionKeys = {
+  repository: true,
+  contactRepository: true,
+  doNotCallRepository: true,
+  queryClient: true,
+  telephonyProvider: true,
+  trashRetentionDays: true,
+  locale: true,
+  basePath: true,
+  onCampaignChange: true,
+  eventBus: true,
+  onEvent: true,
+  windowEvents: true,
+} satisfies Record<keyof CampaignsProviderOptions, true>
+
+const isProviderOption = (key: string): key is keyof CampaignsProviderOptions => key in providerOptionKeys
+
+// Separa las opciones del proveedor de las props del componente envuelto
+const splitProps = <P extends object>(props: P & CampaignsProviderOptions) => {
+  const options: Record<string, unknown> = {}
+  const componentProps: Record<string, unknown> = {}
+  Object.entries(props).forEach(([key, value]) => {
+    if (isProviderOption(key)) {
+      options[key] = value
+    } else {
+      componentProps[key] = value
+    }
+  })
+  return { options: options as CampaignsProviderOptions, componentProps: componentProps as P }
+}
+
+// Un componente expuesto funciona solo o dentro de un CampaignsProvider del host. Dentro de un proveedor
+// usa sus datos e ignora estas opciones; conviene uno solo cuando se montan varios componentes juntos.
+export const withCampaignsProvider = <P extends object>(Component: React.ComponentType<P>) => {
+  const WithCampaignsProvider = (props: P & CampaignsProviderOptions) => {
+    const hasProvider = useContext(RepositoryContext) !== null
+    const { options, componentProps } = splitProps(props)
+    const content = <Component {...componentProps} />
+
+    if (hasProvider) return content
+
+    return <CampaignsProvider {...options}>{content}</CampaignsProvider>
+  }
+  WithCampaignsProvider.displayName = `WithCampaignsProvider(${Component.displayName ?? Component.name})`
+
+  return WithCampaignsProvider
+}
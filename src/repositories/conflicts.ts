@@ -0,0 +1,49 @@
+import type { Campaign, MessageParams } from "../types"
+import { MessageError } from "../i18n"
+
+// Una escritura partió de una revisión que ya no es la guardada
+export class ConflictError extends MessageError {
+  constructor(
+    message: string,
+    params: MessageParams,
+    public readonly campaignId: string,
+    // Versión guardada en este momento; undefined si la campaña ya no existe
+    public readonly current: Campaign | undefined,
+    // Lo que se intentó guardar; null si la operación era eliminarla
+    public readonly attempted: Campaign | null,
+  ) {
+    super(message, params)
+    this.name = "ConflictError"
+  }
+}
+
+export const getRevision = (campaign: Campaign | undefined) => campaign?.revision ?? 0
+
+// Sin revisión esperada no se comprueba nada: el que escribe último gana, como antes de versionar
+export const assertRevision = (
+  stored: Campaign | undefined,
+  expectedRevision: number | undefined,
+  campaignId: string,
+  attempted: Campaign | null,
+) => {
+  if (expectedRevision === undefined) {
+    return
+  }
+  if (!stored) {
+    throw new ConflictError("conflict.error.deleted", { id: campaignId }, campaignId, undefined, attempted)
+  }
+  if (getRevision(stored) !== expectedRevision) {
+    throw new ConflictError(
+      "conflict.error.changed",
+      { name: stored.name, current: getRevision(stored), expected: expectedRevision },
+      campaignId,
+      stored,
+      attempted,
+    )
+  }
+}
+
+export const withNextRevision = (campaign: Campaign, stored?: Campaign): Campaign => ({
+  ...campaign,
+  revision: getRevision(stored) + 1,
+})
@@ -0,0 +1,24 @@
+import type { CampaignRepository } from "../types"
+import { createMockFetch, createMockHandler } from "../mocks/mockServer"
+import { createHttpRepository } from "./httpRepository"
+import { createIndexedDbRepository } from "./indexedDbRepository"
+import { createInMemoryRepository } from "./inMemoryRepository"
+import { createLocalStorageRepository } from "./localStorageRepository"
+
+// Elige el origen de datos según VITE_DATA_SOURCE: local (por defecto), indexeddb, memory, http o mock
+export const createDefaultRepository = (): CampaignRepository => {
+  const apiUrl = import.meta.env.VITE_API_URL || "/api"
+
+  switch (import.meta.env.VITE_DATA_SOURCE) {
+    case "indexeddb":
+      return createIndexedDbRepository()
+    case "memory":
+      return createInMemoryRepository()
+    case "http":
+      return createHttpRepository(apiUrl)
+    case "mock":
+      return createHttpRepository(apiUrl, createMockFetch(createMockHandler({ latency: 300 })))
+    default:
+      return createLocalStorageRepository()
+  }
+}
@@ -0,0 +1,73 @@
+import type { Campaign, CampaignRepository, MessageParams, Person } from "../types"
+import { ConflictError } from "./conflicts"
+import { createJsonRequest, HttpError } from "./httpRequest"
+import type { ErrorMapper, FetchLike } from "./httpRequest"
+
+// La revisión esperada viaja en If-Match; el backend responde 409 si ya no es la guardada
+const ifMatch = (revision?: number): Record<string, string> =>
+  revision === undefined ? {} : { "If-Match": String(revision) }
+
+// Convierte un 409 del backend en ConflictError
+const toConflict =
+  (campaignId: string, attempted: Campaign | null): ErrorMapper =>
+  (status, body) =>
+    status === 409
+      ? new ConflictError(
+          body?.message ?? "conflict.error.remote",
+          (body?.params as MessageParams | undefined) ?? {},
+          campaignId,
+          body?.current as Campaign | undefined,
+          attempted,
+        )
+      : undefined
+
+// Endpoints del backend. La query "campaigns" de react-query se resuelve con GET /campaigns.
+export const campaignEndpoints = {
+  campaigns: () => "/campaigns",
+  campaign: (id: string) => `/campaigns/${encodeURIComponent(id)}`,
+  people: (campaignId: string) => `/campaigns/${encodeURIComponent(campaignId)}/people`,
+  person: (campaignId: string, personId: string) =>
+    `/campaigns/${encodeURIComponent(campaignId)}/people/${encodeURIComponent(personId)}`,
+}
+
+export const createHttpRepository = (baseUrl: string, fetchImpl: FetchLike = fetch): CampaignRepository => {
+  const request = createJsonRequest(baseUrl, fetchImpl)
+
+  return {
+    getAll: () => request<Campaign[]>(campaignEndpoints.campaigns()),
+
+    getById: async (id: string) => {
+      try {
+        return await request<Campaign>(campaignEndpoints.campaign(id))
+      } catch (error) {
+        if (error instanceof HttpError && error.status === 404) {
+          return undefined
+        }
+        throw error
+      }
+    },
+
+    create: (campaign: Campaign) =>
+      request<Campaign>(campaignEndpoints.campaigns(), { method: "POST", body: JSON.stringify(campaign) }),
+
+    update: (campaign: Campaign) =>
+      request<Campaign>(
+        campaignEndpoints.campaign(campaign.id),
+        { method: "PATCH", body: JSON.stringify(campaign), headers: ifMatch(campaign.revision) },
+        toConflict(campaign.id, campaign),
+      ),
+
+    delete: (id: string, expectedRevision?: number) =>
+      request<void>(
+        campaignEndpoints.campaign(id),
+        { method: "DELETE", headers: ifMatch(expectedRevision) },
+        toConflict(id, null),
+      ),
+
+    addPerson: (campaignId: string, person: Person) =>
+      request<Campaign>(campaignEndpoints.people(campaignId), { method: "POST", body: JSON.stringify(person) }),
+
+    removePerson: (campaignId: string, personId: string) =>
+      request<Campaign>(campaignEndpoints.person(campaignId, personId), { method: "DELETE" }),
+  }
+}
@@ -0,0 +1,40 @@
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message)
+    this.name = "HttpError"
+  }
+}
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>
+
+// Cuerpo de una respuesta con error; el backend manda al menos `message`
+export interface ErrorBody {
+  message?: string
+  [key: string]: unknown
+}
+
+// Permite a cada repositorio convertir un estado concreto (p. ej. 409) en su propio error
+export type ErrorMapper = (status: number, body: ErrorBody | null) => Error | undefined
+
+// Petición JSON contra `baseUrl`: lanza HttpError si la respuesta no es ok y devuelve undefined en un 204
+export const createJsonRequest =
+  (baseUrl: string, fetchImpl: FetchLike = fetch) =>
+  async <T>(path: string, init?: RequestInit, toError?: ErrorMapper): Promise<T> => {
+    const response = await fetchImpl(`${baseUrl.replace(/\/$/, "")}${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init?.headers },
+    })
+
+    if (!response.ok) {
+      const body: ErrorBody | null = await response.json().catch(() => null)
+      throw (
+        toError?.(response.status, body) ??
+        new HttpError(response.status, body?.message ?? `Error ${response.status} al llamar a ${path}`)
+      )
+    }
+
+    return (response.status === 204 ? undefined : await response.json()) as T
+  }
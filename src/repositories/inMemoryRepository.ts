@@ -0,0 +1,14 @@
+import type { Campaign, CampaignRepository } from "../types"
+import { createSnapshotRepository } from "./snapshotRepository"
+
+// Copia en cada lectura/escritura para que nadie mute el estado interno por referencia
+export const createInMemoryRepository = (initialCampaigns: Campaign[] = []): CampaignRepository => {
+  let campaigns = structuredClone(initialCampaigns)
+
+  return createSnapshotRepository({
+    read: async () => structuredClone(campaigns),
+    write: async (updatedCampaigns: Campaign[]) => {
+      campaigns = structuredClone(updatedCampaigns)
+    },
+  })
+}
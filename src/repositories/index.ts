@@ -0,0 +1,9 @@
+export { createLocalStorageRepository } from "./localStorageRepository"
+export { createIndexedDbRepository } from "./indexedDbRepository"
+export { createInMemoryRepository } from "./inMemoryRepository"
+export { createHttpRepository, campaignEndpoints } from "./httpRepository"
+export { HttpError } from "./httpRequest"
+export { createDefaultRepository } from "./defaultRepository"
+export { ConflictError } from "./conflicts"
+export { withValidation } from "./validatedRepository"
+export { CURRENT_SCHEMA_VERSION, migrateCampaigns, StorageMigrationError } from "./migrations"
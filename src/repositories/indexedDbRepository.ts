@@ -0,0 +1,140 @@
+import type { Campaign, CampaignRepository, Person } from "../types"
+import { CURRENT_SCHEMA_VERSION, migrateCampaigns } from "./migrations"
+import { assertRevision, withNextRevision } from "./conflicts"
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+export const createIndexedDbRepository = (
+  databaseName = "componentsApp",
+  storeName = "campaigns",
+): CampaignRepository => {
+  let database: Promise<IDBDatabase> | null = null
+
+  // La versión de la base sigue a la del formato guardado; la versión 1 guardaba datos sin versionar (0)
+  const toSchemaVersion = (databaseVersion: number) => (databaseVersion <= 1 ? 0 : databaseVersion)
+
+  // Migra los registros dentro de la transacción de actualización: si algo falla se aborta y la base
+  // queda como estaba. Antes se copian a un almacén de respaldo que se conserva después de migrar
+  const migrateStore = (transaction: IDBTransaction, fromVersion: number, onError: (error: unknown) => void) => {
+    const backupStoreName = `${storeName}_backup_v${fromVersion}`
+    const backup = transaction.db.objectStoreNames.contains(backupStoreName)
+      ? transaction.objectStore(backupStoreName)
+      : transaction.db.createObjectStore(backupStoreName, { keyPath: "id" })
+    const store = transaction.objectStore(storeName)
+    const readAll = store.getAll()
+    readAll.onsuccess = () => {
+      const campaigns = readAll.result as Campaign[]
+      try {
+        campaigns.forEach((campaign) => backup.put(campaign))
+        const migrated = migrateCampaigns(campaigns, fromVersion, `el almacén "${backupStoreName}" de IndexedDB`)
+        migrated.forEach((campaign) => store.put(campaign))
+      } catch (error) {
+        onError(error)
+        transaction.abort()
+      }
+    }
+  }
+
+  const openDatabase = () => {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        let migrationError: unknown = null
+        const request = indexedDB.open(databaseName, CURRENT_SCHEMA_VERSION)
+        request.onupgradeneeded = (event) => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName, { keyPath: "id" })
+          } else {
+            migrateStore(request.transaction!, toSchemaVersion(event.oldVersion), (error) => {
+              migrationError = error
+            })
+          }
+        }
+        request.onsuccess = () => {
+          const db = request.result
+          // Otra pestaña con una versión más nueva no puede migrar mientras esta conexión siga abierta
+          db.onversionchange = () => {
+            db.close()
+            database = null
+          }
+          resolve(db)
+        }
+        request.onerror = () => reject(migrationError ?? request.error)
+      })
+    }
+    return database
+  }
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openDatabase()
+    return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)))
+  }
+
+  const getById = (id: string) => withStore<Campaign | undefined>("readonly", (store) => store.get(id))
+
+  const getOrThrow = async (id: string) => {
+    const campaign = await getById(id)
+    if (!campaign) {
+      throw new Error(`No existe la campaña con id "${id}"`)
+    }
+    return campaign
+  }
+
+  // Lee, comprueba la revisión y escribe en una sola transacción, para que otra pestaña no escriba en medio
+  const writeChecked = async (
+    id: string,
+    expectedRevision: number | undefined,
+    attempted: Campaign | null,
+    write: (store: IDBObjectStore, stored: Campaign | undefined) => IDBRequest,
+  ) => {
+    const db = await openDatabase()
+    const store = db.transaction(storeName, "readwrite").objectStore(storeName)
+    const stored = await requestToPromise<Campaign | undefined>(store.get(id))
+    assertRevision(stored, expectedRevision, id, attempted)
+    await requestToPromise(write(store, stored))
+  }
+
+  const update = async (campaign: Campaign) => {
+    let saved = campaign
+    await writeChecked(campaign.id, campaign.revision, campaign, (store, stored) => {
+      if (!stored) {
+        throw new Error(`No existe la campaña con id "${campaign.id}"`)
+      }
+      saved = withNextRevision(campaign, stored)
+      return store.put(saved)
+    })
+    return saved
+  }
+
+  return {
+    getAll: () => withStore<Campaign[]>("readonly", (store) => store.getAll()),
+
+    getById,
+
+    create: async (campaign: Campaign) => {
+      // add() falla con ConstraintError si el id ya existe
+      const saved = withNextRevision(campaign)
+      await withStore("readwrite", (store) => store.add(saved))
+      return saved
+    },
+
+    update,
+
+    delete: (id: string, expectedRevision?: number) =>
+      writeChecked(id, expectedRevision, null, (store) => store.delete(id)),
+
+    addPerson: async (campaignId: string, person: Person) => {
+      // Se aplica sobre la versión guardada, así que no compite con otras escrituras
+      const campaign = await getOrThrow(campaignId)
+      return update({ ...campaign, people: [...campaign.people, person] })
+    },
+
+    removePerson: async (campaignId: string, personId: string) => {
+      const campaign = await getOrThrow(campaignId)
+      return update({ ...campaign, people: campaign.people.filter((p) => p.id !== personId) })
+    },
+  }
+}
@@ -0,0 +1,29 @@
+import type { Campaign, CampaignRepository } from "../types"
+import { createSnapshotRepository } from "./snapshotRepository"
+import { createStoragePayload, CURRENT_SCHEMA_VERSION, migrateCampaigns, readStoragePayload } from "./migrations"
+
+export const createLocalStorageRepository = (key = "campaigns"): CampaignRepository => {
+  const write = async (campaigns: Campaign[]) => {
+    localStorage.setItem(key, JSON.stringify(createStoragePayload(campaigns)))
+  }
+
+  return createSnapshotRepository({
+    read: async () => {
+      const stored = localStorage.getItem(key)
+      if (!stored) {
+        return []
+      }
+      const { schemaVersion, campaigns } = readStoragePayload(JSON.parse(stored))
+      if (schemaVersion === CURRENT_SCHEMA_VERSION) {
+        return campaigns
+      }
+      // Copia del contenido original antes de migrar; si la migración falla, lo guardado no se toca
+      const backupKey = `${key}.backup.v${schemaVersion}`
+      localStorage.setItem(backupKey, stored)
+      const migrated = migrateCampaigns(campaigns, schemaVersion, `la clave "${backupKey}" de localStorage`)
+      await write(migrated)
+      return migrated
+    },
+    write,
+  })
+}
@@ -0,0 +1,166 @@
+import { isValid, parse } from "date-fns"
+import type { Campaign, CampaignStatus, MessageParams } from "../types"
+import { MessageError } from "../i18n"
+import { toTimestamp } from "../utils"
+import { migrateCampaignPhones } from "../utils/phone"
+import { assignContactIds } from "../utils/contacts"
+
+// Versión del formato guardado. Subirla junto con cada migración nueva
+export const CURRENT_SCHEMA_VERSION = 5
+
+export interface StoragePayload {
+  schemaVersion: number
+  campaigns: Campaign[]
+}
+
+export class StorageMigrationError extends MessageError {
+  constructor(
+    message: string,
+    public readonly fromVersion: number,
+    params: MessageParams = {},
+  ) {
+    super(message, params)
+    this.name = "StorageMigrationError"
+  }
+}
+
+interface Migration {
+  // Versión que queda guardada después de aplicarla
+  version: number
+  description: string
+  // Recibe las campañas en el formato de la versión anterior. Debe tolerar datos ya migrados
+  up: (campaigns: Campaign[]) => Campaign[]
+}
+
+const LEGACY_DATE_FORMAT = "dd/MM/yyyy HH:mm"
+
+// Las fechas de la versión 1 se escribían en la hora local del navegador, así que se interpretan igual
+const toIsoTimestamp = (value: string) => {
+  if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return value
+  }
+  const date = parse(value, LEGACY_DATE_FORMAT, new Date())
+  if (!isValid(date)) {
+    throw new Error(`Fecha "${value}" no reconocida`)
+  }
+  return toTimestamp(date)
+}
+
+// Hasta la versión 3 el estado se guardaba con el texto en español que se mostraba
+const LEGACY_STATUSES: Record<string, CampaignStatus> = {
+  Activa: "active",
+  Finalizada: "finished",
+  "En espera": "waiting",
+  Pausada: "paused",
+  Cancelada: "cancelled",
+}
+
+const toStatusCode = (status: string): CampaignStatus => LEGACY_STATUSES[status] ?? (status as CampaignStatus)
+
+const migrations: Migration[] = [
+  {
+    version: 1,
+    description: "Teléfonos en formato E.164",
+    up: (campaigns) => migrateCampaignPhones(campaigns).campaigns,
+  },
+  {
+    version: 2,
+    description: "Fechas como ISO-8601 en UTC",
+    up: (campaigns) =>
+      campaigns.map((campaign) => ({
+        ...campaign,
+        createdAt: toIsoTimestamp(campaign.createdAt),
+        startDate: toIsoTimestamp(campaign.startDate),
+        endDate: toIsoTimestamp(campaign.endDate),
+        ...(campaign.pausedAt && { pausedAt: toIsoTimestamp(campaign.pausedAt) }),
+        ...(campaign.statusHistory && {
+          statusHistory: campaign.statusHistory.map((change) => ({
+            ...change,
+            changedAt: toIsoTimestamp(change.changedAt),
+          })),
+        }),
+        people: campaign.people.map((person) =>
+          person.attempts
+            ? {
+                ...person,
+                attempts: person.attempts.map((attempt) => ({
+                  ...attempt,
+                  attemptedAt: toIsoTimestamp(attempt.attemptedAt),
+                })),
+              }
+            : person,
+        ),
+      })),
+  },
+  {
+    version: 3,
+    description: "Número de revisión por campaña",
+    up: (campaigns) => campaigns.map((campaign) => ({ ...campaign, revision: campaign.revision ?? 1 })),
+  },
+  {
+    version: 4,
+    description: "Estados como códigos independientes del idioma",
+    up: (campaigns) =>
+      campaigns.map((campaign) => ({
+        ...campaign,
+        status: toStatusCode(campaign.status),
+        ...(campaign.statusHistory && {
+          statusHistory: campaign.statusHistory.map((change) => ({
+            ...change,
+            from: change.from === null ? null : toStatusCode(change.from),
+            to: toStatusCode(change.to),
+          })),
+        }),
+      })),
+  },
+  {
+    // Los contactos se crean en el directorio al iniciar la app, a partir de los contactId asignados acá
+    version: 5,
+    description: "Personas enlazadas al directorio de contactos por teléfono",
+    up: assignContactIds,
+  },
+]
+
+// Un arreglo sin envoltorio es el formato anterior al versionado (versión 0)
+export const readStoragePayload = (raw: unknown): StoragePayload => {
+  if (Array.isArray(raw)) {
+    return { schemaVersion: 0, campaigns: raw as Campaign[] }
+  }
+  const payload = raw as Partial<StoragePayload> | null
+  if (!payload || typeof payload.schemaVersion !== "number" || !Array.isArray(payload.campaigns)) {
+    throw new StorageMigrationError("storage.error.unrecognized", -1)
+  }
+  return payload as StoragePayload
+}
+
+export const createStoragePayload = (campaigns: Campaign[]): StoragePayload => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  campaigns,
+})
+
+// Aplica en orden las migraciones posteriores a `fromVersion`. `backupLocation` se menciona en el error
+// para que se pueda recuperar el contenido original
+export const migrateCampaigns = (campaigns: Campaign[], fromVersion: number, backupLocation?: string): Campaign[] => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new StorageMigrationError("storage.error.newerVersion", fromVersion, {
+      version: fromVersion,
+      supported: CURRENT_SCHEMA_VERSION,
+    })
+  }
+  return migrations
+    .filter((migration) => migration.version > fromVersion)
+    .reduce((current, migration) => {
+      try {
+        return migration.up(current)
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+        const params = { version: migration.version, description: migration.description, reason }
+        throw backupLocation
+          ? new StorageMigrationError("storage.error.migrationFailedWithBackup", fromVersion, {
+              ...params,
+              backup: backupLocation,
+            })
+          : new StorageMigrationError("storage.error.migrationFailed", fromVersion, params)
+      }
+    }, campaigns)
+}
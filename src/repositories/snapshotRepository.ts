@@ -0,0 +1,67 @@
+import type { Campaign, CampaignRepository, Person } from "../types"
+import { MessageError } from "../i18n"
+import { assertRevision, withNextRevision } from "./conflicts"
+
+interface SnapshotStore {
+  read: () => Promise<Campaign[]>
+  write: (campaigns: Campaign[]) => Promise<void>
+}
+
+// Implementa las operaciones por entidad sobre un almacén que guarda el arreglo completo
+export const createSnapshotRepository = ({ read, write }: SnapshotStore): CampaignRepository => {
+  const findOrThrow = (campaigns: Campaign[], id: string) => {
+    const campaign = campaigns.find((c) => c.id === id)
+    if (!campaign) {
+      throw new MessageError("repository.error.campaignNotFound", { id })
+    }
+    return campaign
+  }
+
+  const replace = async (updatedCampaign: Campaign) => {
+    const campaigns = await read()
+    const stored = campaigns.find((c) => c.id === updatedCampaign.id)
+    assertRevision(stored, updatedCampaign.revision, updatedCampaign.id, updatedCampaign)
+    findOrThrow(campaigns, updatedCampaign.id)
+    const saved = withNextRevision(updatedCampaign, stored)
+    await write(campaigns.map((c) => (c.id === saved.id ? saved : c)))
+    return saved
+  }
+
+  return {
+    getAll: read,
+
+    getById: async (id: string) => {
+      const campaigns = await read()
+      return campaigns.find((c) => c.id === id)
+    },
+
+    create: async (campaign: Campaign) => {
+      const campaigns = await read()
+      if (campaigns.some((c) => c.id === campaign.id)) {
+        throw new MessageError("repository.error.campaignExists", { id: campaign.id })
+      }
+      const saved = withNextRevision(campaign)
+      await write([...campaigns, saved])
+      return saved
+    },
+
+    update: replace,
+
+    delete: async (id: string, expectedRevision?: number) => {
+      const campaigns = await read()
+      assertRevision(campaigns.find((c) => c.id === id), expectedRevision, id, null)
+      await write(campaigns.filter((c) => c.id !== id))
+    },
+
+    addPerson: async (campaignId: string, person: Person) => {
+      // Se aplica sobre la versión guardada, así que no compite con otras escrituras
+      const campaign = findOrThrow(await read(), campaignId)
+      return replace({ ...campaign, people: [...campaign.people, person] })
+    },
+
+    removePerson: async (campaignId: string, personId: string) => {
+      const campaign = findOrThrow(await read(), campaignId)
+      return replace({ ...campaign, people: campaign.people.filter((p) => p.id !== personId) })
+    },
+  }
+}
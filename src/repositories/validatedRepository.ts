@@ -0,0 +1,22 @@
+import type { Campaign, CampaignRepository, Person } from "../types"
+import { assertValidCampaign, assertValidPerson } from "../schemas"
+
+// Envuelve cualquier adaptador para validar lo que se lee y lo que se escribe con el mismo esquema
+export const withValidation = (repository: CampaignRepository): CampaignRepository => ({
+  getAll: async () => (await repository.getAll()).map((campaign) => assertValidCampaign(campaign, "lectura")),
+
+  getById: async (id: string) => {
+    const campaign = await repository.getById(id)
+    return campaign && assertValidCampaign(campaign, "lectura")
+  },
+
+  create: (campaign: Campaign) => repository.create(assertValidCampaign(campaign, "escritura")),
+
+  update: (campaign: Campaign) => repository.update(assertValidCampaign(campaign, "escritura")),
+
+  delete: (id: string, expectedRevision?: number) => repository.delete(id, expectedRevision),
+
+  addPerson: (campaignId: string, person: Person) => repository.addPerson(campaignId, assertValidPerson(person)),
+
+  removePerson: (campaignId: string, personId: string) => repository.removePerson(campaignId, personId),
+})
@@ -0,0 +1,3 @@
+export { createStatusScheduler, withScheduling } from "./statusScheduler"
+export type { StatusScheduler } from "./statusScheduler"
+export { purgeExpiredTrash } from "./trashPurge"
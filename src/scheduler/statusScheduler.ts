@@ -0,0 +1,176 @@
+import type { Campaign, CampaignRepository, Person, ScheduledStatusChange } from "../types"
+import { ConflictError } from "../repositories/conflicts"
+import { parseTimestamp } from "../utils"
+import { applyScheduledTransitions, getNextScheduledTransitionAt } from "../utils/statusMachine"
+
+interface StatusSchedulerOptions {
+  repository: CampaignRepository
+  now?: () => Date
+  // Errores de lectura o escritura durante una pasada. No la cortan: las demás campañas se siguen procesando
+  // y lo que falló se vuelve a intentar en la próxima pasada
+  onError?: (error: unknown) => void
+  // Se consulta antes de activar una campaña por calendario. Si devuelve false la campaña sigue en espera
+  // hasta una pasada en la que sí se pueda, y `onStartSkipped` avisa una sola vez
+  canStart?: (campaign: Campaign) => Promise<boolean>
+  onStartSkipped?: (campaign: Campaign) => void
+}
+
+export interface StatusScheduler {
+  // Aplica las transiciones vencidas, programa la próxima y empieza a escuchar el regreso de la pestaña
+  start: () => void
+  stop: () => void
+  // Vuelve a leer las campañas, aplica lo vencido y reprograma el temporizador
+  refresh: () => Promise<void>
+  getNextTransitionAt: () => Date | null
+  subscribe: (listener: (change: ScheduledStatusChange) => void) => () => void
+}
+
+// setTimeout no admite esperas mayores a ~24,8 días; más allá se despierta antes y se vuelve a planificar
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1
+
+// Espera antes de reintentar una pasada con errores, para no insistir en un bucle contra un servidor caído
+const RETRY_DELAY_MS = 60 * 1000
+
+export const createStatusScheduler = ({
+  repository,
+  now = () => new Date(),
+  onError,
+  canStart,
+  onStartSkipped,
+}: StatusSchedulerOptions): StatusScheduler => {
+  const listeners = new Set<(change: ScheduledStatusChange) => void>()
+  // Campañas cuyo inicio se omitió y ya se avisó
+  const skippedStarts = new Set<string>()
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let nextTransitionAt: Date | null = null
+  let isRunning = false
+  // Las pasadas se encadenan para que dos refrescos seguidos no escriban la misma campaña a la vez
+  let queue: Promise<void> = Promise.resolve()
+
+  const clearTimer = () => {
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+  }
+
+  // `wakeTimes` adelanta el temporizador para reintentar lo que la pasada dejó sin aplicar
+  const plan = (campaigns: Campaign[], wakeTimes: number[]) => {
+    clearTimer()
+    const times = campaigns.flatMap((campaign) => {
+      const at = getNextScheduledTransitionAt(campaign)
+      return at ? [at.getTime()] : []
+    })
+    nextTransitionAt = times.length > 0 ? new Date(Math.min(...times)) : null
+    const wakeAt = Math.min(...times, ...wakeTimes)
+    if (isRunning && Number.isFinite(wakeAt)) {
+      const delay = Math.max(0, wakeAt - now().getTime())
+      timer = setTimeout(() => void refresh(), Math.min(delay, MAX_TIMER_DELAY_MS))
+    }
+  }
+
+  const run = async () => {
+    const current = now()
+    const changes: ScheduledStatusChange[] = []
+    const updated: Campaign[] = []
+    const wakeTimes: number[] = []
+    const report = (error: unknown) => {
+      wakeTimes.push(current.getTime() + RETRY_DELAY_MS)
+      onError?.(error)
+    }
+
+    try {
+      for (const campaign of await repository.getAll()) {
+        const next = applyScheduledTransitions(campaign, current)
+        if (next === campaign) {
+          updated.push(campaign)
+          continue
+        }
+        try {
+          if (next.status === "active" && canStart && !(await canStart(campaign))) {
+            if (!skippedStarts.has(campaign.id)) {
+              skippedStarts.add(campaign.id)
+              onStartSkipped?.(campaign)
+            }
+            // Sigue en espera; al llegar la fecha de fin ya no se activa y pasa directo a finalizada
+            wakeTimes.push(parseTimestamp(campaign.endDate).getTime())
+            continue
+          }
+          skippedStarts.delete(campaign.id)
+          updated.push(await repository.update(next))
+        } catch (error) {
+          // Un conflicto es otra pestaña que escribió la campaña primero; su aviso de cambio provoca una nueva pasada
+          if (!(error instanceof ConflictError)) {
+            report(error)
+          }
+          continue
+        }
+        const added = (next.statusHistory ?? []).slice(campaign.statusHistory?.length ?? 0)
+        changes.push(...added.map((change) => ({ ...change, campaignId: next.id, campaignName: next.name })))
+      }
+    } catch (error) {
+      report(error)
+    }
+
+    plan(updated, wakeTimes)
+    changes.forEach((change) => listeners.forEach((listener) => listener(change)))
+  }
+
+  const refresh = () => {
+    // Un error no debe cortar la cadena de pasadas
+    queue = queue.then(run).catch((error) => onError?.(error))
+    return queue
+  }
+
+  // Al volver de una suspensión los temporizadores pueden llegar tarde o no llegar: se recuperan las pendientes
+  const handleWake = () => {
+    if (document.visibilityState === "visible") {
+      void refresh()
+    }
+  }
+
+  return {
+    start: () => {
+      if (isRunning) {
+        return
+      }
+      isRunning = true
+      document.addEventListener("visibilitychange", handleWake)
+      window.addEventListener("online", handleWake)
+      void refresh()
+    },
+    stop: () => {
+      isRunning = false
+      clearTimer()
+      document.removeEventListener("visibilitychange", handleWake)
+      window.removeEventListener("online", handleWake)
+    },
+    refresh,
+    getNextTransitionAt: () => nextTransitionAt,
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+// Reprograma el planificador después de cada escritura, porque puede cambiar fechas o estados
+export const withScheduling = (repository: CampaignRepository, scheduler: StatusScheduler): CampaignRepository => {
+  const afterWrite = async <T>(write: Promise<T>) => {
+    const result = await write
+    void scheduler.refresh()
+    return result
+  }
+
+  return {
+    getAll: () => repository.getAll(),
+    getById: (id: string) => repository.getById(id),
+    create: (campaign: Campaign) => afterWrite(repository.create(campaign)),
+    update: (campaign: Campaign) => afterWrite(repository.update(campaign)),
+    delete: (id: string, expectedRevision?: number) => afterWrite(repository.delete(id, expectedRevision)),
+    addPerson: (campaignId: string, person: Person) => afterWrite(repository.addPerson(campaignId, person)),
+    removePerson: (campaignId: string, personId: string) => afterWrite(repository.removePerson(campaignId, personId)),
+  }
+}
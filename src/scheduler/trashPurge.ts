@@ -0,0 +1,30 @@
+import type { CampaignRepository } from "../types"
+import { ConflictError } from "../repositories/conflicts"
+import { getExpiredTrash } from "../utils/recycleBin"
+
+// Elimina definitivamente lo que cumplió el plazo en la papelera. Devuelve cuántas campañas se tocaron.
+// Cada escritura lleva la revisión leída: si otra pestaña cambió la campaña en medio, se deja para la próxima pasada
+export const purgeExpiredTrash = async (
+  repository: CampaignRepository,
+  retentionDays: number,
+  now = new Date(),
+): Promise<number> => {
+  const { expiredCampaigns, campaignsWithExpiredPeople } = getExpiredTrash(await repository.getAll(), now, retentionDays)
+  const writes = [
+    ...expiredCampaigns.map((campaign) => () => repository.delete(campaign.id, campaign.revision)),
+    ...campaignsWithExpiredPeople.map((campaign) => () => repository.update(campaign)),
+  ]
+
+  let purged = 0
+  for (const write of writes) {
+    try {
+      await write()
+      purged++
+    } catch (error) {
+      if (!(error instanceof ConflictError)) {
+        throw error
+      }
+    }
+  }
+  return purged
+}
@@ -0,0 +1,288 @@
+import { z } from "zod"
+import type { Campaign, CampaignStatus, Person, Weekday } from "../types"
+import { DEFAULT_LOCALE, isMessageKey, translate } from "../i18n"
+import { PERSON_NAME_PATTERN } from "../utils"
+import { DEFAULT_PHONE_COUNTRY, normalizePhoneNumber } from "../utils/phone"
+import {
+  getNextWindowStart,
+  isValidTimeRange,
+  isValidTimeZone,
+  isWithinCallingWindow,
+  TIME_PATTERN,
+} from "../utils/callingWindows"
+import type { CountryCode } from "../utils/phone"
+
+// Errores por campo: la clave es el campo de primer nivel y el valor el primer mensaje encontrado.
+// Los mensajes propios son claves del catálogo de traducciones; la interfaz los traduce al mostrarlos
+export type FieldErrors<T> = Partial<Record<keyof T & string, string>>
+
+export type ValidationResult<T> = { success: true; data: T } | { success: false; errors: FieldErrors<T> }
+
+export class CampaignValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: Record<string, string>,
+  ) {
+    super(message)
+    this.name = "CampaignValidationError"
+  }
+}
+
+export const DUPLICATE_PHONE_MESSAGE = "validation.phone.duplicate"
+
+export const DO_NOT_CALL_MESSAGE = "validation.phone.doNotCall"
+
+const campaignStatuses = [
+  "active",
+  "finished",
+  "waiting",
+  "paused",
+  "cancelled",
+] as const satisfies readonly CampaignStatus[]
+
+const toFieldErrors = <T>(error: z.ZodError): FieldErrors<T> => {
+  const errors: Record<string, string> = {}
+  error.issues.forEach((issue) => {
+    const [field = ""] = issue.path
+    const key = String(field)
+    if (!errors[key]) {
+      errors[key] = issue.message
+    }
+  })
+  return errors as FieldErrors<T>
+}
+
+export const validate = <S extends z.ZodTypeAny>(schema: S, data: unknown): ValidationResult<z.output<S>> => {
+  const result = schema.safeParse(data)
+  return result.success ? { success: true, data: result.data } : { success: false, errors: toFieldErrors(result.error) }
+}
+
+const personNameField = (message: string) => z.string().trim().regex(PERSON_NAME_PATTERN, message)
+
+const personFields = {
+  name: personNameField("validation.person.nameLetters"),
+  lastName: personNameField("validation.person.lastNameLetters"),
+}
+
+// Instante ISO-8601 en UTC, p. ej. "2024-05-01T13:00:00.000Z"
+const storedDate = z.string().datetime({ message: "validation.storedDate" })
+
+// Persona tal como se guarda. El teléfono solo se exige no vacío para no rechazar números
+// antiguos que la migración a E.164 no pudo interpretar.
+export const contactAttemptSchema = z.object({
+  id: z.string().min(1),
+  attemptedAt: storedDate,
+  outcome: z.enum(["answered", "no_answer", "busy", "wrong_number", "voicemail"]),
+  durationSeconds: z.number().int("validation.attempt.durationInteger").min(0, "validation.attempt.durationNegative"),
+  notes: z.string().max(500, "validation.attempt.notesTooLong"),
+  dialerProvider: z.string().optional(),
+  recording: z
+    .object({ id: z.string().min(1), status: z.enum(["placeholder", "available"]), url: z.string().nullable() })
+    .optional(),
+})
+
+export const personSchema = z.object({
+  id: z.string().min(1, "validation.person.missingId"),
+  ...personFields,
+  phone: z.string().min(1, "validation.phone.required"),
+  contactId: z.string().min(1).optional(),
+  attempts: z.array(contactAttemptSchema).optional(),
+  deletedAt: storedDate.optional(),
+})
+
+const timeOfDay = z.string().regex(TIME_PATTERN, "validation.callingWindow.time")
+
+export const callingWindowSchema = z.object({
+  timeZone: z.string().refine(isValidTimeZone, "validation.callingWindow.timeZone"),
+  weekdays: z
+    .array(
+      z
+        .number()
+        .refine((day): day is Weekday => Number.isInteger(day) && day >= 0 && day <= 6, "validation.callingWindow.weekday"),
+    )
+    .min(1, "validation.callingWindow.weekdaysRequired"),
+  timeRanges: z
+    .array(
+      z
+        .object({ start: timeOfDay, end: timeOfDay })
+        .refine(isValidTimeRange, "validation.callingWindow.rangeOrder"),
+    )
+    .min(1, "validation.callingWindow.rangesRequired"),
+  blackoutDates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "validation.callingWindow.blackoutDate")),
+})
+
+export const campaignSchema = z.object({
+  id: z.string().min(1, "validation.campaign.missingId"),
+  name: z.string().trim().min(1, "validation.campaign.nameRequired"),
+  createdAt: storedDate,
+  startDate: storedDate,
+  endDate: storedDate,
+  recordingStatus: z.boolean(),
+  status: z.enum(campaignStatuses),
+  people: z.array(personSchema),
+  statusHistory: z
+    .array(
+      z.object({
+        from: z.enum(campaignStatuses).nullable(),
+        to: z.enum(campaignStatuses),
+        changedAt: storedDate,
+        // Los registros anteriores a la máquina de estados no tienen causa
+        cause: z.enum(["manual", "schedule", "system"]).optional(),
+      }),
+    )
+    .optional(),
+  activeTimeMs: z.number().int().nonnegative().optional(),
+  pausedAt: storedDate.optional(),
+  revision: z.number().int().nonnegative().optional(),
+  deletedAt: storedDate.optional(),
+  deletedPeople: z.array(personSchema).optional(),
+  callingWindow: callingWindowSchema.optional(),
+})
+
+interface PersonInputOptions {
+  // País usado para interpretar números sin prefijo internacional
+  country?: CountryCode
+  // Recibe el número ya normalizado a E.164
+  isDuplicate?: (phone: string) => boolean
+  // Número en la lista de no llamar; también recibe el E.164
+  isBlocked?: (phone: string) => boolean
+}
+
+// Datos que escribe el usuario (formularios o importación). El teléfono sale normalizado a E.164.
+export const createPersonInputSchema = ({
+  country = DEFAULT_PHONE_COUNTRY,
+  isDuplicate,
+  isBlocked,
+}: PersonInputOptions = {}) =>
+  z.object({
+    ...personFields,
+    phone: z.string().transform((value, ctx) => {
+      const normalized = normalizePhoneNumber(value, country)
+      if (!normalized) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "validation.phone.invalid" })
+        return z.NEVER
+      }
+      if (isDuplicate?.(normalized)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: DUPLICATE_PHONE_MESSAGE })
+        return z.NEVER
+      }
+      if (isBlocked?.(normalized)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: DO_NOT_CALL_MESSAGE })
+        return z.NEVER
+      }
+      return normalized
+    }),
+  })
+
+export type PersonInput = z.input<ReturnType<typeof createPersonInputSchema>>
+
+// Alta manual en la lista de no llamar. El vencimiento es opcional, pero si se indica tiene que ser futuro
+export const createDoNotCallInputSchema = (country: CountryCode = DEFAULT_PHONE_COUNTRY, now = new Date()) =>
+  z.object({
+    phone: z.string().transform((value, ctx) => {
+      const normalized = normalizePhoneNumber(value, country)
+      if (!normalized) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "validation.phone.invalid" })
+        return z.NEVER
+      }
+      return normalized
+    }),
+    reason: z
+      .string()
+      .trim()
+      .min(1, "validation.doNotCall.reasonRequired")
+      .max(200, "validation.doNotCall.reasonTooLong"),
+    expiresAt: z
+      .date()
+      .nullable()
+      .refine((date) => !date || date > now, "validation.doNotCall.expiryPast"),
+  })
+
+export type DoNotCallInput = z.input<ReturnType<typeof createDoNotCallInputSchema>>
+
+export const validatePersonField = (field: "name" | "lastName", value: string): string | null => {
+  const result = personFields[field].safeParse(value)
+  return result.success ? null : result.error.issues[0].message
+}
+
+// Reglas del formulario de campaña: en espera el inicio no puede ser pasado, el fin debe ser
+// posterior al inicio (en espera) o al momento actual (activa), y la ventana de llamadas
+// tiene que abrirse al menos una vez dentro de ese período
+export const createCampaignFormSchema = (now = new Date()) =>
+  z
+    .object({
+      name: z.string().trim().min(1, "validation.campaign.nameRequired"),
+      status: z.enum(campaignStatuses),
+      startDate: z.date().nullable(),
+      endDate: z.date().nullable(),
+      people: z.array(personSchema).min(1, "validation.campaign.peopleRequired"),
+      callingWindow: callingWindowSchema.nullable(),
+    })
+    .superRefine(({ status, startDate, endDate, callingWindow }, ctx) => {
+      if (status === "waiting") {
+        if (!startDate) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["startDate"], message: "validation.campaign.startDateRequired" })
+        } else if (startDate < now) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["startDate"],
+            message: "validation.campaign.startDatePast",
+          })
+        }
+      }
+
+      if (!endDate) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "validation.campaign.endDateRequired" })
+      } else if (endDate <= (status === "waiting" ? startDate || now : now)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["endDate"],
+          message: "validation.campaign.endDateBeforeStart",
+        })
+      } else if (callingWindow) {
+        // Sirve que la ventana ya esté abierta al empezar, aunque no vuelva a abrirse antes del fin
+        const from = status === "waiting" && startDate ? startDate : now
+        if (!isWithinCallingWindow(callingWindow, from) && !getNextWindowStart(callingWindow, from, endDate)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["callingWindow"],
+            message: "validation.campaign.windowNeverOpens",
+          })
+        }
+      }
+    })
+
+export type CampaignFormValues = z.input<ReturnType<typeof createCampaignFormSchema>>
+
+// Ruta completa de cada problema con el mensaje en el idioma predeterminado, para el texto del error
+const describeIssues = (error: z.ZodError) =>
+  error.issues
+    .map((issue) => {
+      const message = isMessageKey(issue.message) ? translate(DEFAULT_LOCALE, issue.message) : issue.message
+      return `${issue.path.join(".")}: ${message}`
+    })
+    .join("; ")
+
+// Valida una campaña leída o por escribir en el repositorio; lanza un error descriptivo si no es válida
+export const assertValidCampaign = (value: unknown, origin: "lectura" | "escritura"): Campaign => {
+  const result = campaignSchema.safeParse(value)
+  if (!result.success) {
+    const id = (value as Partial<Campaign> | null)?.id ?? "desconocida"
+    throw new CampaignValidationError(
+      `La campaña "${id}" no es válida (${origin}): ${describeIssues(result.error)}`,
+      toFieldErrors(result.error) as Record<string, string>,
+    )
+  }
+  return value as Campaign
+}
+
+export const assertValidPerson = (value: unknown): Person => {
+  const result = personSchema.safeParse(value)
+  if (!result.success) {
+    throw new CampaignValidationError(
+      `La persona no es válida: ${describeIssues(result.error)}`,
+      toFieldErrors(result.error) as Record<string, string>,
+    )
+  }
+  return value as Person
+}
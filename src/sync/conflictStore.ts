@@ -0,0 +1,32 @@
+import type { ConflictError } from "../repositories/conflicts"
+
+// Guarda el último conflicto de escritura para que la interfaz lo muestre y el usuario decida qué hacer
+export interface ConflictStore {
+  report: (conflict: ConflictError) => void
+  getCurrent: () => ConflictError | null
+  dismiss: () => void
+  subscribe: (listener: () => void) => () => void
+}
+
+export const createConflictStore = (): ConflictStore => {
+  const listeners = new Set<() => void>()
+  let current: ConflictError | null = null
+
+  const set = (conflict: ConflictError | null) => {
+    current = conflict
+    listeners.forEach((listener) => listener())
+  }
+
+  return {
+    // Un conflicto nuevo reemplaza al anterior: la versión guardada que trae es la más reciente
+    report: (conflict) => set(conflict),
+    getCurrent: () => current,
+    dismiss: () => set(null),
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
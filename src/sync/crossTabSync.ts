@@ -0,0 +1,84 @@
+import type { Campaign, CampaignChangeNotice, CampaignRepository, Person } from "../types"
+
+interface CrossTabSyncOptions {
+  // Nombre del BroadcastChannel, o clave de localStorage cuando no hay BroadcastChannel
+  channelName?: string
+}
+
+export interface CrossTabSync {
+  // Avisa a las demás pestañas; la propia no recibe su aviso
+  notify: (notice: CampaignChangeNotice) => void
+  subscribe: (listener: (notice: CampaignChangeNotice) => void) => () => void
+  close: () => void
+}
+
+export const createCrossTabSync = ({ channelName = "campaigns-sync" }: CrossTabSyncOptions = {}): CrossTabSync => {
+  const listeners = new Set<(notice: CampaignChangeNotice) => void>()
+  const emit = (notice: CampaignChangeNotice) => listeners.forEach((listener) => listener(notice))
+
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(channelName)
+    channel.onmessage = (event: MessageEvent<CampaignChangeNotice>) => emit(event.data)
+    return {
+      notify: (notice) => channel.postMessage(notice),
+      subscribe: (listener) => {
+        listeners.add(listener)
+        return () => {
+          listeners.delete(listener)
+        }
+      },
+      close: () => {
+        listeners.clear()
+        channel.close()
+      },
+    }
+  }
+
+  // Sin BroadcastChannel se usa el evento storage, que solo se dispara en las otras pestañas.
+  // El sello de tiempo hace que dos avisos iguales seguidos cuenten como cambios distintos
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === channelName && event.newValue) {
+      const { campaignId, kind } = JSON.parse(event.newValue) as CampaignChangeNotice
+      emit({ campaignId, kind })
+    }
+  }
+  window.addEventListener("storage", handleStorage)
+
+  return {
+    notify: (notice) => localStorage.setItem(channelName, JSON.stringify({ ...notice, sentAt: Date.now() })),
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    close: () => {
+      listeners.clear()
+      window.removeEventListener("storage", handleStorage)
+    },
+  }
+}
+
+// Avisa a las demás pestañas después de cada escritura que termina bien
+export const withChangeBroadcast = (repository: CampaignRepository, sync: CrossTabSync): CampaignRepository => {
+  const afterWrite = async <T>(write: Promise<T>, notice: CampaignChangeNotice) => {
+    const result = await write
+    sync.notify(notice)
+    return result
+  }
+
+  return {
+    getAll: () => repository.getAll(),
+    getById: (id: string) => repository.getById(id),
+    create: (campaign: Campaign) =>
+      afterWrite(repository.create(campaign), { campaignId: campaign.id, kind: "created" }),
+    update: (campaign: Campaign) =>
+      afterWrite(repository.update(campaign), { campaignId: campaign.id, kind: "updated" }),
+    delete: (id: string, expectedRevision?: number) =>
+      afterWrite(repository.delete(id, expectedRevision), { campaignId: id, kind: "deleted" }),
+    addPerson: (campaignId: string, person: Person) =>
+      afterWrite(repository.addPerson(campaignId, person), { campaignId, kind: "updated" }),
+    removePerson: (campaignId: string, personId: string) =>
+      afterWrite(repository.removePerson(campaignId, personId), { campaignId, kind: "updated" }),
+  }
+}
@@ -0,0 +1,4 @@
+export { createCrossTabSync, withChangeBroadcast } from "./crossTabSync"
+export type { CrossTabSync } from "./crossTabSync"
+export { createConflictStore } from "./conflictStore"
+export type { ConflictStore } from "./conflictStore"
@@ -1,2 +0,0 @@
-declare module 'componentsApp/Title';
-declare module 'componentsApp/Wave';
\ No newline at end of file
@@ -1,10 +1,81 @@
-export type CampaignStatus = "Activa" | "Finalizada" | "En espera"
+// Códigos estables que se guardan; el texto a mostrar sale del catálogo de traducciones
+export type CampaignStatus = "active" | "finished" | "waiting" | "paused" | "cancelled"
+
+export type CallOutcome = "answered" | "no_answer" | "busy" | "wrong_number" | "voicemail"
+
+export interface CallRecording {
+  id: string
+  // "placeholder" mientras el proveedor no entrega el audio
+  status: "placeholder" | "available"
+  url: string | null
+}
+
+export interface ContactAttempt {
+  id: string
+  attemptedAt: string
+  outcome: CallOutcome
+  durationSeconds: number
+  notes: string
+  // Central con la que llamó el marcador automático; sin ella la llamada se registró a mano
+  dialerProvider?: string
+  recording?: CallRecording
+}
 
 export interface Person {
   id: string
   name: string
   lastName: string
   phone: string
+  // Contacto del directorio al que corresponde. Nombre y teléfono son una copia que se actualiza al editarlo
+  contactId?: string
+  attempts?: ContactAttempt[]
+  // Momento en que se mandó a la papelera; solo presente en Campaign.deletedPeople
+  deletedAt?: string
+}
+
+// manual: acción del usuario; schedule: llegó la fecha de inicio o fin; system: corrección automática de datos
+export type StatusTransitionCause = "manual" | "schedule" | "system"
+
+export type CampaignStatusEvent = "start" | "finish" | "pause" | "resume" | "cancel"
+
+// keep: se mantiene la fecha de fin; extend: se corre la fecha de fin lo que duró la pausa
+export type ResumePolicy = "keep" | "extend"
+
+export interface TransitionOptions {
+  resumePolicy?: ResumePolicy
+}
+
+export interface StatusChange {
+  // null en el registro de creación de la campaña
+  from: CampaignStatus | null
+  to: CampaignStatus
+  changedAt: string
+  // Ausente en los registros creados antes de que se anotara la causa
+  cause?: StatusTransitionCause
+}
+
+// Día de la semana como en Date.getDay(): 0 = domingo ... 6 = sábado
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6
+
+// Franja horaria diaria en formato "HH:mm", hora local de la zona de la campaña; el fin es exclusivo
+export interface TimeRange {
+  start: string
+  end: string
+}
+
+export interface CallingWindow {
+  // Zona horaria IANA, p. ej. "America/Argentina/Buenos_Aires"
+  timeZone: string
+  weekdays: Weekday[]
+  timeRanges: TimeRange[]
+  // Feriados o días bloqueados, "yyyy-MM-dd" en la zona de la campaña
+  blackoutDates: string[]
+}
+
+// Cambio de estado aplicado por el planificador
+export interface ScheduledStatusChange extends StatusChange {
+  campaignId: string
+  campaignName: string
 }
 
 export interface Campaign {
@@ -16,5 +87,212 @@ export interface Campaign {
   recordingStatus: boolean
   status: CampaignStatus
   people: Person[]
+  statusHistory?: StatusChange[]
+  // Milisegundos en estado Activa de los tramos ya cerrados (por pausa, fin o cancelación)
+  activeTimeMs?: number
+  // Momento en que se pausó la campaña; solo presente mientras está Pausada
+  pausedAt?: string
+  // Sin ventana se puede llamar en cualquier momento dentro del período de la campaña
+  callingWindow?: CallingWindow
+  // La asigna el repositorio y sube con cada escritura; sirve para detectar escrituras concurrentes
+  revision?: number
+  // Momento en que se mandó a la papelera; una campaña con esta marca no se muestra ni cambia de estado
+  deletedAt?: string
+  // Personas en la papelera. Se guardan aparte para que `people` siga siendo la lista a contactar
+  deletedPeople?: Person[]
+}
+
+// Período inclusivo que analiza el panel, de un día completo al otro
+export interface DateRange {
+  from: Date
+  to: Date
+}
+
+export type Locale = "es" | "en"
+
+// Texto de un catálogo: fijo, o con una variante por categoría de plural (Intl.PluralRules) según `count`
+export type Message = string | (Partial<Record<Intl.LDMLPluralRule, string>> & { other: string })
+
+export type MessageParams = Record<string, string | number>
+
+// Aviso que recibe el resto de las pestañas cuando una escribe una campaña
+export interface CampaignChangeNotice {
+  campaignId: string
+  kind: "created" | "updated" | "deleted"
 }
 
+// Eventos de dominio que la app publica para el host después de cada escritura
+export type CampaignEvent =
+  | { type: "campaign.created"; campaign: Campaign }
+  // Toda escritura de una campaña existente, además de los eventos más específicos que correspondan
+  | { type: "campaign.updated"; campaign: Campaign }
+  | {
+      type: "campaign.statusChanged"
+      campaign: Campaign
+      from: CampaignStatus
+      to: CampaignStatus
+      cause?: StatusTransitionCause
+    }
+  // `permanent` es false al enviarla a la papelera y true al eliminarla definitivamente
+  | { type: "campaign.deleted"; campaignId: string; permanent: boolean }
+  | { type: "campaign.restored"; campaign: Campaign }
+  | { type: "person.added"; campaignId: string; person: Person }
+  | { type: "person.removed"; campaignId: string; personId: string }
+
+// Órdenes que el host puede enviar a la app
+export type CampaignCommand =
+  | { type: "openCreateForm" }
+  | { type: "focusCampaign"; campaignId: string }
+  // Los campos que no se indican conservan su valor actual
+  | { type: "applyFilter"; filters: Partial<CampaignFilters> }
+
+export interface CampaignRepository {
+  getAll: () => Promise<Campaign[]>
+  getById: (id: string) => Promise<Campaign | undefined>
+  create: (campaign: Campaign) => Promise<Campaign>
+  // Si la campaña trae `revision`, falla con ConflictError cuando la guardada es otra
+  update: (campaign: Campaign) => Promise<Campaign>
+  // Con `expectedRevision`, falla con ConflictError si la campaña cambió desde esa revisión
+  delete: (id: string, expectedRevision?: number) => Promise<void>
+  addPerson: (campaignId: string, person: Person) => Promise<Campaign>
+  removePerson: (campaignId: string, personId: string) => Promise<Campaign>
+}
+
+// Persona del directorio global; las campañas la referencian con Person.contactId
+export interface Contact {
+  id: string
+  name: string
+  lastName: string
+  phone: string
+  createdAt: string
+  updatedAt?: string
+}
+
+export interface ContactRepository {
+  getAll: () => Promise<Contact[]>
+  getById: (id: string) => Promise<Contact | undefined>
+  create: (contact: Contact) => Promise<Contact>
+  // Alta de varios contactos en una sola escritura
+  createMany: (contacts: Contact[]) => Promise<Contact[]>
+  update: (contact: Contact) => Promise<Contact>
+  delete: (id: string) => Promise<void>
+}
+
+// Número que no se puede llamar (lista de exclusión). Sin `expiresAt` el bloqueo no vence
+export interface DoNotCallEntry {
+  id: string
+  // E.164
+  phone: string
+  reason: string
+  addedAt: string
+  expiresAt?: string
+}
+
+export interface DoNotCallRepository {
+  getAll: () => Promise<DoNotCallEntry[]>
+  // Crea o reemplaza por id
+  save: (entries: DoNotCallEntry[]) => Promise<void>
+  delete: (id: string) => Promise<void>
+}
+
+// Participación de un contacto en una campaña, para su historial
+export interface ContactParticipation {
+  campaign: Campaign
+  person: Person
+  // La persona está en la papelera de la campaña
+  removed: boolean
+}
+
+export type CampaignSortField = "name" | "startDate" | "endDate" | "people"
+
+export type SortDirection = "asc" | "desc"
+
+export interface CampaignFilters {
+  search: string
+  statuses: CampaignStatus[]
+  // Fechas en formato yyyy-MM-dd, tal como las entrega <input type="date">
+  from: string
+  to: string
+  sortBy: CampaignSortField
+  sortDirection: SortDirection
+}
+
+export type ImportablePersonField = "name" | "lastName" | "phone"
+
+// Índice de la columna del archivo asignada a cada campo de Person (null si no se asignó)
+export type ImportColumnMapping = Record<ImportablePersonField, number | null>
+
+export interface ImportRowResult {
+  // Número de fila en el archivo original (1 = primera fila)
+  rowNumber: number
+  person: Person | null
+  // Mensajes de validación, como claves del catálogo de traducciones
+  errors: string[]
+  duplicate: boolean
+  // El teléfono está en la lista de no llamar
+  blocked: boolean
+}
+
+export interface ImportSummary {
+  imported: number
+  skipped: number
+  duplicates: number
+  blocked: number
+}
+
+export interface CallRequest {
+  callId: string
+  phone: string
+  record: boolean
+}
+
+export interface CallResult {
+  outcome: CallOutcome
+  durationSeconds: number
+  recording?: CallRecording
+}
+
+// Integración con la central telefónica; el marcador solo depende de esta interfaz
+export interface TelephonyProvider {
+  name: string
+  dial: (request: CallRequest) => Promise<CallResult>
+}
+
+export interface DialerConfig {
+  // Llamadas simultáneas como máximo
+  concurrency: number
+  // Intentos por persona, contando el primero
+  maxAttempts: number
+  retryDelayMs: number
+  retryOutcomes: CallOutcome[]
+}
+
+export type DialerStatus = "idle" | "running" | "paused" | "stopped" | "finished"
+
+// blocked: el número está en la lista de no llamar y no se marca
+export type DialerItemState =
+  | "pending"
+  | "dialing"
+  | "retry_scheduled"
+  | "completed"
+  | "exhausted"
+  | "error"
+  | "blocked"
+
+export interface DialerQueueItem {
+  personId: string
+  phone: string
+  label: string
+  state: DialerItemState
+  attempts: number
+  lastOutcome?: CallOutcome
+  nextAttemptAt?: number
+  error?: string
+}
+
+export interface DialerState {
+  status: DialerStatus
+  items: DialerQueueItem[]
+  // Fuera de la ventana de llamadas: epoch ms en que se retoma el marcado, o null si no quedan ventanas
+  waitingForWindow?: number | null
+}
@@ -0,0 +1,167 @@
+import { addDays, eachDayOfInterval, endOfDay, format, isAfter, startOfDay } from "date-fns"
+import type { Campaign, CampaignStatus, DateRange } from "../types"
+import { parseTimestamp } from "."
+import { CAMPAIGN_STATUSES } from "./campaignFilters"
+import { getActiveTimeMs } from "./statusMachine"
+
+// Agregaciones del panel de análisis. Son funciones puras: reciben las campañas ya sin las de la papelera
+
+const DAY_KEY_FORMAT = "yyyy-MM-dd"
+
+export const toDayKey = (date: Date) => format(date, DAY_KEY_FORMAT)
+
+export const createLastDaysRange = (days: number, now = new Date()): DateRange => ({
+  from: startOfDay(addDays(now, -(days - 1))),
+  to: endOfDay(now),
+})
+
+const getDays = ({ from, to }: DateRange) =>
+  isAfter(from, to) ? [] : eachDayOfInterval({ start: startOfDay(from), end: startOfDay(to) })
+
+// true si el período de la campaña se superpone con el rango
+export const overlapsRange = (campaign: Campaign, { from, to }: DateRange) =>
+  parseTimestamp(campaign.startDate).getTime() <= endOfDay(to).getTime() &&
+  parseTimestamp(campaign.endDate).getTime() >= startOfDay(from).getTime()
+
+// Estado que tenía la campaña en `at` según su historial, o null si todavía no existía
+export const getStatusAt = (campaign: Campaign, at: Date): CampaignStatus | null => {
+  if (isAfter(parseTimestamp(campaign.createdAt), at)) {
+    return null
+  }
+  const history = campaign.statusHistory ?? []
+  if (history.length === 0) {
+    return campaign.status
+  }
+  const past = history.filter((change) => !isAfter(parseTimestamp(change.changedAt), at))
+  if (past.length > 0) {
+    return past[past.length - 1].to
+  }
+  return history[0].from ?? history[0].to
+}
+
+export interface StatusCountsPoint {
+  day: string
+  counts: Record<CampaignStatus, number>
+}
+
+const emptyStatusCounts = () =>
+  Object.fromEntries(CAMPAIGN_STATUSES.map((status) => [status, 0])) as Record<CampaignStatus, number>
+
+// Cantidad de campañas en cada estado al cierre de cada día del rango
+export const countStatusesOverTime = (campaigns: Campaign[], range: DateRange): StatusCountsPoint[] =>
+  getDays(range).map((day) => {
+    const counts = emptyStatusCounts()
+    campaigns.forEach((campaign) => {
+      const status = getStatusAt(campaign, endOfDay(day))
+      if (status) {
+        counts[status]++
+      }
+    })
+    return { day: toDayKey(day), counts }
+  })
+
+export interface ContactsPerDayPoint {
+  day: string
+  // Personas distintas con al menos un intento ese día
+  contacted: number
+  attempts: number
+  answered: number
+}
+
+export const countContactsPerDay = (campaigns: Campaign[], range: DateRange): ContactsPerDayPoint[] => {
+  const points = new Map(
+    getDays(range).map((day) => [
+      toDayKey(day),
+      { day: toDayKey(day), people: new Set<string>(), attempts: 0, answered: 0 },
+    ]),
+  )
+  campaigns.forEach((campaign) =>
+    campaign.people.forEach((person) =>
+      (person.attempts ?? []).forEach((attempt) => {
+        const point = points.get(toDayKey(parseTimestamp(attempt.attemptedAt)))
+        if (point) {
+          point.people.add(`${campaign.id}/${person.id}`)
+          point.attempts++
+          if (attempt.outcome === "answered") {
+            point.answered++
+          }
+        }
+      }),
+    ),
+  )
+  return [...points.values()].map(({ day, people, attempts, answered }) => ({
+    day,
+    contacted: people.size,
+    attempts,
+    answered,
+  }))
+}
+
+export interface DurationSummary {
+  campaignCount: number
+  // Promedio entre la fecha de inicio y la de fin
+  averagePlannedMs: number
+  // Promedio del tiempo en estado Activa, solo de las campañas terminadas (finalizadas o canceladas)
+  averageActiveMs: number | null
+}
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+export const getDurationSummary = (campaigns: Campaign[], range: DateRange, now = new Date()): DurationSummary => {
+  const inRange = campaigns.filter((campaign) => overlapsRange(campaign, range))
+  const closed = inRange.filter((campaign) => campaign.status === "finished" || campaign.status === "cancelled")
+  return {
+    campaignCount: inRange.length,
+    averagePlannedMs:
+      inRange.length > 0
+        ? average(
+            inRange.map(
+              (campaign) => parseTimestamp(campaign.endDate).getTime() - parseTimestamp(campaign.startDate).getTime(),
+            ),
+          )
+        : 0,
+    averageActiveMs: closed.length > 0 ? average(closed.map((campaign) => getActiveTimeMs(campaign, now))) : null,
+  }
+}
+
+export interface UpcomingMilestone {
+  campaign: Campaign
+  kind: "start" | "end"
+  at: Date
+}
+
+// Inicios de campañas en espera y fines de campañas en curso dentro de los próximos `days` días
+export const getUpcomingMilestones = (campaigns: Campaign[], now = new Date(), days = 7): UpcomingMilestone[] => {
+  const limit = addDays(now, days).getTime()
+  const isUpcoming = (at: Date) => at.getTime() > now.getTime() && at.getTime() <= limit
+  return campaigns
+    .flatMap((campaign): UpcomingMilestone[] => {
+      if (campaign.status === "waiting") {
+        return [{ campaign, kind: "start", at: parseTimestamp(campaign.startDate) }]
+      }
+      if (campaign.status === "active" || campaign.status === "paused") {
+        return [{ campaign, kind: "end", at: parseTimestamp(campaign.endDate) }]
+      }
+      return []
+    })
+    .filter((milestone) => isUpcoming(milestone.at))
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+}
+
+export interface CampaignSize {
+  campaign: Campaign
+  people: number
+  contacted: number
+}
+
+// Campañas del rango con más personas a contactar; a igual tamaño, las más avanzadas primero
+export const getTopCampaignsByContacts = (campaigns: Campaign[], range: DateRange, limit = 5): CampaignSize[] =>
+  campaigns
+    .filter((campaign) => overlapsRange(campaign, range))
+    .map((campaign) => ({
+      campaign,
+      people: campaign.people.length,
+      contacted: campaign.people.filter((person) => (person.attempts ?? []).length > 0).length,
+    }))
+    .sort((a, b) => b.people - a.people || b.contacted - a.contacted)
+    .slice(0, limit)
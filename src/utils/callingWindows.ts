@@ -0,0 +1,180 @@
+import type { CallingWindow, Campaign, Locale, TimeRange, Weekday } from "../types"
+import type { Translator } from "../i18n"
+import { parseTimestamp } from "."
+
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+// Orden de la semana en el editor: de lunes a domingo
+export const WEEKDAYS: Weekday[] = [1, 2, 3, 4, 5, 6, 0]
+
+// Zonas ofrecidas en el editor además de la del navegador
+export const COMMON_TIME_ZONES = [
+  "America/Argentina/Buenos_Aires",
+  "America/Bogota",
+  "America/Chicago",
+  "America/Los_Angeles",
+  "America/Mexico_City",
+  "America/New_York",
+  "America/Santiago",
+  "America/Sao_Paulo",
+  "Europe/Madrid",
+  "UTC",
+]
+
+export const getLocalTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const createDefaultCallingWindow = (timeZone = getLocalTimeZone()): CallingWindow => ({
+  timeZone,
+  weekdays: [1, 2, 3, 4, 5],
+  timeRanges: [{ start: "09:00", end: "20:00" }],
+  blackoutDates: [],
+})
+
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+export const isValidTimeRange = (range: TimeRange) =>
+  TIME_PATTERN.test(range.start) && TIME_PATTERN.test(range.end) && toMinutes(range.start) < toMinutes(range.end)
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+// Fecha y hora de pared de `date` en la zona indicada
+const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    })
+    formatters.set(timeZone, formatter)
+  }
+  const values = Object.fromEntries(
+    formatter
+      .formatToParts(date)
+      .filter((part) => part.type !== "literal")
+      .map((part) => [part.type, Number(part.value)]),
+  )
+  return values as unknown as ZonedParts
+}
+
+const getTimeZoneOffsetMs = (date: Date, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone)
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(date.getTime() / 1000) * 1000
+}
+
+// Instante que corresponde a una fecha y hora de pared en la zona; corrige una vez por cambio de horario
+const zonedTimeToDate = (year: number, month: number, day: number, minutes: number, timeZone: string) => {
+  const wallTime = Date.UTC(year, month - 1, day, 0, minutes)
+  const offset = getTimeZoneOffsetMs(new Date(wallTime), timeZone)
+  const corrected = getTimeZoneOffsetMs(new Date(wallTime - offset), timeZone)
+  return new Date(wallTime - corrected)
+}
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10)
+
+// Día del calendario (a medianoche UTC) de la fecha de pared, desplazado `offset` días
+const getCalendarDay = ({ year, month, day }: ZonedParts, offset = 0) =>
+  new Date(Date.UTC(year, month - 1, day + offset))
+
+const isCallingDay = (window: CallingWindow, calendarDay: Date) =>
+  window.weekdays.includes(calendarDay.getUTCDay() as Weekday) && !window.blackoutDates.includes(toDateKey(calendarDay))
+
+export const isWithinCallingWindow = (window: CallingWindow, date = new Date()) => {
+  const parts = getZonedParts(date, window.timeZone)
+  if (!isCallingDay(window, getCalendarDay(parts))) {
+    return false
+  }
+  const minutes = parts.hour * 60 + parts.minute
+  return window.timeRanges.some((range) => minutes >= toMinutes(range.start) && minutes < toMinutes(range.end))
+}
+
+// Próxima apertura de una franja igual o posterior a `from` y anterior a `until`; busca hasta un año adelante
+export const getNextWindowStart = (window: CallingWindow, from = new Date(), until?: Date): Date | null => {
+  const starts = window.timeRanges.map((range) => toMinutes(range.start)).sort((a, b) => a - b)
+  const fromParts = getZonedParts(from, window.timeZone)
+
+  for (let offset = 0; offset <= 366; offset++) {
+    const calendarDay = getCalendarDay(fromParts, offset)
+    if (!isCallingDay(window, calendarDay)) {
+      continue
+    }
+    for (const start of starts) {
+      const opensAt = zonedTimeToDate(
+        calendarDay.getUTCFullYear(),
+        calendarDay.getUTCMonth() + 1,
+        calendarDay.getUTCDate(),
+        start,
+        window.timeZone,
+      )
+      if (until && opensAt >= until) {
+        return null
+      }
+      if (opensAt >= from) {
+        return opensAt
+      }
+    }
+  }
+  return null
+}
+
+// Se puede llamar si la campaña está activa y el momento cae dentro de su ventana (si la tiene)
+export const isCallingAllowed = (campaign: Campaign, now = new Date()) =>
+  campaign.status === "active" && (!campaign.callingWindow || isWithinCallingWindow(campaign.callingWindow, now))
+
+// Próxima apertura de la ventana dentro del período de la campaña; null si no queda ninguna
+export const getNextCallingWindow = (campaign: Campaign, now = new Date()): Date | null => {
+  if (!campaign.callingWindow || campaign.status === "finished" || campaign.status === "cancelled") {
+    return null
+  }
+  const startDate = parseTimestamp(campaign.startDate)
+  return getNextWindowStart(campaign.callingWindow, startDate > now ? startDate : now, parseTimestamp(campaign.endDate))
+}
+
+// Fecha y hora en la zona de la campaña, p. ej. "lun, 03/06, 09:00" en español
+export const formatInTimeZone = (date: Date, timeZone: string, locale: Locale) =>
+  new Intl.DateTimeFormat(locale, {
+    timeZone,
+    weekday: "short",
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(date)
+
+export const describeCallingWindow = (window: CallingWindow, { t }: Translator) => {
+  const days = WEEKDAYS.filter((day) => window.weekdays.includes(day))
+    .map((day) => t(`weekday.${day}`))
+    .join(", ")
+  const ranges = window.timeRanges.map((range) => `${range.start}–${range.end}`).join(", ")
+  return t("callingWindow.summary", {
+    days: days || t("callingWindow.noDays"),
+    ranges: ranges || t("callingWindow.noRanges"),
+    timeZone: window.timeZone,
+  })
+}
@@ -0,0 +1,122 @@
+import { endOfDay, parse, startOfDay } from "date-fns"
+import type { Campaign, CampaignFilters, CampaignSortField, CampaignStatus, SortDirection } from "../types"
+import { parseTimestamp } from "."
+import { isPhoneSearchTerm } from "./phone"
+
+export const CAMPAIGN_STATUSES: CampaignStatus[] = ["active", "waiting", "paused", "finished", "cancelled"]
+
+const SORT_FIELDS: CampaignSortField[] = ["name", "startDate", "endDate", "people"]
+
+export const defaultCampaignFilters: CampaignFilters = {
+  search: "",
+  statuses: [],
+  from: "",
+  to: "",
+  sortBy: "startDate",
+  sortDirection: "asc",
+}
+
+export const filtersFromSearchParams = (params: URLSearchParams): CampaignFilters => {
+  const sortBy = params.get("sort") as CampaignSortField | null
+  const sortDirection = params.get("order") as SortDirection | null
+
+  return {
+    search: params.get("q") ?? "",
+    statuses: (params.get("status") ?? "")
+      .split(",")
+      .filter((status): status is CampaignStatus => CAMPAIGN_STATUSES.includes(status as CampaignStatus)),
+    from: params.get("from") ?? "",
+    to: params.get("to") ?? "",
+    sortBy: sortBy && SORT_FIELDS.includes(sortBy) ? sortBy : defaultCampaignFilters.sortBy,
+    sortDirection: sortDirection === "desc" ? "desc" : "asc",
+  }
+}
+
+// Solo se escriben en la URL los valores distintos de los predeterminados, para que los enlaces sean cortos
+export const filtersToSearchParams = (filters: CampaignFilters, base = new URLSearchParams()): URLSearchParams => {
+  const params = new URLSearchParams(base)
+  const entries: [string, string][] = [
+    ["q", filters.search.trim()],
+    ["status", filters.statuses.join(",")],
+    ["from", filters.from],
+    ["to", filters.to],
+    ["sort", filters.sortBy === defaultCampaignFilters.sortBy ? "" : filters.sortBy],
+    ["order", filters.sortDirection === defaultCampaignFilters.sortDirection ? "" : filters.sortDirection],
+  ]
+
+  entries.forEach(([key, value]) => {
+    if (value) {
+      params.set(key, value)
+    } else {
+      params.delete(key)
+    }
+  })
+
+  return params
+}
+
+export const hasActiveFilters = (filters: CampaignFilters): boolean =>
+  !!filters.search.trim() || filters.statuses.length > 0 || !!filters.from || !!filters.to
+
+const normalize = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+
+const matchesSearch = (campaign: Campaign, search: string) => {
+  const term = normalize(search.trim())
+  if (!term) {
+    return true
+  }
+  // Solo un término con forma de teléfono se busca entre los números: "Q3 promo" no trae los que tienen un 3
+  const termDigits = isPhoneSearchTerm(term) ? term.replace(/\D/g, "") : ""
+
+  return (
+    normalize(campaign.name).includes(term) ||
+    campaign.people.some(
+      (person) =>
+        normalize(`${person.name} ${person.lastName}`).includes(term) ||
+        (termDigits.length > 0 && person.phone.replace(/\D/g, "").includes(termDigits)),
+    )
+  )
+}
+
+// Una campaña entra en el rango si su intervalo [inicio, fin] se solapa con [desde, hasta]
+const matchesDateRange = (campaign: Campaign, from: string, to: string) => {
+  if (from && parseTimestamp(campaign.endDate) < startOfDay(parse(from, "yyyy-MM-dd", new Date()))) {
+    return false
+  }
+  if (to && parseTimestamp(campaign.startDate) > endOfDay(parse(to, "yyyy-MM-dd", new Date()))) {
+    return false
+  }
+  return true
+}
+
+// Los nombres se ordenan con las reglas del idioma de la interfaz
+const compareBy = (field: CampaignSortField, locale: string) => (a: Campaign, b: Campaign) => {
+  switch (field) {
+    case "name":
+      return a.name.localeCompare(b.name, locale, { sensitivity: "base" })
+    case "startDate":
+      return parseTimestamp(a.startDate).getTime() - parseTimestamp(b.startDate).getTime()
+    case "endDate":
+      return parseTimestamp(a.endDate).getTime() - parseTimestamp(b.endDate).getTime()
+    case "people":
+      return a.people.length - b.people.length
+  }
+}
+
+export const applyCampaignFilters = (campaigns: Campaign[], filters: CampaignFilters, locale: string): Campaign[] => {
+  const compare = compareBy(filters.sortBy, locale)
+  const direction = filters.sortDirection === "desc" ? -1 : 1
+
+  return campaigns
+    .filter(
+      (campaign) =>
+        (filters.statuses.length === 0 || filters.statuses.includes(campaign.status)) &&
+        matchesSearch(campaign, filters.search) &&
+        matchesDateRange(campaign, filters.from, filters.to),
+    )
+    .sort((a, b) => compare(a, b) * direction)
+}
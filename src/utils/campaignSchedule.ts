@@ -0,0 +1,79 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+import type { Campaign } from "../types"
+import { parseTimestamp, toTimestamp } from "."
+import { createCampaignFormSchema, validate } from "../schemas"
+
+// Funciones de las vistas de calendario y línea de tiempo. Las semanas empiezan el lunes
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const
+
+export type ScheduleView = "month" | "week" | "timeline"
+
+// Días visibles: semanas completas que cubren el mes, o la semana de `date`
+export const getVisibleDays = (date: Date, view: ScheduleView): Date[] =>
+  view === "week"
+    ? eachDayOfInterval({ start: startOfWeek(date, WEEK_OPTIONS), end: endOfWeek(date, WEEK_OPTIONS) })
+    : view === "month"
+      ? eachDayOfInterval({
+          start: startOfWeek(startOfMonth(date), WEEK_OPTIONS),
+          end: endOfWeek(endOfMonth(date), WEEK_OPTIONS),
+        })
+      : eachDayOfInterval({ start: startOfMonth(date), end: endOfMonth(date) })
+
+// Avanza o retrocede un mes o una semana según la vista
+export const shiftVisibleDate = (date: Date, view: ScheduleView, direction: 1 | -1): Date =>
+  view === "week" ? addWeeks(date, direction) : startOfMonth(addMonths(date, direction))
+
+export const isOnDay = (campaign: Campaign, day: Date) =>
+  parseTimestamp(campaign.startDate).getTime() <= endOfDay(day).getTime() &&
+  parseTimestamp(campaign.endDate).getTime() >= startOfDay(day).getTime()
+
+export const getCampaignsOnDay = (campaigns: Campaign[], day: Date) =>
+  campaigns
+    .filter((campaign) => isOnDay(campaign, day))
+    .sort((a, b) => parseTimestamp(a.startDate).getTime() - parseTimestamp(b.startDate).getTime())
+
+// Solo las campañas en espera se pueden mover arrastrándolas; las demás ya empezaron o terminaron
+export const canReschedule = (campaign: Campaign) => campaign.status === "waiting" && !campaign.deletedAt
+
+// Corre inicio y fin la misma cantidad de días de calendario, conservando la hora y la duración
+export const moveCampaignByDays = (campaign: Campaign, days: number): Campaign => ({
+  ...campaign,
+  startDate: toTimestamp(addDays(parseTimestamp(campaign.startDate), days)),
+  endDate: toTimestamp(addDays(parseTimestamp(campaign.endDate), days)),
+})
+
+export const getDayOffset = (from: Date, to: Date) => differenceInCalendarDays(to, from)
+
+// Aplica a las fechas nuevas las mismas reglas que el formulario de campaña. Devuelve el motivo (una clave del
+// catálogo) si no se puede
+export const getRescheduleError = (campaign: Campaign, now = new Date()): string | null => {
+  if (!canReschedule(campaign)) {
+    return "schedule.error.notWaiting"
+  }
+  const result = validate(createCampaignFormSchema(now), {
+    name: campaign.name,
+    status: campaign.status,
+    startDate: parseTimestamp(campaign.startDate),
+    endDate: parseTimestamp(campaign.endDate),
+    people: campaign.people,
+    callingWindow: campaign.callingWindow ?? null,
+  })
+  if (result.success) {
+    return null
+  }
+  // Solo importan las reglas de fechas; el resto de los campos no cambia al mover la campaña
+  return result.errors.startDate ?? result.errors.endDate ?? result.errors.callingWindow ?? null
+}
@@ -0,0 +1,57 @@
+import type { CallOutcome, Campaign, ContactAttempt } from "../types"
+
+export const CALL_OUTCOMES: CallOutcome[] = ["answered", "no_answer", "busy", "wrong_number", "voicemail"]
+
+export const getCallOutcomeColor = (outcome: CallOutcome) => {
+  switch (outcome) {
+    case "answered":
+      return "bg-green-100 text-green-800"
+    case "wrong_number":
+      return "bg-red-100 text-red-800"
+    default:
+      return "bg-yellow-100 text-yellow-800"
+  }
+}
+
+export interface CampaignContactMetrics {
+  total: number
+  contacted: number
+  answered: number
+  pending: number
+  // Personas con al menos un intento sobre el total
+  contactRate: number
+  // Personas que atendieron sobre las contactadas
+  answeredRate: number
+}
+
+export const getCampaignContactMetrics = (campaign: Campaign): CampaignContactMetrics => {
+  const total = campaign.people.length
+  const contacted = campaign.people.filter((person) => (person.attempts ?? []).length > 0).length
+  const answered = campaign.people.filter((person) =>
+    (person.attempts ?? []).some((attempt) => attempt.outcome === "answered"),
+  ).length
+
+  return {
+    total,
+    contacted,
+    answered,
+    pending: total - contacted,
+    contactRate: total > 0 ? contacted / total : 0,
+    answeredRate: contacted > 0 ? answered / contacted : 0,
+  }
+}
+
+export const getLastAttempt = (attempts: ContactAttempt[] = []): ContactAttempt | undefined =>
+  attempts[attempts.length - 1]
+
+export const withContactAttempt = (campaign: Campaign, personId: string, attempt: ContactAttempt): Campaign => ({
+  ...campaign,
+  people: campaign.people.map((person) =>
+    person.id === personId ? { ...person, attempts: [...(person.attempts ?? []), attempt] } : person,
+  ),
+})
+
+export const formatPercentage = (value: number) => `${Math.round(value * 100)}%`
+
+export const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, "0")}`
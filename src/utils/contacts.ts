@@ -0,0 +1,154 @@
+import { v4 as uuidv4 } from "uuid"
+import type { Campaign, Contact, ContactParticipation, Person } from "../types"
+import { toTimestamp } from "."
+import { isPhoneSearchTerm, normalizePhoneNumber } from "./phone"
+
+// Personas de la campaña, incluidas las que están en su papelera
+export const getCampaignPeople = (campaign: Campaign): Person[] => [...campaign.people, ...(campaign.deletedPeople ?? [])]
+
+export const usesContact = (campaign: Campaign, contactIds: string[]) =>
+  getCampaignPeople(campaign).some((person) => person.contactId && contactIds.includes(person.contactId))
+
+// Contacto nuevo con los datos de una persona; conserva su contactId si ya tenía uno asignado
+export const createContactFromPerson = (person: Person, now = new Date()): Contact => ({
+  id: person.contactId ?? uuidv4(),
+  name: person.name,
+  lastName: person.lastName,
+  phone: person.phone,
+  createdAt: toTimestamp(now),
+})
+
+// Copia a la persona los datos del contacto al que queda enlazada
+export const linkPersonToContact = (person: Person, contact: Contact): Person => ({
+  ...person,
+  contactId: contact.id,
+  name: contact.name,
+  lastName: contact.lastName,
+  phone: contact.phone,
+})
+
+// Actualiza la copia de los datos del contacto en todas las personas de la campaña que lo referencian
+export const applyContactToCampaign = (campaign: Campaign, contact: Contact): Campaign => {
+  const apply = (people: Person[]) =>
+    people.map((person) => (person.contactId === contact.id ? linkPersonToContact(person, contact) : person))
+  return {
+    ...campaign,
+    people: apply(campaign.people),
+    ...(campaign.deletedPeople && { deletedPeople: apply(campaign.deletedPeople) }),
+  }
+}
+
+const mergeAttempts = (people: Person[]) => {
+  const attempts = people
+    .flatMap((person) => person.attempts ?? [])
+    .sort((a, b) => a.attemptedAt.localeCompare(b.attemptedAt))
+  return attempts.length > 0 ? attempts : undefined
+}
+
+// Junta en una sola fila las personas de la lista enlazadas a `contactId`, con todos sus intentos
+const collapseRows = (people: Person[], contactId: string, extraRows: Person[] = []) => {
+  const rows = people.filter((person) => person.contactId === contactId)
+  if (rows.length === 0) {
+    return people
+  }
+  const [first] = rows
+  return people
+    .filter((person) => person.contactId !== contactId || person === first)
+    .map((person) => (person === first ? { ...first, attempts: mergeAttempts([...rows, ...extraRows]) } : person))
+}
+
+// Enlaza a `kept` las personas de los contactos duplicados. Si la campaña termina con el mismo contacto
+// dos veces, queda una sola fila con los intentos de todas; la de la papelera se descarta si está también activa
+export const mergeContactsInCampaign = (campaign: Campaign, kept: Contact, duplicateIds: string[]): Campaign => {
+  const repoint = (people: Person[]) =>
+    people.map((person) =>
+      person.contactId && duplicateIds.includes(person.contactId) ? linkPersonToContact(person, kept) : person,
+    )
+  const deletedPeople = campaign.deletedPeople && repoint(campaign.deletedPeople)
+  const deletedRows = deletedPeople?.filter((person) => person.contactId === kept.id) ?? []
+  const people = collapseRows(repoint(campaign.people), kept.id, deletedRows)
+  const isActive = people.some((person) => person.contactId === kept.id)
+
+  return {
+    ...campaign,
+    people,
+    ...(deletedPeople && {
+      deletedPeople: isActive
+        ? deletedPeople.filter((person) => person.contactId !== kept.id)
+        : collapseRows(deletedPeople, kept.id),
+    }),
+  }
+}
+
+// Campañas en las que participa el contacto, de la más reciente a la más antigua
+export const getContactHistory = (campaigns: Campaign[], contactId: string): ContactParticipation[] =>
+  campaigns
+    .flatMap((campaign) => {
+      const active = campaign.people.find((person) => person.contactId === contactId)
+      const removed = campaign.deletedPeople?.find((person) => person.contactId === contactId)
+      const person = active ?? removed
+      return person ? [{ campaign, person, removed: !active }] : []
+    })
+    .sort((a, b) => b.campaign.startDate.localeCompare(a.campaign.startDate))
+
+// Texto comparable sin mayúsculas ni tildes
+const normalizeText = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim()
+
+// Busca por nombre y apellido (en cualquier orden) o por los dígitos del teléfono
+export const matchesContactSearch = (contact: Contact, query: string) => {
+  const terms = normalizeText(query).split(/\s+/).filter(Boolean)
+  const fullName = normalizeText(`${contact.name} ${contact.lastName}`)
+  const phoneDigits = contact.phone.replace(/\D/g, "")
+  return terms.every((term) =>
+    isPhoneSearchTerm(term) ? phoneDigits.includes(term.replace(/\D/g, "")) : fullName.includes(term),
+  )
+}
+
+// Contactos con el mismo nombre y apellido que otro: candidatos a fusionarse
+export const getPossibleDuplicateIds = (contacts: Contact[]) => {
+  const byName = new Map<string, string[]>()
+  contacts.forEach((contact) => {
+    const key = normalizeText(`${contact.name} ${contact.lastName}`)
+    byName.set(key, [...(byName.get(key) ?? []), contact.id])
+  })
+  return new Set([...byName.values()].filter((ids) => ids.length > 1).flat())
+}
+
+// Clave para comparar teléfonos sin volver a interpretarlos en cada comparación
+export const getPhoneKey = (phone: string) => normalizePhoneNumber(phone) ?? phone
+
+// Directorio indexado por teléfono, para enlazar muchas personas seguidas
+export const indexContactsByPhone = (contacts: Contact[]) =>
+  new Map(contacts.map((contact) => [getPhoneKey(contact.phone), contact]))
+
+// Asigna el mismo contactId a todas las personas con el mismo teléfono, en todas las campañas.
+// Respeta los ya asignados, así que se puede aplicar sobre datos ya migrados
+export const assignContactIds = (campaigns: Campaign[]): Campaign[] => {
+  const contactIds = new Map<string, string>()
+  campaigns
+    .flatMap(getCampaignPeople)
+    .filter((person) => person.contactId)
+    .forEach((person) => contactIds.set(getPhoneKey(person.phone), person.contactId!))
+
+  const link = (person: Person): Person => {
+    if (person.contactId) {
+      return person
+    }
+    const key = getPhoneKey(person.phone)
+    if (!contactIds.has(key)) {
+      contactIds.set(key, uuidv4())
+    }
+    return { ...person, contactId: contactIds.get(key) }
+  }
+
+  return campaigns.map((campaign) => ({
+    ...campaign,
+    people: campaign.people.map(link),
+    ...(campaign.deletedPeople && { deletedPeople: campaign.deletedPeople.map(link) }),
+  }))
+}
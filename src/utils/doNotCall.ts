@@ -0,0 +1,104 @@
+import { endOfDay, isValid, parse } from "date-fns"
+import { v4 as uuidv4 } from "uuid"
+import type { Campaign, DoNotCallEntry } from "../types"
+import { parseTimestamp, toTimestamp } from "."
+import { DEFAULT_PHONE_COUNTRY, isSamePhoneNumber, normalizePhoneNumber } from "./phone"
+import type { CountryCode } from "./phone"
+
+export const isDoNotCallEntryActive = (entry: DoNotCallEntry, now = new Date()) =>
+  !entry.expiresAt || parseTimestamp(entry.expiresAt) > now
+
+// Teléfonos bloqueados en `now`, en E.164, para consultar muchos números seguidos
+export const getBlockedPhones = (entries: DoNotCallEntry[], now = new Date()): Set<string> =>
+  new Set(entries.filter((entry) => isDoNotCallEntryActive(entry, now)).map((entry) => entry.phone))
+
+export const isPhoneBlocked = (blockedPhones: Set<string>, phone: string) =>
+  blockedPhones.has(normalizePhoneNumber(phone) ?? phone)
+
+// Campañas fuera de la papelera que tienen el número entre sus personas a contactar
+export const getCampaignsWithPhone = (campaigns: Campaign[], phone: string): Campaign[] =>
+  campaigns.filter(
+    (campaign) => !campaign.deletedAt && campaign.people.some((person) => isSamePhoneNumber(person.phone, phone)),
+  )
+
+// Un bloqueo con fecha dura hasta el final de ese día
+export const toDoNotCallExpiry = (date: Date) => toTimestamp(endOfDay(date))
+
+// Entradas a guardar, una por teléfono (gana la última). Un número que ya estaba conserva su id, así que
+// volver a cargarlo reemplaza su motivo y vencimiento
+export const mergeDoNotCallEntries = (existing: DoNotCallEntry[], incoming: DoNotCallEntry[]): DoNotCallEntry[] => {
+  const existingIds = new Map(existing.map((entry) => [entry.phone, entry.id]))
+  const byPhone = new Map<string, DoNotCallEntry>()
+  incoming.forEach((entry) => byPhone.set(entry.phone, { ...entry, id: existingIds.get(entry.phone) ?? entry.id }))
+  return [...byPhone.values()]
+}
+
+const headerAliases = {
+  phone: ["telefono", "teléfono", "phone", "celular", "movil", "móvil", "numero", "número"],
+  reason: ["motivo", "razon", "razón", "reason"],
+  expiresAt: ["vence", "vencimiento", "expira", "expires", "expiry", "expiration"],
+}
+
+const EXPIRY_FORMATS = ["yyyy-MM-dd", "dd/MM/yyyy"]
+
+const parseExpiry = (value: string, now: Date) => {
+  for (const format of EXPIRY_FORMATS) {
+    const date = parse(value, format, now)
+    if (isValid(date)) {
+      return date
+    }
+  }
+  return null
+}
+
+interface DoNotCallImportOptions {
+  country?: CountryCode
+  // Se usan en las filas que no traen motivo o vencimiento propios
+  reason: string
+  expiresAt: Date | null
+  now?: Date
+}
+
+export interface DoNotCallImportResult {
+  entries: DoNotCallEntry[]
+  // Números de fila (1 = primera) que no se pudieron interpretar
+  invalidRows: number[]
+}
+
+// Lee un archivo de exclusión: teléfono y, opcionalmente, motivo y vencimiento (yyyy-MM-dd o dd/MM/yyyy).
+// Si la primera fila tiene encabezados conocidos se usan para ubicar las columnas; si no, van en ese orden
+export const parseDoNotCallRows = (
+  rows: string[][],
+  { country = DEFAULT_PHONE_COUNTRY, reason, expiresAt, now = new Date() }: DoNotCallImportOptions,
+): DoNotCallImportResult => {
+  const headers = (rows[0] ?? []).map((header) => header.trim().toLowerCase())
+  const findColumn = (field: keyof typeof headerAliases) =>
+    headers.findIndex((header) => headerAliases[field].includes(header))
+  const hasHeaderRow = findColumn("phone") >= 0
+  const columns = hasHeaderRow
+    ? { phone: findColumn("phone"), reason: findColumn("reason"), expiresAt: findColumn("expiresAt") }
+    : { phone: 0, reason: 1, expiresAt: 2 }
+  const cell = (row: string[], column: number) => (column >= 0 ? (row[column] ?? "").trim() : "")
+
+  const entries: DoNotCallEntry[] = []
+  const invalidRows: number[] = []
+  rows.slice(hasHeaderRow ? 1 : 0).forEach((row, index) => {
+    const rowNumber = index + (hasHeaderRow ? 2 : 1)
+    const phone = normalizePhoneNumber(cell(row, columns.phone), country)
+    const expiryCell = cell(row, columns.expiresAt)
+    const expiry = expiryCell ? parseExpiry(expiryCell, now) : expiresAt
+    if (!phone || (expiryCell && !expiry)) {
+      invalidRows.push(rowNumber)
+      return
+    }
+    entries.push({
+      id: uuidv4(),
+      phone,
+      reason: cell(row, columns.reason) || reason,
+      addedAt: toTimestamp(now),
+      ...(expiry && { expiresAt: toDoNotCallExpiry(expiry) }),
+    })
+  })
+
+  return { entries: mergeDoNotCallEntries([], entries), invalidRows }
+}
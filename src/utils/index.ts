@@ -1,34 +1,23 @@
-import type { Campaign, CampaignStatus } from "../types"
-import { format, isAfter, isBefore, parse } from "date-fns"
-
-export const saveCampaigns = async (campaigns: Campaign[]): Promise<void> => {
-  return new Promise((resolve) => {
-    localStorage.setItem("campaigns", JSON.stringify(campaigns))
-    resolve()
-  })
-}
-
-export const getCampaigns = async (): Promise<Campaign[]> => {
-  return new Promise((resolve) => {
-    const campaigns = localStorage.getItem("campaigns")
-    resolve(campaigns ? JSON.parse(campaigns) : [])
-  })
-}
+import type { CampaignRepository, CampaignStatus } from "../types"
+import { isAfter, isBefore, parseISO } from "date-fns"
 
 export const isDateInFuture = (date: Date): boolean => {
   return isAfter(date, new Date())
 }
 
-export const formatDate = (date: Date): string => {
-  return format(date, "dd/MM/yyyy HH:mm")
+// Las fechas se guardan como ISO-8601 en UTC; se formatean al mostrarlas según el idioma (ver i18n)
+export const toTimestamp = (date: Date): string => {
+  return date.toISOString()
 }
 
-export const parseDate = (dateString: string): Date => {
-  return parse(dateString, "dd/MM/yyyy HH:mm", new Date())
+export const parseTimestamp = (timestamp: string): Date => {
+  return parseISO(timestamp)
 }
 
-export const hasCampaigns = async (): Promise<boolean> => {
-  const campaigns = await getCampaigns()
+export const PERSON_NAME_PATTERN = /^[a-zA-ZáéíóúñÁÉÍÓÚÑ\s]+$/
+
+export const hasCampaigns = async (repository: CampaignRepository): Promise<boolean> => {
+  const campaigns = await repository.getAll()
   return campaigns.length > 0
 }
 
@@ -36,32 +25,68 @@ export const isDateInPast = (date: Date): boolean => {
   return isBefore(date, new Date())
 }
 
-export const updateCampaignStatuses = async (): Promise<Campaign[]> => {
-  const campaigns = await getCampaigns()
-  const now = Date.now()
-  let updated = false
-
-  const updatedCampaigns = campaigns.map((campaign) => {
-    const startDate = parseDate(campaign.startDate).getTime()
-    const endDate = parseDate(campaign.endDate).getTime()
-
-    let newStatus: CampaignStatus = campaign.status
-
-    if (campaign.status === "En espera" && now >= startDate) {
-      newStatus = "Activa"
-      updated = true
-    } else if (campaign.status === "Activa" && now >= endDate) {
-      newStatus = "Finalizada"
-      updated = true
-    }
-
-    return { ...campaign, status: newStatus }
-  })
-
-  if (updated) {
-    await saveCampaigns(updatedCampaigns)
+export const getStatusBadgeColor = (status: string) => {
+  switch (status) {
+    case "active":
+      return "bg-green-100 text-green-800"
+    case "finished":
+      return "bg-red-100 text-red-800"
+    case "waiting":
+      return "bg-yellow-100 text-yellow-800"
+    case "paused":
+      return "bg-orange-100 text-orange-800"
+    case "cancelled":
+      return "bg-gray-200 text-gray-600 line-through"
+    default:
+      return "bg-gray-100 text-gray-800"
   }
+}
 
-  return updatedCampaigns
+export interface EditableCampaignFields {
+  name: boolean
+  status: boolean
+  startDate: boolean
+  endDate: boolean
+  recordingStatus: boolean
+  people: boolean
+  callingWindow: boolean
 }
 
+// Campos editables según el estado actual: todo mientras está en espera (o al crearla),
+// solo nombre, fecha de fin y horario de llamadas si está activa o pausada, y nada una vez finalizada o cancelada
+export const getEditableFields = (status?: CampaignStatus): EditableCampaignFields => {
+  switch (status) {
+    case "active":
+    case "paused":
+      return {
+        name: true,
+        status: false,
+        startDate: false,
+        endDate: true,
+        recordingStatus: false,
+        people: false,
+        callingWindow: true,
+      }
+    case "finished":
+    case "cancelled":
+      return {
+        name: false,
+        status: false,
+        startDate: false,
+        endDate: false,
+        recordingStatus: false,
+        people: false,
+        callingWindow: false,
+      }
+    default:
+      return {
+        name: true,
+        status: true,
+        startDate: true,
+        endDate: true,
+        recordingStatus: true,
+        people: true,
+        callingWindow: true,
+      }
+  }
+}
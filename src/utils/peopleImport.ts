@@ -0,0 +1,90 @@
+import { v4 as uuidv4 } from "uuid"
+import { DO_NOT_CALL_MESSAGE, DUPLICATE_PHONE_MESSAGE, createPersonInputSchema, validate } from "../schemas"
+import type { ImportColumnMapping, ImportRowResult, ImportSummary, ImportablePersonField, Person } from "../types"
+import { DEFAULT_PHONE_COUNTRY, normalizePhoneNumber } from "./phone"
+import type { CountryCode } from "./phone"
+
+export const IMPORT_ACCEPTED_FILES = ".csv,.xlsx,.xls"
+
+const headerAliases: Record<ImportablePersonField, string[]> = {
+  name: ["nombre", "name", "first name", "firstname", "nombres"],
+  lastName: ["apellido", "last name", "lastname", "surname", "apellidos"],
+  phone: ["telefono", "teléfono", "phone", "celular", "movil", "móvil", "numero", "número"],
+}
+
+// Lee la primera hoja de un CSV o XLSX como una matriz de textos. xlsx se carga bajo demanda por su tamaño.
+export const parsePeopleFile = async (file: File): Promise<string[][]> => {
+  const { read, utils } = await import("xlsx")
+  const workbook = read(await file.arrayBuffer(), { type: "array", raw: file.name.toLowerCase().endsWith(".csv") })
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  if (!sheet) {
+    return []
+  }
+  const rows = utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: "", blankrows: false })
+  return rows.map((row) => row.map((cell) => String(cell ?? "").trim()))
+}
+
+export const guessColumnMapping = (headers: string[]): ImportColumnMapping => {
+  const normalizedHeaders = headers.map((header) => header.trim().toLowerCase())
+  const findColumn = (field: ImportablePersonField) => {
+    const index = normalizedHeaders.findIndex((header) => headerAliases[field].includes(header))
+    return index >= 0 ? index : null
+  }
+
+  return { name: findColumn("name"), lastName: findColumn("lastName"), phone: findColumn("phone") }
+}
+
+// Aplica a cada fila las mismas reglas que el alta manual: nombre y apellido con letras,
+// teléfono válido, fuera de la lista de no llamar y sin repetir ni en la campaña ni dentro del propio archivo.
+// Los números sin prefijo internacional se interpretan con `defaultCountry`.
+export const validateImportRows = (
+  rows: string[][],
+  mapping: ImportColumnMapping,
+  existingPeople: Person[],
+  firstRowNumber = 1,
+  defaultCountry: CountryCode = DEFAULT_PHONE_COUNTRY,
+  isBlocked?: (phone: string) => boolean,
+): ImportRowResult[] => {
+  const knownPhones = new Set(
+    existingPeople.map((person) => normalizePhoneNumber(person.phone, defaultCountry) ?? person.phone),
+  )
+  const schema = createPersonInputSchema({
+    country: defaultCountry,
+    isDuplicate: (phone) => knownPhones.has(phone),
+    isBlocked,
+  })
+  const cell = (row: string[], field: ImportablePersonField) => {
+    const column = mapping[field]
+    return column === null ? "" : (row[column] ?? "").trim()
+  }
+
+  return rows.map((row, index) => {
+    const rowNumber = index + firstRowNumber
+    const result = validate(schema, {
+      name: cell(row, "name"),
+      lastName: cell(row, "lastName"),
+      phone: cell(row, "phone"),
+    })
+
+    if (!result.success) {
+      const errors = Object.values(result.errors).filter((error): error is string => !!error)
+      return {
+        rowNumber,
+        person: null,
+        errors,
+        duplicate: result.errors.phone === DUPLICATE_PHONE_MESSAGE,
+        blocked: result.errors.phone === DO_NOT_CALL_MESSAGE,
+      }
+    }
+
+    knownPhones.add(result.data.phone)
+    return { rowNumber, person: { id: uuidv4(), ...result.data }, errors: [], duplicate: false, blocked: false }
+  })
+}
+
+export const summarizeImport = (results: ImportRowResult[]): ImportSummary => ({
+  imported: results.filter((result) => result.person).length,
+  skipped: results.filter((result) => !result.person && !result.duplicate && !result.blocked).length,
+  duplicates: results.filter((result) => result.duplicate).length,
+  blocked: results.filter((result) => result.blocked).length,
+})
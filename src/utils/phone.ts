@@ -0,0 +1,88 @@
+import { AsYouType, getCountries, getCountryCallingCode, parsePhoneNumberFromString } from "libphonenumber-js"
+import type { CountryCode } from "libphonenumber-js"
+import type { Campaign } from "../types"
+
+export type { CountryCode }
+
+// Los números guardados antes del modelo E.164 usaban la máscara (xxx) xxx-xxxx, por eso "US" por defecto
+export const DEFAULT_PHONE_COUNTRY: CountryCode =
+  (import.meta.env.VITE_DEFAULT_PHONE_COUNTRY as CountryCode | undefined) ?? "US"
+
+export interface PhoneCountryOption {
+  code: CountryCode
+  name: string
+  callingCode: string
+}
+
+const phoneCountries = new Map<string, PhoneCountryOption[]>()
+
+// Países con el nombre en el idioma indicado y ordenados por ese nombre; se calculan una vez por idioma
+export const getPhoneCountries = (locale: string): PhoneCountryOption[] => {
+  let countries = phoneCountries.get(locale)
+  if (!countries) {
+    const regionNames = new Intl.DisplayNames([locale], { type: "region" })
+    countries = getCountries()
+      .map((code) => ({ code, name: regionNames.of(code) ?? code, callingCode: getCountryCallingCode(code) }))
+      .sort((a, b) => a.name.localeCompare(b.name, locale))
+    phoneCountries.set(locale, countries)
+  }
+  return countries
+}
+
+const parse = (value: string, country: CountryCode) => parsePhoneNumberFromString(value.trim(), country)
+
+// Convierte lo que escribió el usuario a E.164 (+5491112345678). Devuelve null si el número no es válido.
+export const normalizePhoneNumber = (value: string, country: CountryCode = DEFAULT_PHONE_COUNTRY): string | null => {
+  const phoneNumber = parse(value, country)
+  return phoneNumber?.isValid() ? phoneNumber.number : null
+}
+
+export const isValidPhoneNumber = (value: string, country: CountryCode = DEFAULT_PHONE_COUNTRY): boolean =>
+  normalizePhoneNumber(value, country) !== null
+
+// Formato nacional para el país por defecto e internacional para el resto
+export const formatPhoneForDisplay = (phone: string, defaultCountry: CountryCode = DEFAULT_PHONE_COUNTRY): string => {
+  const phoneNumber = parse(phone, defaultCountry)
+  if (!phoneNumber) {
+    return phone
+  }
+  return phoneNumber.country === defaultCountry ? phoneNumber.formatNational() : phoneNumber.formatInternational()
+}
+
+// Máscara mientras se escribe; no recorta dígitos, a diferencia de la máscara fija anterior
+export const formatPhoneAsYouType = (value: string, country: CountryCode = DEFAULT_PHONE_COUNTRY): string =>
+  new AsYouType(country).input(value)
+
+export const getPhoneCountry = (phone: string): CountryCode | undefined => parse(phone, DEFAULT_PHONE_COUNTRY)?.country
+
+// Compara por valor normalizado, así "(11) 1234-5678" y "+54 11 1234 5678" se detectan como el mismo número
+export const isSamePhoneNumber = (a: string, b: string, country: CountryCode = DEFAULT_PHONE_COUNTRY): boolean => {
+  const normalizedA = normalizePhoneNumber(a, country) ?? a.replace(/\D/g, "")
+  const normalizedB = normalizePhoneNumber(b, country) ?? b.replace(/\D/g, "")
+  return normalizedA === normalizedB
+}
+
+// Texto de búsqueda que solo puede ser un teléfono (dígitos, espacios, paréntesis, guiones y +); "Q3 promo" no lo es
+export const isPhoneSearchTerm = (term: string) => /^[\d()+\-\s]+$/.test(term) && /\d/.test(term)
+
+const isE164 = (phone: string) => /^\+[1-9]\d{6,14}$/.test(phone)
+
+// Migra los teléfonos guardados con formato local a E.164. Los que no se pueden interpretar se conservan tal cual.
+export const migrateCampaignPhones = (campaigns: Campaign[]): { campaigns: Campaign[]; changed: boolean } => {
+  let changed = false
+
+  const migrated = campaigns.map((campaign) => {
+    if (campaign.people.every((person) => isE164(person.phone))) {
+      return campaign
+    }
+    changed = true
+    return {
+      ...campaign,
+      people: campaign.people.map((person) =>
+        isE164(person.phone) ? person : { ...person, phone: normalizePhoneNumber(person.phone) ?? person.phone },
+      ),
+    }
+  })
+
+  return { campaigns: migrated, changed }
+}
@@ -0,0 +1,76 @@
+import type { Campaign, Person } from "../types"
+import { MessageError } from "../i18n"
+import { parseTimestamp, toTimestamp } from "."
+import { isSamePhoneNumber } from "./phone"
+
+// Días que un elemento pasa en la papelera antes de eliminarse definitivamente
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const isDeleted = (campaign: Campaign) => Boolean(campaign.deletedAt)
+
+// Campañas que se muestran, cuentan en el resumen y se filtran
+export const getLiveCampaigns = (campaigns: Campaign[]) => campaigns.filter((campaign) => !isDeleted(campaign))
+
+export const softDeleteCampaign = (campaign: Campaign, now = new Date()): Campaign => ({
+  ...campaign,
+  deletedAt: toTimestamp(now),
+})
+
+export const restoreCampaign = (campaign: Campaign): Campaign => ({ ...campaign, deletedAt: undefined })
+
+export const softDeletePerson = (campaign: Campaign, personId: string, now = new Date()): Campaign => {
+  const person = campaign.people.find((p) => p.id === personId)
+  if (!person) {
+    throw new MessageError("trash.error.personNotFound", { id: personId })
+  }
+  return {
+    ...campaign,
+    people: campaign.people.filter((p) => p.id !== personId),
+    deletedPeople: [...(campaign.deletedPeople ?? []), { ...person, deletedAt: toTimestamp(now) }],
+  }
+}
+
+// Vuelve a agregar a la persona al final de la lista, o en `index` si se indica (p. ej. al deshacer)
+export const restorePerson = (campaign: Campaign, personId: string, index = campaign.people.length): Campaign => {
+  const deleted = campaign.deletedPeople?.find((p) => p.id === personId)
+  if (!deleted) {
+    throw new MessageError("trash.error.personNotInTrash", { id: personId })
+  }
+  if (campaign.people.some((p) => isSamePhoneNumber(p.phone, deleted.phone))) {
+    throw new Error("trash.error.duplicatePhone")
+  }
+  const person: Person = { ...deleted, deletedAt: undefined }
+  const people = [...campaign.people]
+  people.splice(Math.min(index, people.length), 0, person)
+  return { ...campaign, people, deletedPeople: campaign.deletedPeople?.filter((p) => p.id !== personId) }
+}
+
+export const purgePerson = (campaign: Campaign, personId: string): Campaign => ({
+  ...campaign,
+  deletedPeople: campaign.deletedPeople?.filter((p) => p.id !== personId),
+})
+
+export const getPurgeDate = (deletedAt: string, retentionDays = DEFAULT_TRASH_RETENTION_DAYS) =>
+  new Date(parseTimestamp(deletedAt).getTime() + retentionDays * DAY_MS)
+
+const isExpired = (deletedAt: string | undefined, now: Date, retentionDays: number) =>
+  Boolean(deletedAt) && getPurgeDate(deletedAt!, retentionDays).getTime() <= now.getTime()
+
+// Lo que ya cumplió el plazo de retención: campañas a eliminar y campañas vivas con personas a descartar
+export const getExpiredTrash = (
+  campaigns: Campaign[],
+  now = new Date(),
+  retentionDays = DEFAULT_TRASH_RETENTION_DAYS,
+) => {
+  const expiredCampaigns = campaigns.filter((campaign) => isExpired(campaign.deletedAt, now, retentionDays))
+  const campaignsWithExpiredPeople = campaigns
+    .filter((campaign) => !expiredCampaigns.includes(campaign))
+    .filter((campaign) => campaign.deletedPeople?.some((p) => isExpired(p.deletedAt, now, retentionDays)))
+    .map((campaign) => ({
+      ...campaign,
+      deletedPeople: campaign.deletedPeople!.filter((p) => !isExpired(p.deletedAt, now, retentionDays)),
+    }))
+  return { expiredCampaigns, campaignsWithExpiredPeople }
+}
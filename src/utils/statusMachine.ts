@@ -0,0 +1,282 @@
+import type {
+  Campaign,
+  CampaignStatus,
+  CampaignStatusEvent,
+  ResumePolicy,
+  StatusTransitionCause,
+  TransitionOptions,
+} from "../types"
+import { MessageError } from "../i18n"
+import type { MessageKey } from "../i18n"
+import { parseTimestamp, toTimestamp } from "."
+
+interface TransitionContext {
+  cause: StatusTransitionCause
+  now: Date
+  options: TransitionOptions
+}
+
+interface TransitionDefinition {
+  event: CampaignStatusEvent
+  from: CampaignStatus
+  to: CampaignStatus
+  causes: StatusTransitionCause[]
+  // Devuelve el motivo (clave del catálogo) por el que la transición no se permite, o null si se permite
+  guard?: (campaign: Campaign, context: TransitionContext) => MessageKey | null
+  // Momento en que la transición ocurre sola (causa "schedule"); antes de él no se permite por calendario
+  scheduledAt?: (campaign: Campaign) => string
+  // Cambios que acompañan a la transición, además del estado y el historial
+  effect?: (campaign: Campaign, context: TransitionContext) => Campaign
+}
+
+export interface AllowedTransition {
+  event: CampaignStatusEvent
+  to: CampaignStatus
+}
+
+// Política usada al reanudar si no se elige otra: siempre es aplicable, aunque la fecha de fin ya haya pasado
+export const DEFAULT_RESUME_POLICY: ResumePolicy = "extend"
+
+// Inicio del tramo activo en curso: la última entrada a Activa, o la fecha de inicio en campañas sin historial
+const getActiveSince = (campaign: Campaign): Date => {
+  const lastActivation = [...(campaign.statusHistory ?? [])].reverse().find((change) => change.to === "active")
+  return parseTimestamp(lastActivation?.changedAt ?? campaign.startDate)
+}
+
+// Tiempo total en estado Activa, incluido el tramo en curso
+export const getActiveTimeMs = (campaign: Campaign, now = new Date()): number => {
+  const closed = campaign.activeTimeMs ?? 0
+  if (campaign.status !== "active") {
+    return closed
+  }
+  // Un tramo activo no se cuenta más allá de la fecha de fin, aunque el planificador lo cierre tarde
+  const segmentEnd = Math.min(now.getTime(), parseTimestamp(campaign.endDate).getTime())
+  return closed + Math.max(0, segmentEnd - getActiveSince(campaign).getTime())
+}
+
+// Cierra el tramo activo sumándolo a activeTimeMs; se aplica al salir de Activa
+const closeActiveSegment = (campaign: Campaign, { now }: TransitionContext): Campaign => ({
+  ...campaign,
+  activeTimeMs: getActiveTimeMs(campaign, now),
+})
+
+const clearPause = (campaign: Campaign): Campaign => ({ ...campaign, pausedAt: undefined })
+
+// Finalizar o cancelar antes de tiempo adelanta la fecha de fin al momento del cambio
+const endNow = (campaign: Campaign, { cause, now }: TransitionContext): Campaign =>
+  cause === "manual" && now < parseTimestamp(campaign.endDate) ? { ...campaign, endDate: toTimestamp(now) } : campaign
+
+const manualOnly: StatusTransitionCause[] = ["manual"]
+
+// Única definición de los cambios de estado permitidos
+const transitions: TransitionDefinition[] = [
+  {
+    event: "start",
+    from: "waiting",
+    to: "active",
+    causes: ["manual", "schedule", "system"],
+    scheduledAt: (campaign) => campaign.startDate,
+    // Iniciar a mano fija el inicio en el momento del cambio
+    effect: (campaign, { cause, now }) =>
+      cause === "manual" ? { ...campaign, startDate: toTimestamp(now) } : campaign,
+  },
+  {
+    event: "pause",
+    from: "active",
+    to: "paused",
+    causes: manualOnly,
+    effect: (campaign, context) => ({ ...closeActiveSegment(campaign, context), pausedAt: toTimestamp(context.now) }),
+  },
+  {
+    event: "finish",
+    from: "active",
+    to: "finished",
+    causes: ["manual", "schedule", "system"],
+    scheduledAt: (campaign) => campaign.endDate,
+    effect: (campaign, context) => closeActiveSegment(endNow(campaign, context), context),
+  },
+  {
+    event: "resume",
+    from: "paused",
+    to: "active",
+    causes: manualOnly,
+    guard: (campaign, { now, options }) =>
+      (options.resumePolicy ?? DEFAULT_RESUME_POLICY) === "keep" && now >= parseTimestamp(campaign.endDate)
+        ? "transition.error.endDatePassed"
+        : null,
+    effect: (campaign, { now, options }) => {
+      const resumed = clearPause(campaign)
+      if ((options.resumePolicy ?? DEFAULT_RESUME_POLICY) === "keep" || !campaign.pausedAt) {
+        return resumed
+      }
+      const pausedMs = Math.max(0, now.getTime() - parseTimestamp(campaign.pausedAt).getTime())
+      return { ...resumed, endDate: toTimestamp(new Date(parseTimestamp(campaign.endDate).getTime() + pausedMs)) }
+    },
+  },
+  {
+    event: "finish",
+    from: "paused",
+    to: "finished",
+    causes: manualOnly,
+    effect: (campaign, context) => clearPause(endNow(campaign, context)),
+  },
+  {
+    event: "cancel",
+    from: "waiting",
+    to: "cancelled",
+    causes: manualOnly,
+  },
+  {
+    event: "cancel",
+    from: "active",
+    to: "cancelled",
+    causes: manualOnly,
+    effect: (campaign, context) => closeActiveSegment(endNow(campaign, context), context),
+  },
+  {
+    event: "cancel",
+    from: "paused",
+    to: "cancelled",
+    causes: manualOnly,
+    effect: (campaign, context) => clearPause(endNow(campaign, context)),
+  },
+]
+
+export const INITIAL_STATUSES: CampaignStatus[] = ["waiting", "active"]
+
+const findTransition = (status: CampaignStatus, event: CampaignStatusEvent) =>
+  transitions.find((transition) => transition.from === status && transition.event === event)
+
+export const canTransition = (
+  campaign: Campaign,
+  event: CampaignStatusEvent,
+  cause: StatusTransitionCause = "manual",
+  now = new Date(),
+  options: TransitionOptions = {},
+): { allowed: boolean; reason: MessageKey | null } => {
+  const definition = findTransition(campaign.status, event)
+  if (!definition || !definition.causes.includes(cause)) {
+    return { allowed: false, reason: "transition.error.notAllowed" }
+  }
+  if (cause === "schedule" && definition.scheduledAt && now < parseTimestamp(definition.scheduledAt(campaign))) {
+    return { allowed: false, reason: "transition.error.notYetScheduled" }
+  }
+  const reason = definition.guard?.(campaign, { cause, now, options }) ?? null
+  return { allowed: !reason, reason }
+}
+
+export const getAllowedTransitions = (
+  campaign: Campaign,
+  cause: StatusTransitionCause = "manual",
+  now = new Date(),
+): AllowedTransition[] =>
+  transitions
+    .filter(
+      (transition) =>
+        transition.from === campaign.status && canTransition(campaign, transition.event, cause, now).allowed,
+    )
+    .map(({ event, to }) => ({ event, to }))
+
+// Todas las transiciones definidas desde un estado, permitidas o no, para dibujar los botones deshabilitados
+export const getTransitionsFrom = (status: CampaignStatus): AllowedTransition[] =>
+  transitions.filter((transition) => transition.from === status).map(({ event, to }) => ({ event, to }))
+
+const record = (
+  campaign: Campaign,
+  from: CampaignStatus | null,
+  to: CampaignStatus,
+  cause: StatusTransitionCause,
+  now: Date,
+): Campaign => ({
+  ...campaign,
+  status: to,
+  statusHistory: [...(campaign.statusHistory ?? []), { from, to, changedAt: toTimestamp(now), cause }],
+})
+
+export const transition = (
+  campaign: Campaign,
+  event: CampaignStatusEvent,
+  cause: StatusTransitionCause = "manual",
+  now = new Date(),
+  options: TransitionOptions = {},
+): Campaign => {
+  const { allowed, reason } = canTransition(campaign, event, cause, now, options)
+  // El mensaje es la clave del catálogo, para que la interfaz pueda mostrarlo traducido
+  if (!allowed) {
+    throw new Error(reason ?? "transition.error.notAllowed")
+  }
+  const definition = findTransition(campaign.status, event)!
+  const updated = definition.effect?.(campaign, { cause, now, options }) ?? campaign
+  return record(updated, campaign.status, definition.to, cause, now)
+}
+
+// Transición hacia un estado concreto, para el selector de estado del formulario
+export const transitionTo = (
+  campaign: Campaign,
+  status: CampaignStatus,
+  cause: StatusTransitionCause = "manual",
+  now = new Date(),
+): Campaign => {
+  if (status === campaign.status) {
+    return campaign
+  }
+  const definition = transitions.find((transition) => transition.from === campaign.status && transition.to === status)
+  if (!definition) {
+    throw new MessageError("status.error.invalidTransition", { from: campaign.status, to: status })
+  }
+  return transition(campaign, definition.event, cause, now)
+}
+
+// Estados que ofrece el selector: los iniciales al crear, o el actual y los que se alcanzan iniciando la campaña
+export const getStatusOptions = (current?: CampaignStatus): CampaignStatus[] =>
+  current
+    ? [current, ...getTransitionsFrom(current).filter(({ event }) => event === "start").map(({ to }) => to)]
+    : INITIAL_STATUSES
+
+// Registra el estado con el que se crea la campaña; crearla activa equivale a iniciarla en ese momento
+export const initializeStatus = (campaign: Campaign, status: CampaignStatus, now = new Date()): Campaign => {
+  if (!INITIAL_STATUSES.includes(status)) {
+    throw new MessageError("status.error.invalidInitial", { status })
+  }
+  const initialized = status === "active" ? { ...campaign, startDate: toTimestamp(now) } : campaign
+  return record({ ...initialized, statusHistory: [] }, null, status, "manual", now)
+}
+
+// true si elegir `status` en el formulario inicia la campaña en el momento de guardar
+export const startsOnSave = (status: CampaignStatus, previousStatus: CampaignStatus | null): boolean =>
+  status === "active" && (previousStatus === null || previousStatus === "waiting")
+
+// Aplica en cadena las transiciones por calendario que ya vencieron (p. ej. en espera -> activa -> finalizada).
+// Las campañas pausadas o canceladas no tienen transiciones por calendario, así que el planificador no las toca.
+// Tampoco las que están en la papelera: al restaurarlas se aplica lo que haya vencido
+export const applyScheduledTransitions = (campaign: Campaign, now = new Date()): Campaign => {
+  if (campaign.deletedAt) {
+    return campaign
+  }
+  let current = campaign
+  for (;;) {
+    const next = getAllowedTransitions(current, "schedule", now)[0]
+    if (!next) {
+      return current
+    }
+    current = transition(current, next.event, "schedule", now)
+  }
+}
+
+// Próximo momento en que la campaña cambia de estado por calendario, o null si no tiene ninguno pendiente
+export const getNextScheduledTransitionAt = (campaign: Campaign): Date | null => {
+  if (campaign.deletedAt) {
+    return null
+  }
+  const times = transitions
+    .filter((transition) => transition.from === campaign.status && transition.causes.includes("schedule"))
+    .flatMap((transition) => (transition.scheduledAt ? [transition.scheduledAt(campaign)] : []))
+    .map((timestamp) => parseTimestamp(timestamp).getTime())
+  return times.length > 0 ? new Date(Math.min(...times)) : null
+}
+
+export const canDeleteCampaign = (campaign: Campaign) =>
+  campaign.status === "waiting" || campaign.status === "cancelled"
+
+export const canModifyPeople = (campaign: Campaign) =>
+  campaign.status !== "finished" && campaign.status !== "cancelled"
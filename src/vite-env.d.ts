@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_SOURCE?: "local" | "indexeddb" | "memory" | "http" | "mock"
+  readonly VITE_API_URL?: string
+  readonly VITE_DEFAULT_PHONE_COUNTRY?: string
+}
@@ -2,21 +2,35 @@ import { defineConfig} from "vite"
 import react from "@vitejs/plugin-react"
 import ModuleFederationPlugin from "@originjs/vite-plugin-federation"
 import tsconfigPaths from "vite-tsconfig-paths"
+import { mockApiPlugin } from "./src/mocks/viteMockApi"
+import { remoteTypesPlugin } from "./src/remote/viteRemoteTypes"
+
+// El host los importa como "componentsApp/<nombre>"; sus tipos se publican en dist/@types
+const exposes = {
+  "./home": "./src/App.tsx",
+  "./CampaignsProvider": "./src/components/CampaignsProvider.tsx",
+  "./CampaignList": "./src/remote/CampaignList.tsx",
+  "./CampaignForm": "./src/remote/CampaignForm.tsx",
+  "./ConfirmationModal": "./src/remote/ConfirmationModal.tsx",
+  "./CampaignSummary": "./src/remote/CampaignSummary.tsx",
+  "./hooks": "./src/remote/hooks.ts",
+  "./events": "./src/remote/events.ts",
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [
     react(),
     tsconfigPaths(),
+    mockApiPlugin(),
     ModuleFederationPlugin({
       name: "componentsApp",
       filename: "remoteEntry.js",
-      exposes: {
-        "./home": "./src/App.tsx"
-        // Exponer otros componentes individualmente
-      },
-      shared: ["react", "react-dom"],
+      exposes,
+      // react-query compartido para que los componentes usen el QueryClient que pase el host
+      shared: ["react", "react-dom", "react-router-dom", "react-query"],
     }),
+    remoteTypesPlugin("componentsApp", exposes),
   ],
   build: {
     target: "esnext",